@@ -0,0 +1,187 @@
+/**
+ * @fileoverview BatchLoader - DataLoader-style batching of key loads
+ * @description
+ * Collects the keys loaded during one turn of the event loop and loads
+ * them with a single call to a batch function. The query bus uses it to
+ * batch queries for handlers that implement `executeBatch()`; handlers can
+ * also use it directly to load related records without N+1 lookups.
+ *
+ * @module @struktos/core/application/cqrs/BatchLoader
+ *
+ * @example
+ * ```typescript
+ * const users = new BatchLoader<string, User | undefined>(async (ids) => {
+ *   const rows = await db.users.findMany({ where: { id: { in: ids } } });
+ *   return ids.map((id) => rows.find((row) => row.id === id));
+ * });
+ *
+ * // One database call for both
+ * const [author, reviewer] = await Promise.all([
+ *   users.load(post.authorId),
+ *   users.load(post.reviewerId),
+ * ]);
+ * ```
+ */
+
+/**
+ * Loads many keys at once.
+ *
+ * Must return one value per key, in key order. An `Error` in place of a
+ * value rejects the load of that key only.
+ */
+export type BatchLoadFunction<K, V> = (
+  keys: readonly K[],
+) => Promise<ReadonlyArray<V | Error>>;
+
+/**
+ * Configuration for a BatchLoader.
+ */
+export interface BatchLoaderOptions<K> {
+  /**
+   * Largest number of keys per batch call. Must be at least 1.
+   * @defaultValue Infinity
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Whether to remember loaded keys, so later loads of the same key reuse
+   * the first result. Create a loader per request when enabled.
+   * @defaultValue true
+   */
+  cache?: boolean;
+
+  /**
+   * Turn a key into the string used to recognize repeated keys. Without
+   * it, keys are compared by identity, so object keys only match the same
+   * object.
+   */
+  cacheKeyFn?: (key: K) => string;
+}
+
+interface PendingLoad<K, V> {
+  key: K;
+  resolve: (value: V) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * BatchLoader - Batches and deduplicates key loads within a tick.
+ *
+ * @template K - Key type
+ * @template V - Loaded value type
+ */
+export class BatchLoader<K, V> {
+  private readonly loaded = new Map<unknown, Promise<V>>();
+  private queue: PendingLoad<K, V>[] = [];
+  private scheduled = false;
+
+  /**
+   * @throws {Error} If `maxBatchSize` is below 1
+   */
+  constructor(
+    private readonly batchFn: BatchLoadFunction<K, V>,
+    private readonly options: BatchLoaderOptions<K> = {},
+  ) {
+    if (options.maxBatchSize !== undefined && !(options.maxBatchSize >= 1)) {
+      throw new Error(
+        `maxBatchSize must be at least 1, got ${options.maxBatchSize}`,
+      );
+    }
+  }
+
+  /**
+   * Load a key as part of the current batch.
+   */
+  load(key: K): Promise<V> {
+    const cacheKey = this.cacheKeyOf(key);
+    const cache = this.options.cache ?? true;
+
+    const existing = cache ? this.loaded.get(cacheKey) : undefined;
+    if (existing) {
+      return existing;
+    }
+
+    const promise = new Promise<V>((resolve, reject) => {
+      this.queue.push({ key, resolve, reject });
+    });
+    if (cache) {
+      this.loaded.set(cacheKey, promise);
+    }
+    this.schedule();
+    return promise;
+  }
+
+  /**
+   * Load several keys as part of the current batch.
+   */
+  loadMany(keys: readonly K[]): Promise<V[]> {
+    return Promise.all(keys.map((key) => this.load(key)));
+  }
+
+  /**
+   * Forget a remembered key.
+   */
+  clear(key: K): this {
+    this.loaded.delete(this.cacheKeyOf(key));
+    return this;
+  }
+
+  /**
+   * Forget every remembered key.
+   */
+  clearAll(): this {
+    this.loaded.clear();
+    return this;
+  }
+
+  private cacheKeyOf(key: K): unknown {
+    return this.options.cacheKeyFn ? this.options.cacheKeyFn(key) : key;
+  }
+
+  // ==================== Dispatch ====================
+
+  private schedule(): void {
+    if (this.scheduled) {
+      return;
+    }
+    this.scheduled = true;
+    setImmediate(() => {
+      this.scheduled = false;
+      const queue = this.queue;
+      this.queue = [];
+
+      const size = this.options.maxBatchSize ?? Infinity;
+      for (let start = 0; start < queue.length; start += size) {
+        void this.dispatch(queue.slice(start, start + size));
+      }
+    });
+  }
+
+  private async dispatch(batch: PendingLoad<K, V>[]): Promise<void> {
+    let values: ReadonlyArray<V | Error>;
+    try {
+      values = await this.batchFn(batch.map((load) => load.key));
+      if (values.length !== batch.length) {
+        throw new Error(
+          `Batch function returned ${values.length} values for ${batch.length} keys`,
+        );
+      }
+    } catch (error) {
+      for (const load of batch) {
+        this.clear(load.key);
+        load.reject(error as Error);
+      }
+      return;
+    }
+
+    batch.forEach((load, index) => {
+      const value = values[index] as V | Error;
+      if (value instanceof Error) {
+        this.clear(load.key);
+        load.reject(value);
+      } else {
+        load.resolve(value);
+      }
+    });
+  }
+}
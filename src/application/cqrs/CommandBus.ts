@@ -0,0 +1,700 @@
+/**
+ * @struktos/core - In-Memory Command Bus
+ *
+ * Default ICommandBus implementation. Routes commands to registered handlers
+ * in-process, runs the pipeline behavior chain around every handler call,
+ * and applies timeout and retry policies from CommandExecutionOptions.
+ *
+ * @module application/cqrs/CommandBus
+ * @see {@link https://martinfowler.com/bliki/CQRS.html | CQRS Pattern}
+ */
+
+import { CausationContext } from '../../domain/context/CausationContext';
+import type { CausationScope } from '../../domain/context/CausationContext';
+import { RequestContext } from '../../domain/context/RequestContext';
+import type {
+  IContext,
+  StruktosContextData,
+} from '../../domain/context/IContext';
+import { ConnectionRouting } from '../../domain/repository/IConnectionRouter';
+import type {
+  ICommand,
+  ICommandBus,
+  CommandExecutionOptions,
+  CommandMetadata,
+  CommandResult,
+} from './ICommand';
+import type { ICommandQueueStore } from './CommandQueue';
+import type { IIdempotencyStore } from './Idempotency';
+import { HandlerContext } from './IHandler';
+import type { ICommandHandler, IPipelineBehavior } from './IHandler';
+import { orderBehaviors } from './PipelineBehaviors';
+
+/**
+ * Error thrown when no handler is registered for a dispatched command.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await commandBus.execute(new CreateUserCommand('john@example.com'));
+ * } catch (error) {
+ *   if (error instanceof CommandHandlerNotFoundError) {
+ *     console.error(`Missing handler for ${error.commandType}`);
+ *   }
+ * }
+ * ```
+ */
+export class CommandHandlerNotFoundError extends Error {
+  /**
+   * The command type that could not be routed.
+   */
+  public readonly commandType: string;
+
+  constructor(commandType: string) {
+    super(`No handler registered for command '${commandType}'`);
+    this.name = 'CommandHandlerNotFoundError';
+    this.commandType = commandType;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, CommandHandlerNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a command handler exceeds its execution timeout.
+ */
+export class CommandTimeoutError extends Error {
+  /**
+   * The command type that timed out.
+   */
+  public readonly commandType: string;
+
+  /**
+   * The timeout that was exceeded, in milliseconds.
+   */
+  public readonly timeout: number;
+
+  constructor(commandType: string, timeout: number) {
+    super(`Command '${commandType}' timed out after ${timeout}ms`);
+    this.name = 'CommandTimeoutError';
+    this.commandType = commandType;
+    this.timeout = timeout;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, CommandTimeoutError.prototype);
+  }
+}
+
+/**
+ * Configuration for a CommandBus instance.
+ *
+ * Values here are defaults; per-call CommandExecutionOptions take precedence.
+ */
+export interface CommandBusOptions {
+  /**
+   * Pipeline behaviors wrapped around every handler call, outermost first
+   * (sorted by `order`; equal orders keep this sequence).
+   * Typically the array registered under PIPELINE_BEHAVIORS_TOKEN.
+   */
+  behaviors?: IPipelineBehavior[];
+
+  /**
+   * Default handler timeout in milliseconds. Use 0 to disable.
+   * @defaultValue 30000
+   */
+  timeout?: number;
+
+  /**
+   * Default number of retry attempts.
+   * @defaultValue 0
+   */
+  retries?: number;
+
+  /**
+   * Default delay between retry attempts in milliseconds.
+   * @defaultValue 1000
+   */
+  retryDelay?: number;
+
+  /**
+   * Decide whether a failed attempt should be retried.
+   * By default every error except a missing handler or a timeout is
+   * retried. A handler that timed out may still be running, so retrying it
+   * would run the command twice at once; only retry timeouts of commands
+   * that are safe to run concurrently.
+   */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+
+  /**
+   * Store for commands executed with `{ async: true }`, drained by a
+   * CommandQueueWorker. Async execution fails without one.
+   */
+  queue?: ICommandQueueStore;
+
+  /**
+   * Store for idempotency keys. When set, a command executed again with the
+   * same key returns the stored result instead of running its handler.
+   */
+  idempotencyStore?: IIdempotencyStore;
+
+  /**
+   * How long results are kept in the idempotency store, in milliseconds.
+   * @defaultValue 86400000 (24 hours)
+   */
+  idempotencyTtl?: number;
+
+  /**
+   * Delay in milliseconds between store reads while waiting for an async
+   * command's result or for a duplicate command that is still running.
+   * @defaultValue 100
+   */
+  resultPollInterval?: number;
+}
+
+/**
+ * The parts of a CommandResult known before the handler runs.
+ */
+type CommandResultBase = Pick<
+  CommandResult<unknown>,
+  'commandId' | 'commandType' | 'startedAt' | 'traceId'
+>;
+
+/**
+ * Request context keys stored with queued commands.
+ */
+const QUEUED_CONTEXT_KEYS = [
+  'traceId',
+  'requestId',
+  'userId',
+  'roles',
+  'claims',
+] as const;
+
+/**
+ * Constructor type accepted wherever a command type can be given.
+ */
+type CommandConstructor = new (...args: any[]) => ICommand<unknown>;
+
+/**
+ * CommandBus - In-memory ICommandBus implementation.
+ *
+ * Handlers are keyed by command type name. A command's type is taken from
+ * `metadata.commandType` (set by CommandBase), then a `__type` property for
+ * plain object commands, then the constructor name.
+ *
+ * @template TContext - Context data type extending StruktosContextData
+ *
+ * @example
+ * ```typescript
+ * const commandBus = new CommandBus({
+ *   behaviors: [new LoggingBehavior(logger)],
+ *   timeout: 10000,
+ * });
+ *
+ * commandBus.register(CreateUserCommand, new CreateUserHandler(userRepo));
+ *
+ * const userId = await commandBus.execute(
+ *   new CreateUserCommand('john@example.com', 'John'),
+ *   { retries: 2, retryDelay: 500 },
+ * );
+ * ```
+ */
+export class CommandBus<
+  TContext extends StruktosContextData = StruktosContextData,
+> implements ICommandBus<TContext> {
+  private readonly handlers = new Map<
+    string,
+    ICommandHandler<ICommand<unknown>, unknown>
+  >();
+  private behaviors: IPipelineBehavior[];
+
+  constructor(private readonly options: CommandBusOptions = {}) {
+    this.behaviors = orderBehaviors(options.behaviors ?? []);
+  }
+
+  /**
+   * Register a command handler for a command type.
+   *
+   * @throws {Error} If a handler is already registered for the type
+   */
+  register<TCommand extends ICommand<TResult>, TResult>(
+    commandType: string | (new (...args: any[]) => TCommand),
+    handler: ICommandHandler<TCommand, TResult>,
+  ): void {
+    const key = this.toTypeName(commandType);
+    if (this.handlers.has(key)) {
+      throw new Error(`A handler is already registered for command '${key}'`);
+    }
+    this.handlers.set(
+      key,
+      handler as unknown as ICommandHandler<ICommand<unknown>, unknown>,
+    );
+  }
+
+  /**
+   * Check if a handler is registered for a command type.
+   */
+  hasHandler(commandType: string | CommandConstructor): boolean {
+    return this.handlers.has(this.toTypeName(commandType));
+  }
+
+  /**
+   * Add a pipeline behavior. It runs inside behaviors with a lower or equal
+   * `order` and outside those with a higher one.
+   */
+  addBehavior(behavior: IPipelineBehavior): this {
+    this.behaviors = orderBehaviors([...this.behaviors, behavior]);
+    return this;
+  }
+
+  /**
+   * Execute a command and return its result, throwing on failure.
+   * With `{ async: true }`, queue it and return its command ID instead.
+   */
+  execute<TResult>(
+    command: ICommand<TResult>,
+    options: CommandExecutionOptions<TContext> & { async: true },
+  ): Promise<string>;
+  execute<TResult>(
+    command: ICommand<TResult>,
+    options?: CommandExecutionOptions<TContext>,
+  ): Promise<TResult>;
+  async execute<TResult>(
+    command: ICommand<TResult>,
+    options?: CommandExecutionOptions<TContext>,
+  ): Promise<TResult | string> {
+    if (options?.async) {
+      return this.enqueue(command, options);
+    }
+
+    const key = this.getIdempotencyKey(command, options);
+    if (key) {
+      const result = await this.executeIdempotent(command, key, options);
+      return result.value as TResult;
+    }
+    return this.runInContext(options?.context, () =>
+      this.dispatch(command, options),
+    );
+  }
+
+  /**
+   * Execute a command and return a result wrapper instead of throwing.
+   */
+  async executeWithResult<TResult>(
+    command: ICommand<TResult>,
+    options?: CommandExecutionOptions<TContext>,
+  ): Promise<CommandResult<TResult>> {
+    const base = this.createResultBase(command, options);
+
+    if (options?.async) {
+      const commandId = await this.enqueue(command, options);
+      return this.waitForResult<TResult>(
+        { ...base, commandId },
+        options.timeout ?? this.options.timeout ?? 30000,
+      );
+    }
+
+    try {
+      const key = this.getIdempotencyKey(command, options);
+      if (key) {
+        return await this.executeIdempotent(command, key, options);
+      }
+
+      const value = await this.runInContext(options?.context, () =>
+        this.dispatch(command, options),
+      );
+      return this.completeResult(base, value);
+    } catch (error) {
+      const completedAt = new Date();
+      return {
+        ...base,
+        success: false,
+        error: this.serializeError(error),
+        completedAt,
+        duration: completedAt.getTime() - base.startedAt.getTime(),
+      };
+    }
+  }
+
+  /**
+   * Read the result of a queued command.
+   *
+   * @returns The result, or undefined while the command is pending or running
+   * @throws {Error} If the bus has no command queue
+   */
+  async getCommandResult<TResult = unknown>(
+    commandId: string,
+  ): Promise<CommandResult<TResult> | undefined> {
+    const entry = await this.requireQueue().get(commandId);
+    return entry?.result as CommandResult<TResult> | undefined;
+  }
+
+  // ==================== Idempotency ====================
+
+  /**
+   * Key under which the command's result is stored, scoped by user and
+   * command type, or undefined when idempotency does not apply.
+   *
+   * The request context's key only applies to commands the request
+   * executes directly, and is combined with the command's payload so that
+   * different commands of one request never share a result. Commands
+   * executed while another message is handled fall back to their command
+   * ID, so they never share the request's result.
+   */
+  private getIdempotencyKey(
+    command: ICommand<unknown>,
+    options?: CommandExecutionOptions<TContext>,
+  ): string | undefined {
+    if (!this.options.idempotencyStore) {
+      return undefined;
+    }
+
+    const context = options?.context ?? RequestContext.current<TContext>();
+    const requestKey = CausationContext.current()
+      ? undefined
+      : (context?.get('idempotencyKey') as string | undefined);
+    const key =
+      options?.idempotencyKey ??
+      (requestKey !== undefined
+        ? `${requestKey}:${this.getPayload(command)}`
+        : this.getMetadata(command)?.commandId);
+    if (!key) {
+      return undefined;
+    }
+
+    const userId = (context?.get('userId') as string | undefined) ?? '';
+    return `${userId}:${this.getCommandType(command)}:${key}`;
+  }
+
+  /**
+   * The command's own fields as JSON, sorted by name, without metadata.
+   */
+  private getPayload(command: ICommand<unknown>): string {
+    const fields = Object.entries(command)
+      .filter(([key, value]) => key !== 'metadata' && value !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    return JSON.stringify(Object.fromEntries(fields));
+  }
+
+  /**
+   * Return the stored result for the key, or run the command and store its
+   * result. Waits while another execution holds the key; failures release
+   * the key so the command can be retried.
+   */
+  private async executeIdempotent<TResult>(
+    command: ICommand<TResult>,
+    key: string,
+    options?: CommandExecutionOptions<TContext>,
+  ): Promise<CommandResult<TResult>> {
+    const store = this.options.idempotencyStore!;
+    const ttl = this.options.idempotencyTtl ?? 24 * 60 * 60 * 1000;
+    const timeout = options?.timeout ?? this.options.timeout ?? 30000;
+    const pollInterval = this.options.resultPollInterval ?? 100;
+    const deadline = timeout > 0 ? Date.now() + timeout : Infinity;
+
+    for (;;) {
+      const stored = await store.get(key);
+      if (stored) {
+        return stored as CommandResult<TResult>;
+      }
+      if (await store.reserve(key, ttl)) {
+        break;
+      }
+      if (Date.now() >= deadline) {
+        throw new CommandTimeoutError(this.getCommandType(command), timeout);
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+
+    const base = this.createResultBase(command, options);
+    let value: TResult;
+    try {
+      value = await this.runInContext(options?.context, () =>
+        this.dispatch(command, options),
+      );
+    } catch (error) {
+      await store.release(key);
+      throw error;
+    }
+
+    const result = this.completeResult(base, value);
+    await store.complete(key, result, ttl);
+    return result;
+  }
+
+  // ==================== Queue ====================
+
+  /**
+   * Store the command in the queue for a CommandQueueWorker.
+   */
+  private async enqueue(
+    command: ICommand<unknown>,
+    options: CommandExecutionOptions<TContext>,
+  ): Promise<string> {
+    const queue = this.requireQueue();
+    const commandType = this.getCommandType(command);
+    if (!this.handlers.has(commandType)) {
+      throw new CommandHandlerNotFoundError(commandType);
+    }
+
+    this.linkCausation(command);
+    const commandId = this.getMetadata(command)?.commandId ?? this.generateId();
+    const context = options.context ?? RequestContext.current<TContext>();
+    const data: Record<string, unknown> = {};
+    for (const key of QUEUED_CONTEXT_KEYS) {
+      const value = context?.get(key);
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    }
+
+    await queue.enqueue({
+      commandId,
+      commandType,
+      command,
+      priority: options.priority ?? 0,
+      enqueuedAt: Date.now(),
+      status: 'pending',
+      options: {
+        timeout: options.timeout,
+        retries: options.retries,
+        retryDelay: options.retryDelay,
+      },
+      context: data,
+    });
+    return commandId;
+  }
+
+  /**
+   * Poll the queue until the command completes or the timeout expires.
+   */
+  private async waitForResult<TResult>(
+    base: CommandResultBase,
+    timeout: number,
+  ): Promise<CommandResult<TResult>> {
+    const pollInterval = this.options.resultPollInterval ?? 100;
+    const deadline = timeout > 0 ? Date.now() + timeout : Infinity;
+
+    for (;;) {
+      const result = await this.getCommandResult<TResult>(base.commandId);
+      if (result) {
+        return result;
+      }
+      if (Date.now() >= deadline) {
+        const completedAt = new Date();
+        return {
+          ...base,
+          success: false,
+          error: this.serializeError(
+            new CommandTimeoutError(base.commandType, timeout),
+          ),
+          completedAt,
+          duration: completedAt.getTime() - base.startedAt.getTime(),
+        };
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+  }
+
+  private requireQueue(): ICommandQueueStore {
+    if (!this.options.queue) {
+      throw new Error(
+        'Async command execution requires a command queue. ' +
+          'Pass `queue` in the CommandBus options.',
+      );
+    }
+    return this.options.queue;
+  }
+
+  // ==================== Dispatch ====================
+
+  /**
+   * Resolve the handler and run it with retries and timeout.
+   */
+  private async dispatch<TResult>(
+    command: ICommand<TResult>,
+    options?: CommandExecutionOptions<TContext>,
+  ): Promise<TResult> {
+    const commandType = this.getCommandType(command);
+    const handler = this.handlers.get(commandType);
+    if (!handler) {
+      throw new CommandHandlerNotFoundError(commandType);
+    }
+
+    const retries = options?.retries ?? this.options.retries ?? 0;
+    const retryDelay = options?.retryDelay ?? this.options.retryDelay ?? 1000;
+    const timeout = options?.timeout ?? this.options.timeout ?? 30000;
+
+    let attempt = 0;
+    for (;;) {
+      try {
+        return (await this.withTimeout(
+          this.invokePipeline(command, handler, options?.context),
+          commandType,
+          timeout,
+        )) as TResult;
+      } catch (error) {
+        if (attempt >= retries || !this.shouldRetry(error as Error, attempt)) {
+          throw error;
+        }
+        attempt++;
+        await new Promise((resolve) => setTimeout(resolve, retryDelay));
+      }
+    }
+  }
+
+  /**
+   * Run the behavior chain with the handler as the innermost step.
+   */
+  private invokePipeline(
+    command: ICommand<unknown>,
+    handler: ICommandHandler<ICommand<unknown>, unknown>,
+    requestContext?: IContext<TContext>,
+  ): Promise<unknown> {
+    const scope = this.linkCausation(command);
+    const handlerContext = HandlerContext.fromRequestContext(requestContext);
+
+    const pipeline = this.behaviors.reduceRight<() => Promise<unknown>>(
+      (next, behavior) => () => behavior.handle(command, next, handlerContext),
+      () => handler.execute(command, handlerContext),
+    );
+    const run = () =>
+      ConnectionRouting.run('primary', () =>
+        pipeline().finally(() => HandlerContext.release(handlerContext)),
+      );
+
+    return scope ? CausationContext.run(scope, run) : run();
+  }
+
+  /**
+   * Race a handler promise against the configured timeout.
+   */
+  private withTimeout<T>(
+    promise: Promise<T>,
+    commandType: string,
+    timeout: number,
+  ): Promise<T> {
+    if (!timeout || timeout <= 0) {
+      return promise;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new CommandTimeoutError(commandType, timeout)),
+        timeout,
+      );
+    });
+
+    return Promise.race([promise, timeoutPromise]).finally(() =>
+      clearTimeout(timer),
+    );
+  }
+
+  private shouldRetry(error: Error, attempt: number): boolean {
+    if (error instanceof CommandHandlerNotFoundError) {
+      return false;
+    }
+    if (this.options.shouldRetry) {
+      return this.options.shouldRetry(error, attempt);
+    }
+    return !(error instanceof CommandTimeoutError);
+  }
+
+  // ==================== Context ====================
+
+  /**
+   * Run the callback inside the given context when it is a RequestContext,
+   * so handlers calling RequestContext.current() see the caller's context.
+   */
+  private runInContext<R>(
+    context: IContext<TContext> | undefined,
+    callback: () => R,
+  ): R {
+    if (context instanceof RequestContext) {
+      return RequestContext.runWithContext(context, callback);
+    }
+    return callback();
+  }
+
+  /**
+   * Link the command to the message being handled and return its scope.
+   */
+  private linkCausation(
+    command: ICommand<unknown>,
+  ): CausationScope | undefined {
+    const metadata = this.getMetadata(command);
+    return metadata && CausationContext.link(metadata, metadata.commandId);
+  }
+
+  // ==================== Helpers ====================
+
+  private toTypeName(commandType: string | CommandConstructor): string {
+    return typeof commandType === 'string' ? commandType : commandType.name;
+  }
+
+  private getMetadata(command: ICommand<unknown>): CommandMetadata | undefined {
+    return (command as { metadata?: CommandMetadata }).metadata;
+  }
+
+  private getCommandType(command: ICommand<unknown>): string {
+    const metadata = this.getMetadata(command);
+    if (metadata?.commandType) {
+      return metadata.commandType;
+    }
+
+    const explicitType = (command as { __type?: unknown }).__type;
+    if (typeof explicitType === 'string') {
+      return explicitType;
+    }
+
+    const constructorName = command.constructor?.name;
+    return constructorName && constructorName !== 'Object'
+      ? constructorName
+      : 'UnknownCommand';
+  }
+
+  private createResultBase(
+    command: ICommand<unknown>,
+    options?: CommandExecutionOptions<TContext>,
+  ): CommandResultBase {
+    const context = options?.context ?? RequestContext.current<TContext>();
+    return {
+      commandId: this.getMetadata(command)?.commandId ?? this.generateId(),
+      commandType: this.getCommandType(command),
+      startedAt: new Date(),
+      traceId: context?.get('traceId') as string | undefined,
+    };
+  }
+
+  private completeResult<TResult>(
+    base: CommandResultBase,
+    value: TResult,
+  ): CommandResult<TResult> {
+    const completedAt = new Date();
+    return {
+      ...base,
+      success: true,
+      value,
+      completedAt,
+      duration: completedAt.getTime() - base.startedAt.getTime(),
+    };
+  }
+
+  private serializeError(error: unknown): CommandResult<unknown>['error'] {
+    if (error instanceof Error) {
+      const code = (error as { code?: unknown }).code;
+      return {
+        name: error.name,
+        message: error.message,
+        stack: error.stack,
+        code: typeof code === 'string' ? code : undefined,
+      };
+    }
+    return { name: 'Error', message: String(error) };
+  }
+
+  private generateId(): string {
+    return `cmd-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
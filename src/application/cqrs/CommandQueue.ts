@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Command queue stores for async command dispatch
+ * @description
+ * When a command is executed with `{ async: true }`, the CommandBus stores it
+ * in an `ICommandQueueStore` and returns its `commandId`. A
+ * `CommandQueueWorker` takes commands out of the store by priority, runs
+ * them and writes the `CommandResult` back, where `executeWithResult()` or
+ * `CommandBus.getCommandResult()` can read it.
+ *
+ * @module @struktos/core/application/cqrs/CommandQueue
+ */
+
+import {
+  FileStorage,
+  toJson,
+} from '../../infrastructure/persistence/FileStorage';
+import type { ICommand, CommandResult } from './ICommand';
+
+/**
+ * Lifecycle of a queued command.
+ */
+export type QueuedCommandStatus = 'pending' | 'running' | 'completed';
+
+/**
+ * A command waiting in, or processed through, a command queue.
+ */
+export interface QueuedCommand {
+  /** Command ID, returned to the caller by `execute(..., { async: true })` */
+  commandId: string;
+
+  /** Command type name used to find the handler */
+  commandType: string;
+
+  /** The command. File-backed stores hold a JSON copy. */
+  command: ICommand<unknown>;
+
+  /** Higher values are processed first (default: 0) */
+  priority: number;
+
+  /** When the command was enqueued (epoch milliseconds) */
+  enqueuedAt: number;
+
+  /** Current status */
+  status: QueuedCommandStatus;
+
+  /** Per-command execution options */
+  options?: {
+    timeout?: number;
+    retries?: number;
+    retryDelay?: number;
+  };
+
+  /** Request context data captured at enqueue time (traceId, userId, ...) */
+  context?: Record<string, unknown>;
+
+  /** Result, once the command has completed */
+  result?: CommandResult<unknown>;
+}
+
+/**
+ * ICommandQueueStore - Storage for queued commands.
+ *
+ * Implementations hand out pending commands highest priority first, in
+ * enqueue order for equal priorities, and keep completed commands for a
+ * while so their results can be read back.
+ */
+export interface ICommandQueueStore {
+  /**
+   * Add a pending command.
+   */
+  enqueue(entry: QueuedCommand): Promise<void>;
+
+  /**
+   * Take the next pending command and mark it running.
+   *
+   * @returns The command, or undefined when nothing is pending
+   */
+  dequeue(): Promise<QueuedCommand | undefined>;
+
+  /**
+   * Mark a command completed and store its result.
+   */
+  complete(commandId: string, result: CommandResult<unknown>): Promise<void>;
+
+  /**
+   * Look up a command by ID.
+   */
+  get(commandId: string): Promise<QueuedCommand | undefined>;
+
+  /**
+   * Number of pending commands.
+   */
+  size(): Promise<number>;
+}
+
+/**
+ * Configuration for the command queue stores.
+ */
+export interface CommandQueueStoreOptions {
+  /**
+   * How long completed commands and their results are kept, in
+   * milliseconds. Expired entries are removed on the next change.
+   * @defaultValue 3600000 (1 hour)
+   */
+  resultTtl?: number;
+}
+
+/**
+ * InMemoryCommandQueueStore - Process-local priority queue.
+ *
+ * Commands and results are lost when the process exits.
+ */
+export class InMemoryCommandQueueStore implements ICommandQueueStore {
+  protected readonly entries = new Map<string, QueuedCommand>();
+  private pending: QueuedCommand[] = [];
+
+  constructor(private readonly options: CommandQueueStoreOptions = {}) {}
+
+  async enqueue(entry: QueuedCommand): Promise<void> {
+    this.purgeExpired();
+    if (this.entries.has(entry.commandId)) {
+      throw new Error(`Command '${entry.commandId}' is already queued`);
+    }
+    this.restore({ ...entry, status: 'pending' });
+  }
+
+  async dequeue(): Promise<QueuedCommand | undefined> {
+    const entry = this.pending.shift();
+    if (entry) {
+      entry.status = 'running';
+    }
+    return entry;
+  }
+
+  async complete(
+    commandId: string,
+    result: CommandResult<unknown>,
+  ): Promise<void> {
+    const entry = this.entries.get(commandId);
+    if (!entry) {
+      throw new Error(`Command '${commandId}' is not queued`);
+    }
+    this.purgeExpired();
+    this.pending = this.pending.filter((e) => e !== entry);
+    entry.status = 'completed';
+    entry.result = result;
+  }
+
+  async get(commandId: string): Promise<QueuedCommand | undefined> {
+    const entry = this.entries.get(commandId);
+    return entry && !this.isExpired(entry, Date.now()) ? entry : undefined;
+  }
+
+  async size(): Promise<number> {
+    return this.pending.length;
+  }
+
+  /**
+   * Add an entry in its current status, keeping pending entries ordered.
+   */
+  protected restore(entry: QueuedCommand): void {
+    this.entries.set(entry.commandId, entry);
+    if (entry.status !== 'pending') {
+      return;
+    }
+
+    // After the last entry with the same or a higher priority
+    const index = this.pending.findIndex((e) => e.priority < entry.priority);
+    this.pending.splice(index === -1 ? this.pending.length : index, 0, entry);
+  }
+
+  /**
+   * Remove completed entries whose result has expired.
+   */
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [commandId, entry] of this.entries) {
+      if (this.isExpired(entry, now)) {
+        this.entries.delete(commandId);
+      }
+    }
+  }
+
+  private isExpired(entry: QueuedCommand, now: number): boolean {
+    const ttl = this.options.resultTtl ?? 60 * 60 * 1000;
+    return (
+      entry.status === 'completed' &&
+      entry.result !== undefined &&
+      new Date(entry.result.completedAt).getTime() + ttl <= now
+    );
+  }
+}
+
+/**
+ * FileCommandQueueStore - Priority queue persisted to a JSON file.
+ *
+ * The whole queue is rewritten after every change, through a temporary
+ * file and a rename. Commands that were running when the process stopped
+ * are pending again after a restart, so handlers should be idempotent.
+ * Commands are stored as JSON: handlers receive plain objects, and the
+ * file is meant for one process at a time. Completed commands are kept
+ * only for `resultTtl`, so the file does not grow without bound.
+ *
+ * @example
+ * ```typescript
+ * const queue = new FileCommandQueueStore('./data/commands.json');
+ * const commandBus = new CommandBus({ queue });
+ *
+ * host.addBackgroundService(new CommandQueueWorker(commandBus, queue));
+ * ```
+ */
+export class FileCommandQueueStore extends InMemoryCommandQueueStore {
+  private readonly file: FileStorage;
+
+  constructor(filePath: string, options: CommandQueueStoreOptions = {}) {
+    super(options);
+    this.file = new FileStorage(filePath);
+  }
+
+  async enqueue(entry: QueuedCommand): Promise<void> {
+    await this.load();
+    await super.enqueue(toJson(entry));
+    await this.persist();
+  }
+
+  async dequeue(): Promise<QueuedCommand | undefined> {
+    await this.load();
+    const entry = await super.dequeue();
+    if (entry) {
+      await this.persist();
+    }
+    return entry;
+  }
+
+  async complete(
+    commandId: string,
+    result: CommandResult<unknown>,
+  ): Promise<void> {
+    await this.load();
+    await super.complete(commandId, result);
+    await this.persist();
+  }
+
+  async get(commandId: string): Promise<QueuedCommand | undefined> {
+    await this.load();
+    return super.get(commandId);
+  }
+
+  async size(): Promise<number> {
+    await this.load();
+    return super.size();
+  }
+
+  // ==================== Persistence ====================
+
+  private load(): Promise<void> {
+    return this.file.load((content) => {
+      // Entries are written in enqueue order
+      for (const entry of JSON.parse(content) as QueuedCommand[]) {
+        if (entry.result) {
+          entry.result.startedAt = new Date(entry.result.startedAt);
+          entry.result.completedAt = new Date(entry.result.completedAt);
+        }
+        this.restore({
+          ...entry,
+          status: entry.status === 'running' ? 'pending' : entry.status,
+        });
+      }
+    });
+  }
+
+  private persist(): Promise<void> {
+    return this.file.replace(JSON.stringify([...this.entries.values()]));
+  }
+}
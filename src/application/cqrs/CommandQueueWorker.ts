@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Background worker for queued commands
+ * @description
+ * Drains an `ICommandQueueStore` filled by `execute(..., { async: true })`,
+ * running up to `concurrency` commands at a time through the command bus.
+ *
+ * @module @struktos/core/application/cqrs/CommandQueueWorker
+ */
+
+import { RequestContext } from '../../domain/context/RequestContext';
+import { BackgroundServiceBase } from '../host/host';
+import type { ICommandQueueStore, QueuedCommand } from './CommandQueue';
+import type { ICommand, ICommandBus } from './ICommand';
+
+/**
+ * Options for CommandQueueWorker.
+ */
+export interface CommandQueueWorkerOptions {
+  /** Service name (default: 'CommandQueueWorker') */
+  name?: string;
+
+  /** Maximum commands executed at the same time (default: 1) */
+  concurrency?: number;
+
+  /** Delay in milliseconds before checking an empty queue again (default: 100) */
+  pollInterval?: number;
+}
+
+/**
+ * CommandQueueWorker - Executes queued commands in the background.
+ *
+ * Each command runs inside a RequestContext rebuilt from the data captured
+ * when it was enqueued, and its `CommandResult` is stored back in the queue.
+ * `stop()` waits for the commands that are already running.
+ *
+ * @example
+ * ```typescript
+ * const queue = new InMemoryCommandQueueStore();
+ * const commandBus = new CommandBus({ queue });
+ *
+ * host.addBackgroundService(
+ *   new CommandQueueWorker(commandBus, queue, { concurrency: 4 }),
+ * );
+ *
+ * const commandId = await commandBus.execute(new SendReportCommand(), {
+ *   async: true,
+ *   priority: 10,
+ * });
+ * ```
+ */
+export class CommandQueueWorker extends BackgroundServiceBase {
+  readonly name: string;
+  private readonly concurrency: number;
+  private readonly pollInterval: number;
+  private readonly active = new Set<Promise<void>>();
+
+  constructor(
+    private readonly commandBus: ICommandBus,
+    private readonly queue: ICommandQueueStore,
+    options: CommandQueueWorkerOptions = {},
+  ) {
+    super();
+    this.name = options.name ?? 'CommandQueueWorker';
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.pollInterval = options.pollInterval ?? 100;
+  }
+
+  async stop(): Promise<void> {
+    await super.stop();
+    await Promise.allSettled(this.active);
+  }
+
+  protected async executeAsync(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      const entry =
+        this.active.size < this.concurrency
+          ? await this.queue.dequeue()
+          : undefined;
+
+      if (entry) {
+        const task = this.process(entry).finally(() =>
+          this.active.delete(task),
+        );
+        this.active.add(task);
+        continue;
+      }
+
+      // Wait for a free slot or for new commands
+      const aborted = this.delay(this.pollInterval, signal).then(
+        () => false,
+        () => true,
+      );
+      const slotFreed = Promise.race(this.active).then(() => false);
+      if (await Promise.race([aborted, slotFreed])) {
+        break;
+      }
+    }
+  }
+
+  private async process(entry: QueuedCommand): Promise<void> {
+    try {
+      const result = await RequestContext.run(entry.context ?? {}, () =>
+        this.commandBus.executeWithResult(this.commandOf(entry), {
+          ...entry.options,
+          async: false,
+        }),
+      );
+      await this.queue.complete(entry.commandId, {
+        ...result,
+        commandId: entry.commandId,
+      });
+    } catch (error) {
+      console.error(
+        `[${this.name}] Failed to complete command '${entry.commandId}':`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * The command to dispatch. File-backed stores hold a plain JSON copy,
+   * which keeps its type only in `entry.commandType`.
+   */
+  private commandOf(entry: QueuedCommand): ICommand<unknown> {
+    return Object.getPrototypeOf(entry.command) === Object.prototype
+      ? ({ ...entry.command, __type: entry.commandType } as ICommand<unknown>)
+      : entry.command;
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * @fileoverview Decorator-driven CQRS handler discovery
+ * @description
+ * `@CommandHandler()` and `@QueryHandler()` record which message type a
+ * handler class processes. `HandlerScanner` reads that metadata, registers
+ * the handlers with the DI container and wires them to the buses.
+ *
+ * @module @struktos/core/application/cqrs/HandlerScanner
+ */
+
+import { RequestContext } from '../../domain/context/RequestContext';
+import {
+  getInjectableScope,
+  IDIServiceProvider,
+  IServiceCollection,
+  ServiceScope,
+} from '../di/IDependencyInjection';
+import { COMMAND_BUS_TOKEN, ICommand, ICommandBus } from './ICommand';
+import {
+  COMMAND_HANDLERS_TOKEN,
+  HandlerContext,
+  HandlerMetadata,
+  IPipelineBehavior,
+  PIPELINE_BEHAVIORS_TOKEN,
+  QUERY_HANDLERS_TOKEN,
+} from './IHandler';
+import { IQuery, IQueryBus, QUERY_BUS_TOKEN } from './IQuery';
+import { CommandBus } from './CommandBus';
+import { QueryBus } from './QueryBus';
+
+/**
+ * Class decorated with `@CommandHandler()` or `@QueryHandler()`.
+ */
+type HandlerClass = HandlerMetadata['handlerClass'];
+
+/**
+ * Handler metadata per decorated class.
+ */
+const handlerMetadata = new WeakMap<object, HandlerMetadata>();
+
+/**
+ * Every decorated class, in declaration order. Scanned by default.
+ */
+const decoratedHandlers: HandlerClass[] = [];
+
+function handlerDecorator(
+  type: HandlerMetadata['type'],
+  handlerFor: HandlerMetadata['handlerFor'],
+): ClassDecorator {
+  return (target) => {
+    const handlerClass = target as unknown as HandlerClass;
+    handlerMetadata.set(target, { handlerFor, type, handlerClass });
+    decoratedHandlers.push(handlerClass);
+  };
+}
+
+/**
+ * Marks a class as the handler for a command type.
+ *
+ * @param commandType - Command class or type name
+ *
+ * @example
+ * ```typescript
+ * @CommandHandler(CreateOrderCommand)
+ * @Injectable({ scope: ServiceScope.Transient })
+ * class CreateOrderHandler implements ICommandHandler<CreateOrderCommand, string> {
+ *   constructor(private readonly orders: OrderRepository) {}
+ *
+ *   async execute(command: CreateOrderCommand): Promise<string> {
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+export function CommandHandler(
+  commandType: string | (new (...args: any[]) => ICommand<unknown>),
+): ClassDecorator {
+  return handlerDecorator('command', commandType);
+}
+
+/**
+ * Marks a class as the handler for a query type.
+ *
+ * @param queryType - Query class or type name
+ *
+ * @example
+ * ```typescript
+ * @QueryHandler(GetOrderQuery)
+ * class GetOrderHandler implements IQueryHandler<GetOrderQuery, OrderDto> {
+ *   async execute(query: GetOrderQuery): Promise<OrderDto> {
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+export function QueryHandler(
+  queryType: string | (new (...args: any[]) => IQuery<unknown>),
+): ClassDecorator {
+  return handlerDecorator('query', queryType);
+}
+
+/**
+ * Reads the metadata recorded by `@CommandHandler()` or `@QueryHandler()`.
+ */
+export function getHandlerMetadata(
+  target: object,
+): HandlerMetadata | undefined {
+  return handlerMetadata.get(target);
+}
+
+/**
+ * Error thrown when more than one handler is found for a command or query.
+ */
+export class DuplicateHandlerError extends Error {
+  /** The command or query type name */
+  public readonly handlerFor: string;
+
+  /** Names of the conflicting handler classes */
+  public readonly handlers: string[];
+
+  constructor(
+    type: HandlerMetadata['type'],
+    handlerFor: string,
+    handlers: string[],
+  ) {
+    super(
+      `A handler is already registered for ${type} '${handlerFor}': ` +
+        `${handlers.join(', ')}. Each ${type} must have exactly one handler.`,
+    );
+    this.name = 'DuplicateHandlerError';
+    this.handlerFor = handlerFor;
+    this.handlers = handlers;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, DuplicateHandlerError.prototype);
+  }
+}
+
+/**
+ * HandlerScanner - Registers decorated handlers with the container and buses.
+ *
+ * Handlers are registered with the lifetime declared by `@Injectable()`,
+ * transient by default (unless already registered), under
+ * `COMMAND_HANDLERS_TOKEN` / `QUERY_HANDLERS_TOKEN`, and on the buses from
+ * `COMMAND_BUS_TOKEN` / `QUERY_BUS_TOKEN`. An in-memory
+ * bus, running the behaviors registered under `PIPELINE_BEHAVIORS_TOKEN`,
+ * is registered for each token that has no registration.
+ *
+ * The handler is resolved for every message from the service scope of the
+ * current request (stored as `services` in the RequestContext by
+ * StruktosApp), so it shares the request's scoped services. Outside a
+ * request, a scope is created for the message and disposed after it.
+ *
+ * @example
+ * ```typescript
+ * const scanner = new HandlerScanner([CreateOrderHandler, GetOrderHandler]);
+ *
+ * scanner.configureServices(services);
+ * const provider = services.buildServiceProvider();
+ * scanner.registerHandlers(provider);
+ *
+ * await provider
+ *   .getService<ICommandBus>(COMMAND_BUS_TOKEN)
+ *   .execute(new CreateOrderCommand(...));
+ * ```
+ */
+export class HandlerScanner {
+  private readonly handlers: HandlerMetadata[];
+
+  /**
+   * @param handlers - Decorated handler classes or explicit metadata
+   *                   (default: every decorated class)
+   * @throws {DuplicateHandlerError} If two handlers process the same type
+   * @throws {Error} If a class is not decorated
+   */
+  constructor(
+    handlers: ReadonlyArray<HandlerClass | HandlerMetadata> = decoratedHandlers,
+  ) {
+    this.handlers = handlers.map((handler) => {
+      if (typeof handler !== 'function') {
+        return handler;
+      }
+      const metadata = getHandlerMetadata(handler);
+      if (!metadata) {
+        throw new Error(
+          `'${handler.name}' is not decorated with @CommandHandler() or ` +
+            '@QueryHandler()',
+        );
+      }
+      return metadata;
+    });
+    this.assertUnique();
+  }
+
+  /**
+   * Discovered handlers, in scan order.
+   */
+  getHandlers(): HandlerMetadata[] {
+    return [...this.handlers];
+  }
+
+  /**
+   * Register the handlers and, where missing, the in-memory buses.
+   */
+  configureServices(services: IServiceCollection): void {
+    for (const { type, handlerClass } of this.handlers) {
+      addHandlerService(services, handlerClass);
+      services.addTransientFactory(
+        type === 'command' ? COMMAND_HANDLERS_TOKEN : QUERY_HANDLERS_TOKEN,
+        (provider) => provider.getService(handlerClass),
+      );
+    }
+
+    if (this.handlers.some((h) => h.type === 'command')) {
+      services.addSingletonFactory(
+        COMMAND_BUS_TOKEN,
+        (provider) => new CommandBus({ behaviors: behaviorsOf(provider) }),
+        { tryAdd: true },
+      );
+    }
+    if (this.handlers.some((h) => h.type === 'query')) {
+      services.addSingletonFactory(
+        QUERY_BUS_TOKEN,
+        (provider) => new QueryBus({ behaviors: behaviorsOf(provider) }),
+        { tryAdd: true },
+      );
+    }
+  }
+
+  /**
+   * Register every handler on its bus.
+   *
+   * @throws {Error} If the bus already has a handler for one of the types
+   */
+  registerHandlers(provider: IDIServiceProvider): void {
+    for (const { type, handlerFor, handlerClass } of this.handlers) {
+      const handler = {
+        execute: (message: any, context?: HandlerContext) =>
+          withHandler(provider, handlerClass, (instance) =>
+            instance.execute(message, context),
+          ),
+        executeBatch: handlerClass.prototype.executeBatch
+          ? (messages: any[], context?: HandlerContext) =>
+              withHandler(provider, handlerClass, (instance) =>
+                instance.executeBatch(messages, context),
+              )
+          : undefined,
+      };
+      if (type === 'command') {
+        provider
+          .getService<ICommandBus>(COMMAND_BUS_TOKEN)
+          .register(typeName(handlerFor), handler);
+      } else {
+        provider
+          .getService<IQueryBus>(QUERY_BUS_TOKEN)
+          .register(typeName(handlerFor), handler);
+      }
+    }
+  }
+
+  // ==================== Helpers ====================
+
+  private assertUnique(): void {
+    const byType = new Map<string, HandlerMetadata[]>();
+    for (const metadata of this.handlers) {
+      const key = `${metadata.type}:${typeName(metadata.handlerFor)}`;
+      byType.set(key, [...(byType.get(key) ?? []), metadata]);
+    }
+
+    for (const found of byType.values()) {
+      if (found.length > 1) {
+        const { type, handlerFor } = found[0]!;
+        throw new DuplicateHandlerError(
+          type,
+          typeName(handlerFor),
+          found.map((m) => m.handlerClass.name),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Register a handler class with the lifetime declared by `@Injectable()`,
+ * or as a transient service, unless it is already registered.
+ *
+ * @internal
+ */
+export function addHandlerService(
+  services: IServiceCollection,
+  handlerClass: HandlerClass,
+): void {
+  const options = { tryAdd: true };
+  switch (getInjectableScope(handlerClass)) {
+    case ServiceScope.Singleton:
+      services.addSingleton(handlerClass, handlerClass, options);
+      break;
+    case ServiceScope.Scoped:
+      services.addScoped(handlerClass, handlerClass, options);
+      break;
+    default:
+      services.addTransient(handlerClass, handlerClass, options);
+  }
+}
+
+function behaviorsOf(provider: IDIServiceProvider): IPipelineBehavior[] {
+  return provider.getServices<IPipelineBehavior>(PIPELINE_BEHAVIORS_TOKEN);
+}
+
+/**
+ * Resolve a handler from the request's service scope, or from a scope
+ * created for this call.
+ */
+async function withHandler<R>(
+  provider: IDIServiceProvider,
+  handlerClass: HandlerClass,
+  callback: (handler: any) => Promise<R>,
+): Promise<R> {
+  const services = RequestContext.current()?.get('services') as
+    | IDIServiceProvider
+    | undefined;
+  if (services) {
+    return callback(services.getService(handlerClass));
+  }
+
+  const scope = provider.createScope();
+  try {
+    return await callback(scope.getServiceProvider().getService(handlerClass));
+  } finally {
+    scope.dispose();
+  }
+}
+
+function typeName(handlerFor: HandlerMetadata['handlerFor']): string {
+  return typeof handlerFor === 'string' ? handlerFor : handlerFor.name;
+}
@@ -288,19 +288,30 @@ export interface CommandExecutionOptions<
   context?: IContext<TContext>;
 
   /**
-   * Priority level for command execution.
-   * Higher values indicate higher priority.
+   * Priority of the command in the command queue when `async` is set.
+   * Higher values are executed first.
    * @defaultValue 0
    */
   priority?: number;
 
   /**
-   * Whether to execute the command asynchronously (fire-and-forget).
-   * If true, execute() returns immediately without waiting for result.
+   * Whether to execute the command asynchronously through the command queue.
+   * If true, execute() resolves to the command ID as soon as the command is
+   * queued, and executeWithResult() waits for the queued command's result.
    * @defaultValue false
    */
   async?: boolean;
 
+  /**
+   * Idempotency key for the execution. When the bus has an idempotency
+   * store, executing a command again with the same key returns the stored
+   * result instead of running the handler.
+   * Defaults to the request context's `idempotencyKey` combined with the
+   * command's payload, for commands the request executes directly (not
+   * from within a handler), then the command ID.
+   */
+  idempotencyKey?: string;
+
   /**
    * Transaction isolation level for commands that modify data.
    * If provided, the command will be executed within a transaction.
@@ -421,7 +432,8 @@ export interface ICommandBus<
    * @template TResult - The expected result type
    * @param command - The command to execute
    * @param options - Execution options
-   * @returns Promise resolving to the command result
+   * @returns Promise resolving to the command result, or to the command ID
+   *          when `options.async` is set
    * @throws {CommandHandlerNotFoundError} If no handler is registered
    * @throws {CommandValidationError} If command validation fails
    * @throws {CommandExecutionError} If handler throws an error
@@ -433,8 +445,15 @@ export interface ICommandBus<
    *   name: 'John',
    *   email: 'john@example.com',
    * });
+   *
+   * // Queue the command and get its ID back right away
+   * const commandId = await commandBus.execute(command, { async: true });
    * ```
    */
+  execute<TResult>(
+    command: ICommand<TResult>,
+    options: CommandExecutionOptions<TContext> & { async: true },
+  ): Promise<string>;
   execute<TResult>(
     command: ICommand<TResult>,
     options?: CommandExecutionOptions<TContext>,
@@ -444,7 +463,8 @@ export interface ICommandBus<
    * Execute a command and return detailed result information.
    *
    * Similar to execute(), but returns a wrapper with execution
-   * metadata instead of throwing on failure.
+   * metadata instead of throwing on failure. With `options.async`, the
+   * command is queued and the queue is polled until its result is available.
    *
    * @template TResult - The expected result type
    * @param command - The command to execute
@@ -482,7 +502,7 @@ export interface ICommandBus<
    * ```
    */
   register<TCommand extends ICommand<TResult>, TResult>(
-    commandType: string | (new (...args: unknown[]) => TCommand),
+    commandType: string | (new (...args: any[]) => TCommand),
     handler: ICommandHandler<TCommand, TResult>,
   ): void;
 
@@ -500,7 +520,7 @@ export interface ICommandBus<
    * ```
    */
   hasHandler(
-    commandType: string | (new (...args: unknown[]) => ICommand<unknown>),
+    commandType: string | (new (...args: any[]) => ICommand<unknown>),
   ): boolean;
 }
 
@@ -13,6 +13,7 @@ import type {
   IContext,
   StruktosContextData,
 } from '../../domain/context/IContext';
+import { RequestContext } from '../../domain/context/RequestContext';
 import type { ICommand, CommandMetadata } from './ICommand';
 import type { IQuery, QueryMetadata } from './IQuery';
 
@@ -107,6 +108,25 @@ export interface HandlerContext<
    */
   onCancel(callback: () => void): void;
 
+  /**
+   * Cancel the operation.
+   *
+   * Contexts created by `HandlerContext.fromRequestContext()` also cancel
+   * the request context they were created from.
+   */
+  cancel?(): void;
+
+  /**
+   * Aborted when the operation is cancelled, for APIs that accept an
+   * `AbortSignal`.
+   *
+   * @example
+   * ```typescript
+   * await fetch(url, { signal: context.signal });
+   * ```
+   */
+  signal?: AbortSignal;
+
   /**
    * Start time of the handler execution.
    */
@@ -118,6 +138,130 @@ export interface HandlerContext<
   data?: Record<string, unknown>;
 }
 
+/**
+ * Options for `HandlerContext.fromRequestContext()`.
+ */
+export interface HandlerContextOptions {
+  /** Additional data exposed as `context.data` */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Detaches a handler context from its request context.
+ */
+const releaseCallbacks = new WeakMap<object, () => void>();
+
+/**
+ * Factory functions for `HandlerContext`.
+ */
+export const HandlerContext = {
+  /**
+   * Build a handler context from a request context.
+   *
+   * Copies `traceId`, `requestId`, `userId`, `roles` and `claims`, and links
+   * cancellation both ways: cancelling the request cancels the handler
+   * context (firing its `onCancel` callbacks and aborting its `signal`), and
+   * `context.cancel()` cancels the request. The link holds until
+   * `HandlerContext.release()` is called.
+   *
+   * @param requestContext - Source context (default: `RequestContext.current()`)
+   * @param options - Additional handler context data
+   *
+   * @example
+   * ```typescript
+   * const context = HandlerContext.fromRequestContext();
+   * try {
+   *   return await handler.execute(command, context);
+   * } finally {
+   *   HandlerContext.release(context);
+   * }
+   * ```
+   */
+  fromRequestContext<
+    TContext extends StruktosContextData = StruktosContextData,
+  >(
+    requestContext:
+      | IContext<TContext>
+      | undefined = RequestContext.current<TContext>(),
+    options: HandlerContextOptions = {},
+  ): HandlerContext<TContext> {
+    const controller = new AbortController();
+    const callbacks = new Set<() => void>();
+    let linked = true;
+
+    const invoke = (callback: () => void): void => {
+      try {
+        callback();
+      } catch (error) {
+        console.error('Error in cancel callback:', error);
+      }
+    };
+
+    const cancel = (): void => {
+      if (controller.signal.aborted) {
+        return;
+      }
+      controller.abort();
+      for (const callback of callbacks) {
+        invoke(callback);
+      }
+      callbacks.clear();
+
+      if (linked && !requestContext?.isCancelled()) {
+        requestContext?.cancel();
+      }
+    };
+
+    const onRequestCancel = (): void => {
+      if (linked) {
+        cancel();
+      }
+    };
+    requestContext?.onCancel(onRequestCancel);
+
+    const context: HandlerContext<TContext> = {
+      traceId: requestContext?.get('traceId') as string | undefined,
+      requestId: requestContext?.get('requestId') as string | undefined,
+      userId: requestContext?.get('userId') as string | undefined,
+      roles: requestContext?.get('roles') as string[] | undefined,
+      claims: requestContext?.get('claims') as
+        | Array<{ type: string; value: string }>
+        | undefined,
+      requestContext,
+      isCancelled: () => controller.signal.aborted,
+      onCancel: (callback) => {
+        if (controller.signal.aborted) {
+          invoke(callback);
+        } else if (linked) {
+          callbacks.add(callback);
+        }
+      },
+      cancel,
+      signal: controller.signal,
+      startTime: Date.now(),
+      data: options.data,
+    };
+
+    releaseCallbacks.set(context, () => {
+      linked = false;
+      callbacks.clear();
+      requestContext?.offCancel?.(onRequestCancel);
+    });
+    return context;
+  },
+
+  /**
+   * Detach a context created by `fromRequestContext()` from its request once
+   * the handler has finished. Later request cancellation no longer fires the
+   * handler's `onCancel` callbacks, and `cancel()` no longer cancels the
+   * request.
+   */
+  release(context: HandlerContext<any>): void {
+    releaseCallbacks.get(context)?.();
+    releaseCallbacks.delete(context);
+  },
+};
+
 /**
  * ICommandHandler - Handler interface for CQRS commands.
  *
@@ -394,6 +538,32 @@ export interface IQueryHandler<
    * ```
    */
   execute(query: TQuery, context?: HandlerContext): Promise<TResult>;
+
+  /**
+   * Execute several queries in one call.
+   *
+   * When present, the query bus collects the queries of this type that
+   * reach the handler during one turn of the event loop within a request,
+   * and passes them here instead of calling `execute()` for each.
+   *
+   * @param queries - The queries to execute
+   * @param context - Execution context of the request
+   * @returns One result per query, in query order; an `Error` in place of
+   * a result fails that query only
+   *
+   * @example
+   * ```typescript
+   * async executeBatch(queries: GetUserByIdQuery[]): Promise<(User | null)[]> {
+   *   const ids = queries.map((query) => query.userId);
+   *   const users = await this.userRepository.findByIds(ids);
+   *   return ids.map((id) => users.find((user) => user.id === id) ?? null);
+   * }
+   * ```
+   */
+  executeBatch?(
+    queries: TQuery[],
+    context?: HandlerContext,
+  ): Promise<ReadonlyArray<TResult | Error>>;
 }
 
 /**
@@ -675,20 +845,18 @@ export interface IHandlerLogger {
  * Used by DI containers to automatically register handlers
  * based on decorated metadata.
  *
+ * Produced by the `@CommandHandler()` and `@QueryHandler()` decorators and
+ * read by `HandlerScanner`.
+ *
  * @example
  * ```typescript
- * // Decorator implementation (in DI adapter)
- * function CommandHandler(commandType: new (...args: any[]) => ICommand<any>) {
- *   return function (target: any) {
- *     Reflect.defineMetadata('cqrs:commandType', commandType, target);
- *   };
- * }
- *
- * // Usage
  * @CommandHandler(CreateUserCommand)
  * class CreateUserHandler implements ICommandHandler<CreateUserCommand, User> {
  *   // ...
  * }
+ *
+ * getHandlerMetadata(CreateUserHandler);
+ * // { handlerFor: CreateUserCommand, type: 'command', handlerClass: CreateUserHandler }
  * ```
  */
 export interface HandlerMetadata {
@@ -697,7 +865,7 @@ export interface HandlerMetadata {
    */
   handlerFor:
     | string
-    | (new (...args: unknown[]) => ICommand<unknown> | IQuery<unknown>);
+    | (new (...args: any[]) => ICommand<unknown> | IQuery<unknown>);
 
   /**
    * Handler type: 'command' or 'query'.
@@ -708,7 +876,7 @@ export interface HandlerMetadata {
    * Handler class reference.
    */
   handlerClass: new (
-    ...args: unknown[]
+    ...args: any[]
   ) =>
     | ICommandHandler<ICommand<unknown>, unknown>
     | IQueryHandler<IQuery<unknown>, unknown>;
@@ -766,6 +934,12 @@ export interface HandlerMetadata {
  * ```
  */
 export interface IPipelineBehavior<TRequest = unknown, TResponse = unknown> {
+  /**
+   * Position in the pipeline; lower values run further outside.
+   * Behaviors without an order count as 0 and keep their insertion order.
+   */
+  readonly order?: number;
+
   /**
    * Handle the request with access to the next behavior/handler.
    *
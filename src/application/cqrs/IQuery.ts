@@ -57,6 +57,12 @@ export interface QueryMetadata {
    */
   correlationId?: string;
 
+  /**
+   * ID of the command, query or event being handled when this query was
+   * dispatched.
+   */
+  causationId?: string;
+
   /**
    * ID of the user who initiated this query.
    */
@@ -170,6 +176,13 @@ export interface IQuery<TResult = unknown> {
   readonly __resultType?: TResult;
 }
 
+/**
+ * Metadata overrides accepted by the QueryBase constructor.
+ */
+export type QueryBaseOptions = Partial<
+  Pick<QueryMetadata, 'cacheable' | 'cacheTTL' | 'cacheKey' | 'correlationId'>
+>;
+
 /**
  * Abstract base class for queries with metadata support.
  *
@@ -214,14 +227,7 @@ export abstract class QueryBase<TResult = unknown> implements IQuery<TResult> {
    *
    * @param options - Optional metadata overrides
    */
-  protected constructor(
-    options?: Partial<
-      Pick<
-        QueryMetadata,
-        'cacheable' | 'cacheTTL' | 'cacheKey' | 'correlationId'
-      >
-    >,
-  ) {
+  protected constructor(options?: QueryBaseOptions) {
     this.metadata = {
       queryId: this.generateId(),
       queryType: this.constructor.name,
@@ -236,8 +242,10 @@ export abstract class QueryBase<TResult = unknown> implements IQuery<TResult> {
   /**
    * Generate a cache key for this query.
    *
-   * Override this method to provide custom cache key generation
-   * based on query parameters.
+   * Defaults to `metadata.cacheKey`, or else the query type followed by the
+   * query's own fields as JSON, so queries with different parameters never
+   * share a cached result. Override this method to provide shorter or
+   * more stable keys.
    *
    * @returns Cache key string
    *
@@ -249,7 +257,16 @@ export abstract class QueryBase<TResult = unknown> implements IQuery<TResult> {
    * ```
    */
   getCacheKey(): string {
-    return this.metadata.cacheKey ?? this.metadata.queryType;
+    if (this.metadata.cacheKey !== undefined) {
+      return this.metadata.cacheKey;
+    }
+
+    const params = Object.entries(this)
+      .filter(([key, value]) => key !== 'metadata' && value !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    return params.length > 0
+      ? `${this.metadata.queryType}:${JSON.stringify(Object.fromEntries(params))}`
+      : this.metadata.queryType;
   }
 
   /**
@@ -326,6 +343,11 @@ export interface QueryExecutionOptions<
   /**
    * Whether to execute the query in a read replica.
    * Only applicable for databases with read replicas.
+   *
+   * The query bus exposes this preference through `ConnectionRouting`,
+   * which an `IConnectionRouter` consults. Queries dispatched while a
+   * command is handled, or shortly after the request wrote, still use
+   * the primary.
    * @defaultValue true
    */
   useReadReplica?: boolean;
@@ -514,6 +536,103 @@ export interface PaginatedResult<T> {
   hasPreviousPage: boolean;
 }
 
+/**
+ * Standard cursor (keyset) pagination parameters for list queries.
+ *
+ * Cursors are opaque strings taken from a previous
+ * `CursorPaginatedResult`. At most one of `after` and `before` is set.
+ *
+ * @example
+ * ```typescript
+ * const firstPage: CursorPaginationParams = { limit: 20 };
+ * const nextPage: CursorPaginationParams = {
+ *   limit: 20,
+ *   after: firstPageResult.nextCursor,
+ * };
+ * ```
+ */
+export interface CursorPaginationParams {
+  /**
+   * Maximum number of items per page.
+   * @defaultValue 20
+   */
+  limit: number;
+
+  /**
+   * Return the items after this cursor.
+   */
+  after?: string;
+
+  /**
+   * Return the items before this cursor.
+   */
+  before?: string;
+}
+
+/**
+ * Standard cursor-paginated result structure for list queries.
+ *
+ * @template T - The type of items in the result
+ *
+ * @example
+ * ```typescript
+ * const result: CursorPaginatedResult<Order> = {
+ *   items: orders,
+ *   limit: 20,
+ *   nextCursor: 'eyJrIjpbImNyZWF0ZWRBdCIsImlkIl0sInYiOlsuLi5dfQ',
+ *   prevCursor: undefined,
+ *   hasNextPage: true,
+ *   hasPreviousPage: false,
+ * };
+ * ```
+ */
+export interface CursorPaginatedResult<T> {
+  /**
+   * Array of items for the current page.
+   */
+  items: T[];
+
+  /**
+   * Maximum number of items per page.
+   */
+  limit: number;
+
+  /**
+   * Cursor of the last item, to request the next page.
+   */
+  nextCursor?: string;
+
+  /**
+   * Cursor of the first item, to request the previous page.
+   */
+  prevCursor?: string;
+
+  /**
+   * Whether there is a next page.
+   */
+  hasNextPage: boolean;
+
+  /**
+   * Whether there is a previous page.
+   */
+  hasPreviousPage: boolean;
+}
+
+/**
+ * Result types of a list of queries, in order.
+ *
+ * @example
+ * ```typescript
+ * type Results = QueryResults<[GetUserByIdQuery, CountOrdersQuery]>;
+ * // [User | null, number]
+ * ```
+ */
+export type QueryResults<TQueries extends readonly IQuery<unknown>[]> = {
+  -readonly [K in keyof TQueries]: TQueries[K] extends IQuery<infer TResult>
+    ? TResult
+    : never;
+};
+
 /**
  * IQueryBus - Central dispatcher for query execution.
  *
@@ -613,6 +732,29 @@ export interface IQueryBus<
     options?: QueryExecutionOptions<TContext>,
   ): Promise<QueryResult<TResult>>;
 
+  /**
+   * Execute several queries concurrently.
+   *
+   * Identical queries (same cache key) run their handler once.
+   *
+   * @param queries - The queries to execute
+   * @param options - Execution options applied to every query
+   * @returns Promise resolving to the results, in query order
+   * @throws The first error thrown by any of the queries
+   *
+   * @example
+   * ```typescript
+   * const [user, orders] = await queryBus.executeMany([
+   *   new GetUserByIdQuery('user-123'),
+   *   new ListOrdersQuery({ customerId: 'user-123' }),
+   * ]);
+   * ```
+   */
+  executeMany<const TQueries extends readonly IQuery<unknown>[]>(
+    queries: TQueries,
+    options?: QueryExecutionOptions<TContext>,
+  ): Promise<QueryResults<TQueries>>;
+
   /**
    * Register a query handler for a specific query type.
    *
@@ -628,7 +770,7 @@ export interface IQueryBus<
    * ```
    */
   register<TQuery extends IQuery<TResult>, TResult>(
-    queryType: string | (new (...args: unknown[]) => TQuery),
+    queryType: string | (new (...args: any[]) => TQuery),
     handler: IQueryHandler<TQuery, TResult>,
   ): void;
 
@@ -646,7 +788,7 @@ export interface IQueryBus<
    * ```
    */
   hasHandler(
-    queryType: string | (new (...args: unknown[]) => IQuery<unknown>),
+    queryType: string | (new (...args: any[]) => IQuery<unknown>),
   ): boolean;
 
   /**
@@ -667,7 +809,7 @@ export interface IQueryBus<
    * ```
    */
   invalidateCache(
-    queryTypeOrKey: string | (new (...args: unknown[]) => IQuery<unknown>),
+    queryTypeOrKey: string | (new (...args: any[]) => IQuery<unknown>),
   ): Promise<void>;
 }
 
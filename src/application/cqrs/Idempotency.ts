@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Idempotency store for command execution
+ * @description
+ * When the CommandBus has an `IIdempotencyStore`, a command executed again
+ * with the same idempotency key returns the stored `CommandResult` instead
+ * of running its handler twice. Keys come from
+ * `CommandExecutionOptions.idempotencyKey`, the request context's
+ * `idempotencyKey` (set by `IdempotencyKeyMiddleware` from the
+ * `Idempotency-Key` header, and used for top-level commands only), or the
+ * command's `metadata.commandId`.
+ *
+ * @module @struktos/core/application/cqrs/Idempotency
+ */
+
+import { CacheManager } from '../../infrastructure/cache/CacheManager';
+import type { CommandResult } from './ICommand';
+
+/**
+ * IIdempotencyStore - Records which idempotency keys have been executed.
+ *
+ * A key is first reserved by the execution that owns it. The owner either
+ * completes it with the successful result or releases it after a failure,
+ * so that a retry can run the command again.
+ */
+export interface IIdempotencyStore {
+  /**
+   * The result stored for a completed key.
+   */
+  get(key: string): Promise<CommandResult<unknown> | undefined>;
+
+  /**
+   * Reserve a key for execution.
+   *
+   * @param ttl - Reservation lifetime in milliseconds
+   * @returns False when the key is already reserved or completed
+   */
+  reserve(key: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Store the result for a reserved key.
+   *
+   * @param ttl - How long the result is kept, in milliseconds
+   */
+  complete(
+    key: string,
+    result: CommandResult<unknown>,
+    ttl: number,
+  ): Promise<void>;
+
+  /**
+   * Release a reservation without storing a result.
+   */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * State of a key in InMemoryIdempotencyStore.
+ */
+export type IdempotencyRecord =
+  | { status: 'reserved' }
+  | { status: 'completed'; result: CommandResult<unknown> };
+
+/**
+ * InMemoryIdempotencyStore - Process-local idempotency store.
+ *
+ * Records expire through CacheManager; when the cache is full, the least
+ * recently used keys are evicted first.
+ *
+ * @example
+ * ```typescript
+ * const commandBus = new CommandBus({
+ *   idempotencyStore: new InMemoryIdempotencyStore(),
+ *   idempotencyTtl: 60 * 60 * 1000,
+ * });
+ *
+ * await commandBus.execute(new ChargeCardCommand(...), {
+ *   idempotencyKey: 'charge-42',
+ * });
+ * ```
+ */
+export class InMemoryIdempotencyStore implements IIdempotencyStore {
+  constructor(
+    private readonly cache = new CacheManager<string, IdempotencyRecord>(10000),
+  ) {}
+
+  async get(key: string): Promise<CommandResult<unknown> | undefined> {
+    const record = this.cache.get(key);
+    return record?.status === 'completed' ? record.result : undefined;
+  }
+
+  async reserve(key: string, ttl: number): Promise<boolean> {
+    if (this.cache.has(key)) {
+      return false;
+    }
+    this.cache.set(key, { status: 'reserved' }, ttl);
+    return true;
+  }
+
+  async complete(
+    key: string,
+    result: CommandResult<unknown>,
+    ttl: number,
+  ): Promise<void> {
+    this.cache.set(key, { status: 'completed', result }, ttl);
+  }
+
+  async release(key: string): Promise<void> {
+    if (this.cache.get(key)?.status === 'reserved') {
+      this.cache.delete(key);
+    }
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Message log and causal trees
+ * @description
+ * Records commands, queries and events with their correlation and
+ * causation IDs, so the messages of a request can be rebuilt into the tree
+ * of what caused what. `MessageLogBehavior` records every command and
+ * query dispatched through a bus; events can be recorded with
+ * `log.record(toMessageRecord(event))` when they are published.
+ *
+ * @module @struktos/core/application/cqrs/MessageLog
+ *
+ * @example
+ * ```typescript
+ * const messageLog = new InMemoryMessageLog();
+ * const commandBus = new CommandBus({
+ *   behaviors: [new MessageLogBehavior(messageLog)],
+ * });
+ *
+ * // Later, for a request's correlation ID (its traceId by default)
+ * const tree = await messageLog.getCausalTree(traceId);
+ * // [{ message: PlaceOrderCommand, children: [{ message: OrderPlaced, ... }] }]
+ * ```
+ */
+
+import { CacheManager } from '../../infrastructure/cache/CacheManager';
+import {
+  BehaviorOrder,
+  getMessageType,
+  PipelineBehaviorBase,
+  PipelineBehaviorOptions,
+} from './PipelineBehaviors';
+
+/**
+ * Kind of a recorded message.
+ */
+export type MessageKind = 'command' | 'query' | 'event';
+
+/**
+ * A recorded message.
+ */
+export interface MessageRecord {
+  /** commandId, queryId or eventId */
+  messageId: string;
+
+  /** Command or query type, or event name */
+  messageType: string;
+
+  kind: MessageKind;
+
+  /** Shared by every message of the request */
+  correlationId?: string;
+
+  /** ID of the message that caused this one */
+  causationId?: string;
+
+  /** When the message was created */
+  timestamp: Date;
+}
+
+/**
+ * A message and the messages it caused.
+ */
+export interface CausalTreeNode {
+  message: MessageRecord;
+  children: CausalTreeNode[];
+}
+
+/**
+ * IMessageLog - Storage for recorded messages.
+ */
+export interface IMessageLog {
+  /**
+   * Record a message. Recording the same message twice has no effect.
+   */
+  record(message: MessageRecord): Promise<void>;
+
+  /**
+   * Messages with the given correlation ID, in recording order.
+   */
+  findByCorrelationId(correlationId: string): Promise<MessageRecord[]>;
+}
+
+/**
+ * Build a message record from a command, query or domain event.
+ *
+ * @returns The record, or undefined for messages without metadata
+ */
+export function toMessageRecord(message: unknown): MessageRecord | undefined {
+  const { metadata, eventName } = (message ?? {}) as {
+    metadata?: Record<string, unknown>;
+    eventName?: string;
+  };
+  if (!metadata) {
+    return undefined;
+  }
+
+  const links = {
+    correlationId: metadata.correlationId as string | undefined,
+    causationId: metadata.causationId as string | undefined,
+  };
+
+  if (typeof metadata.commandId === 'string') {
+    return {
+      messageId: metadata.commandId,
+      messageType: getMessageType(message),
+      kind: 'command',
+      ...links,
+      timestamp: new Date(metadata.timestamp as Date),
+    };
+  }
+  if (typeof metadata.queryId === 'string') {
+    return {
+      messageId: metadata.queryId,
+      messageType: getMessageType(message),
+      kind: 'query',
+      ...links,
+      timestamp: new Date(metadata.timestamp as Date),
+    };
+  }
+  if (typeof metadata.eventId === 'string' && eventName) {
+    return {
+      messageId: metadata.eventId,
+      messageType: eventName,
+      kind: 'event',
+      ...links,
+      timestamp: new Date(metadata.occurredAt as string),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Arrange messages into trees by causation ID.
+ *
+ * Messages whose cause is not among the given messages are roots.
+ * Children keep the order of the input.
+ */
+export function buildCausalTree(
+  messages: readonly MessageRecord[],
+): CausalTreeNode[] {
+  const nodes = new Map<string, CausalTreeNode>();
+  for (const message of messages) {
+    if (!nodes.has(message.messageId)) {
+      nodes.set(message.messageId, { message, children: [] });
+    }
+  }
+
+  const roots: CausalTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const { causationId } = node.message;
+    const parent = causationId !== undefined && nodes.get(causationId);
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+/**
+ * InMemoryMessageLog - Process-local message log.
+ *
+ * Keeps the messages of the most recently active correlation IDs.
+ */
+export class InMemoryMessageLog implements IMessageLog {
+  private readonly messages: CacheManager<string, MessageRecord[]>;
+
+  /**
+   * @param capacity - Number of correlation IDs kept (default: 1000)
+   */
+  constructor(capacity: number = 1000) {
+    this.messages = new CacheManager(capacity);
+  }
+
+  async record(message: MessageRecord): Promise<void> {
+    const correlationId = message.correlationId ?? message.messageId;
+    const messages = this.messages.get(correlationId) ?? [];
+    if (messages.some((m) => m.messageId === message.messageId)) {
+      return;
+    }
+    this.messages.set(correlationId, [...messages, message]);
+  }
+
+  async findByCorrelationId(correlationId: string): Promise<MessageRecord[]> {
+    return [...(this.messages.get(correlationId) ?? [])];
+  }
+
+  /**
+   * Rebuild the causal tree of a request.
+   */
+  async getCausalTree(correlationId: string): Promise<CausalTreeNode[]> {
+    return buildCausalTree(await this.findByCorrelationId(correlationId));
+  }
+}
+
+/**
+ * MessageLogBehavior - Records every command or query a bus dispatches.
+ *
+ * Runs first by default, so messages rejected by later behaviors are
+ * recorded too.
+ */
+export class MessageLogBehavior extends PipelineBehaviorBase {
+  constructor(
+    private readonly log: IMessageLog,
+    options: PipelineBehaviorOptions = {},
+  ) {
+    super(options, BehaviorOrder.MessageLog);
+  }
+
+  protected async process(
+    request: unknown,
+    next: () => Promise<unknown>,
+  ): Promise<unknown> {
+    const record = toMessageRecord(request);
+    if (record) {
+      await this.log.record(record);
+    }
+    return next();
+  }
+}
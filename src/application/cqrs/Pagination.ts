@@ -0,0 +1,477 @@
+/**
+ * @fileoverview Pagination helpers for list queries
+ * @description
+ * Builds `PaginatedResult` (offset pages) and `CursorPaginatedResult`
+ * (keyset pages) consistently across list queries.
+ *
+ * Keyset pages are ordered by a list of sort keys whose last key must be
+ * unique (usually `id`), so that every item has a distinct position and
+ * pages never skip or repeat items while data changes. A cursor encodes
+ * the sort key values of an item as an opaque base64url string.
+ *
+ * @module @struktos/core/application/cqrs/Pagination
+ *
+ * @example
+ * ```typescript
+ * class ListOrdersQuery extends CursorPaginatedQueryBase<Order> {
+ *   readonly sortKeys = [
+ *     { field: 'createdAt', order: 'desc' },
+ *     { field: 'id', order: 'desc' },
+ *   ] as const;
+ *
+ *   constructor(pagination: Partial<CursorPaginationParams>) {
+ *     super(pagination);
+ *   }
+ * }
+ *
+ * // In the handler
+ * const position = query.position; // Decoded cursor, for the WHERE clause
+ * const rows = await orders.findPage(position, query.pagination.limit + 1);
+ * return query.toResult(rows);
+ * ```
+ */
+
+import { BadRequestException } from '../../domain/exceptions';
+import type {
+  CursorPaginatedResult,
+  CursorPaginationParams,
+  PaginatedResult,
+  PaginationParams,
+  QueryBaseOptions,
+} from './IQuery';
+import { QueryBase } from './IQuery';
+
+/**
+ * Page size used when a query does not set one.
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Largest page size accepted by default.
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Page size limits applied when normalizing pagination parameters.
+ */
+export interface PaginationLimits {
+  /** Page size when none is given (default: 20) */
+  defaultPageSize?: number;
+
+  /** Page sizes above this are reduced to it (default: 100) */
+  maxPageSize?: number;
+}
+
+/**
+ * Sort direction.
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * A field that keyset pages are ordered by.
+ */
+export interface KeysetSortKey<T> {
+  field: keyof T & string;
+
+  /** @defaultValue 'asc' */
+  order?: SortOrder;
+}
+
+/**
+ * Decoded cursor: where a keyset page starts.
+ */
+export interface KeysetPosition {
+  /** Whether the page lies after or before the cursor item */
+  direction: 'after' | 'before';
+
+  /** Sort key values of the cursor item, in sort key order */
+  values: unknown[];
+}
+
+/**
+ * InvalidCursorException - Thrown for cursors that cannot be decoded or
+ * were issued for a different sort order.
+ */
+export class InvalidCursorException extends BadRequestException {
+  constructor(message: string = 'Invalid pagination cursor') {
+    super(message);
+    this.name = 'InvalidCursorException';
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, InvalidCursorException.prototype);
+  }
+}
+
+// ==================== Offset Pagination ====================
+
+function clampPageSize(size: number | undefined, limits: PaginationLimits) {
+  const max = limits.maxPageSize ?? MAX_PAGE_SIZE;
+  const value = Math.floor(size ?? limits.defaultPageSize ?? DEFAULT_PAGE_SIZE);
+  return Number.isFinite(value) ? Math.min(Math.max(value, 1), max) : max;
+}
+
+/**
+ * Fill in defaults and bring page and page size into range.
+ */
+export function normalizePagination(
+  params: Partial<PaginationParams> = {},
+  limits: PaginationLimits = {},
+): PaginationParams {
+  const page = Math.floor(params.page ?? 1);
+  return {
+    ...params,
+    page: Number.isFinite(page) && page > 1 ? page : 1,
+    pageSize: clampPageSize(params.pageSize, limits),
+  };
+}
+
+/**
+ * Number of items before the requested page.
+ */
+export function getPageOffset(params: PaginationParams): number {
+  return (params.page - 1) * params.pageSize;
+}
+
+/**
+ * Build a paginated result from one page of items and the total count.
+ */
+export function createPaginatedResult<T>(
+  items: T[],
+  total: number,
+  params: PaginationParams,
+): PaginatedResult<T> {
+  const totalPages = Math.ceil(total / params.pageSize);
+  return {
+    items,
+    total,
+    page: params.page,
+    pageSize: params.pageSize,
+    totalPages,
+    hasNextPage: params.page < totalPages,
+    hasPreviousPage: params.page > 1,
+  };
+}
+
+/**
+ * Paginate items held in memory.
+ */
+export function paginateItems<T>(
+  items: readonly T[],
+  params: PaginationParams,
+): PaginatedResult<T> {
+  const offset = getPageOffset(params);
+  return createPaginatedResult(
+    items.slice(offset, offset + params.pageSize),
+    items.length,
+    params,
+  );
+}
+
+// ==================== Cursor Pagination ====================
+
+/**
+ * Fill in the default limit and bring it into range.
+ *
+ * @throws {InvalidCursorException} If both `after` and `before` are set
+ */
+export function normalizeCursorPagination(
+  params: Partial<CursorPaginationParams> = {},
+  limits: PaginationLimits = {},
+): CursorPaginationParams {
+  if (params.after !== undefined && params.before !== undefined) {
+    throw new InvalidCursorException(
+      'Only one of `after` and `before` can be set',
+    );
+  }
+  return { ...params, limit: clampPageSize(params.limit, limits) };
+}
+
+/**
+ * Encode the sort key values of an item as an opaque cursor.
+ */
+export function encodeCursor<T>(
+  item: T,
+  sortKeys: readonly KeysetSortKey<T>[],
+): string {
+  const values = sortKeys.map(({ field }) => {
+    const value = item[field];
+    return value instanceof Date ? { $date: value.toISOString() } : value;
+  });
+  const payload = { k: sortKeys.map((key) => key.field), v: values };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor into the sort key values of its item.
+ *
+ * @throws {InvalidCursorException} If the cursor is malformed or was
+ * encoded for other sort keys
+ */
+export function decodeCursor<T>(
+  cursor: string,
+  sortKeys: readonly KeysetSortKey<T>[],
+): unknown[] {
+  let payload: { k?: unknown; v?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorException();
+  }
+
+  const fields = sortKeys.map((key) => key.field);
+  if (
+    !Array.isArray(payload?.k) ||
+    !Array.isArray(payload.v) ||
+    payload.v.length !== fields.length ||
+    payload.k.join('\0') !== fields.join('\0')
+  ) {
+    throw new InvalidCursorException(
+      'Pagination cursor does not match the sort order',
+    );
+  }
+
+  return payload.v.map((value) =>
+    value && typeof value === 'object' && '$date' in value
+      ? new Date((value as { $date: string }).$date)
+      : value,
+  );
+}
+
+/**
+ * Decode the cursor of a cursor-paginated request.
+ *
+ * @returns The position, or undefined for the first page
+ */
+export function readKeysetPosition<T>(
+  params: CursorPaginationParams,
+  sortKeys: readonly KeysetSortKey<T>[],
+): KeysetPosition | undefined {
+  if (params.after !== undefined) {
+    return { direction: 'after', values: decodeCursor(params.after, sortKeys) };
+  }
+  if (params.before !== undefined) {
+    return {
+      direction: 'before',
+      values: decodeCursor(params.before, sortKeys),
+    };
+  }
+  return undefined;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  const left = a instanceof Date ? a.getTime() : (a as number | string);
+  const right = b instanceof Date ? b.getTime() : (b as number | string);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Compare two lists of sort key values in keyset order.
+ *
+ * Null and undefined sort before any other value.
+ */
+export function compareKeyset<T>(
+  a: readonly unknown[],
+  b: readonly unknown[],
+  sortKeys: readonly KeysetSortKey<T>[],
+): number {
+  for (let i = 0; i < sortKeys.length; i++) {
+    const result = compareValues(a[i], b[i]);
+    if (result !== 0) {
+      return sortKeys[i]!.order === 'desc' ? -result : result;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Build a cursor-paginated result from the rows fetched for a page.
+ *
+ * Fetch up to `limit + 1` rows starting at the cursor: the extra row only
+ * tells whether more items follow. For `before` cursors, fetch in reverse
+ * sort order (nearest to the cursor first); the page is returned in sort
+ * order.
+ */
+export function createCursorPage<T>(
+  rows: readonly T[],
+  params: CursorPaginationParams,
+  sortKeys: readonly KeysetSortKey<T>[],
+): CursorPaginatedResult<T> {
+  const backward = params.before !== undefined;
+  const hasMore = rows.length > params.limit;
+  const items = rows.slice(0, params.limit);
+  if (backward) {
+    items.reverse();
+  }
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const hasNext = backward || hasMore;
+  const hasPrevious = backward ? hasMore : params.after !== undefined;
+  const nextCursor =
+    hasNext && last !== undefined ? encodeCursor(last, sortKeys) : undefined;
+  const prevCursor =
+    hasPrevious && first !== undefined
+      ? encodeCursor(first, sortKeys)
+      : undefined;
+
+  return {
+    items,
+    limit: params.limit,
+    nextCursor,
+    prevCursor,
+    hasNextPage: nextCursor !== undefined,
+    hasPreviousPage: prevCursor !== undefined,
+  };
+}
+
+/**
+ * Cursor-paginate items held in memory.
+ */
+export function paginateByKeyset<T>(
+  items: readonly T[],
+  params: CursorPaginationParams,
+  sortKeys: readonly KeysetSortKey<T>[],
+): CursorPaginatedResult<T> {
+  const valuesOf = (item: T) => sortKeys.map(({ field }) => item[field]);
+  const sorted = items
+    .map((item) => ({ item, values: valuesOf(item) }))
+    .sort((a, b) => compareKeyset(a.values, b.values, sortKeys));
+
+  const position = readKeysetPosition(params, sortKeys);
+  let rows = sorted;
+  if (position?.direction === 'after') {
+    rows = sorted.filter(
+      (row) => compareKeyset(row.values, position.values, sortKeys) > 0,
+    );
+  } else if (position?.direction === 'before') {
+    rows = sorted
+      .filter((row) => compareKeyset(row.values, position.values, sortKeys) < 0)
+      .reverse();
+  }
+
+  return createCursorPage(
+    rows.slice(0, params.limit + 1).map((row) => row.item),
+    params,
+    sortKeys,
+  );
+}
+
+// ==================== Query Base Classes ====================
+
+/**
+ * PaginatedQueryBase - Base class for offset-paginated list queries.
+ *
+ * Normalizes the pagination parameters and includes them in the cache
+ * key. When overriding `getCacheKey()`, include `super.getCacheKey()`.
+ *
+ * @example
+ * ```typescript
+ * class ListUsersQuery extends PaginatedQueryBase<User> {
+ *   constructor(pagination: Partial<PaginationParams>) {
+ *     super(pagination, { maxPageSize: 50 });
+ *   }
+ * }
+ *
+ * // In the handler
+ * const { pageSize } = query.pagination;
+ * const users = await repo.find({ skip: query.offset, take: pageSize });
+ * return query.toResult(users, await repo.count());
+ * ```
+ */
+export abstract class PaginatedQueryBase<T> extends QueryBase<
+  PaginatedResult<T>
+> {
+  /**
+   * Normalized pagination parameters.
+   */
+  readonly pagination: PaginationParams;
+
+  protected constructor(
+    pagination: Partial<PaginationParams> = {},
+    options: QueryBaseOptions & PaginationLimits = {},
+  ) {
+    super(options);
+    this.pagination = normalizePagination(pagination, options);
+  }
+
+  /**
+   * Number of items before the requested page.
+   */
+  get offset(): number {
+    return getPageOffset(this.pagination);
+  }
+
+  /**
+   * Build the result from the items of the page and the total count.
+   */
+  toResult(items: T[], total: number): PaginatedResult<T> {
+    return createPaginatedResult(items, total, this.pagination);
+  }
+
+  getCacheKey(): string {
+    const { page, pageSize, sortBy = '', sortOrder = 'asc' } = this.pagination;
+    return `${super.getCacheKey()}:page=${page}:size=${pageSize}:sort=${sortBy}:${sortOrder}`;
+  }
+}
+
+/**
+ * CursorPaginatedQueryBase - Base class for keyset-paginated list queries.
+ *
+ * Subclasses declare `sortKeys`, ending with a unique field. Invalid
+ * cursors surface as `InvalidCursorException` (400 Bad Request) when the
+ * handler reads `position`.
+ */
+export abstract class CursorPaginatedQueryBase<T> extends QueryBase<
+  CursorPaginatedResult<T>
+> {
+  /**
+   * Normalized pagination parameters.
+   */
+  readonly pagination: CursorPaginationParams;
+
+  /**
+   * Fields the pages are ordered by; the last one must be unique.
+   */
+  abstract readonly sortKeys: readonly KeysetSortKey<T>[];
+
+  protected constructor(
+    pagination: Partial<CursorPaginationParams> = {},
+    options: QueryBaseOptions & PaginationLimits = {},
+  ) {
+    super(options);
+    this.pagination = normalizeCursorPagination(pagination, options);
+  }
+
+  /**
+   * Decoded cursor, or undefined for the first page.
+   *
+   * @throws {InvalidCursorException} If the cursor is invalid
+   */
+  get position(): KeysetPosition | undefined {
+    return readKeysetPosition(this.pagination, this.sortKeys);
+  }
+
+  /**
+   * Build the result from the rows fetched for the page.
+   *
+   * @see createCursorPage
+   */
+  toResult(rows: readonly T[]): CursorPaginatedResult<T> {
+    return createCursorPage(rows, this.pagination, this.sortKeys);
+  }
+
+  /**
+   * Paginate items held in memory.
+   */
+  paginate(items: readonly T[]): CursorPaginatedResult<T> {
+    return paginateByKeyset(items, this.pagination, this.sortKeys);
+  }
+
+  getCacheKey(): string {
+    const { limit, after = '', before = '' } = this.pagination;
+    return `${super.getCacheKey()}:limit=${limit}:after=${after}:before=${before}`;
+  }
+}
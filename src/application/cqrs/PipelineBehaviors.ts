@@ -0,0 +1,439 @@
+/**
+ * @fileoverview Built-in CQRS pipeline behaviors
+ * @description
+ * Standard behaviors for the command and query buses: logging,
+ * authorization, validation and unit-of-work transactions. Each behavior
+ * has a default order and can be limited to, or configured for, specific
+ * command and query types.
+ *
+ * @module @struktos/core/application/cqrs/PipelineBehaviors
+ *
+ * @example
+ * ```typescript
+ * const commandBus = new CommandBus({
+ *   behaviors: [
+ *     new LoggingBehavior(logger),
+ *     new AuthorizationBehavior().require(DeleteUserCommand, {
+ *       roles: ['admin'],
+ *     }),
+ *     new ValidationBehavior().register(CreateUserCommand, (command) =>
+ *       command.email.includes('@') ? undefined : { email: ['Invalid email'] },
+ *     ),
+ *     new UnitOfWorkBehavior(() => scope.getService(UNIT_OF_WORK_TOKEN)),
+ *   ],
+ * });
+ * ```
+ */
+
+import {
+  ForbiddenException,
+  UnauthorizedException,
+  ValidationException,
+} from '../../domain/exceptions/exceptions';
+import type {
+  IUnitOfWork,
+  TransactionOptions,
+} from '../../domain/repository/IUnitOfWork';
+import type { IConnectionRouter } from '../../domain/repository/IConnectionRouter';
+import type {
+  HandlerContext,
+  IHandlerLogger,
+  IPipelineBehavior,
+} from './IHandler';
+
+/**
+ * Command or query type: a class or a type name.
+ */
+export type MessageType = string | (new (...args: any[]) => unknown);
+
+/**
+ * Default positions of the built-in behaviors, outermost first.
+ */
+export enum BehaviorOrder {
+  MessageLog = 50,
+  Logging = 100,
+  Authorization = 200,
+  Validation = 300,
+  UnitOfWork = 400,
+}
+
+/**
+ * Options shared by every built-in behavior.
+ */
+export interface PipelineBehaviorOptions {
+  /** Position in the pipeline; lower values run further outside */
+  order?: number;
+
+  /** Only run for these types (default: every type) */
+  include?: MessageType[];
+
+  /** Never run for these types */
+  exclude?: MessageType[];
+}
+
+/**
+ * Sort behaviors by `order`, keeping insertion order for equal values.
+ */
+export function orderBehaviors<T extends IPipelineBehavior>(
+  behaviors: readonly T[],
+): T[] {
+  return [...behaviors].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+/**
+ * Resolve the type name of a command or query, the same way the buses do.
+ */
+export function getMessageType(request: unknown): string {
+  const message = request as {
+    metadata?: { commandType?: unknown; queryType?: unknown };
+    __type?: unknown;
+    constructor?: { name?: string };
+  };
+  const type =
+    message?.metadata?.commandType ??
+    message?.metadata?.queryType ??
+    message?.__type;
+  if (typeof type === 'string') {
+    return type;
+  }
+
+  const constructorName = message?.constructor?.name;
+  return constructorName && constructorName !== 'Object'
+    ? constructorName
+    : 'UnknownMessage';
+}
+
+/**
+ * Base class for behaviors that run for a subset of message types.
+ */
+export abstract class PipelineBehaviorBase<
+  TRequest = unknown,
+  TResponse = unknown,
+> implements IPipelineBehavior<TRequest, TResponse> {
+  readonly order: number;
+  private readonly include?: Set<string>;
+  private readonly exclude: Set<string>;
+
+  protected constructor(
+    options: PipelineBehaviorOptions,
+    defaultOrder: number,
+  ) {
+    this.order = options.order ?? defaultOrder;
+    this.include = options.include && new Set(options.include.map(typeName));
+    this.exclude = new Set((options.exclude ?? []).map(typeName));
+  }
+
+  handle(
+    request: TRequest,
+    next: () => Promise<TResponse>,
+    context?: HandlerContext,
+  ): Promise<TResponse> {
+    return this.appliesTo(request)
+      ? this.process(request, next, context)
+      : next();
+  }
+
+  /**
+   * Whether the behavior runs for this request.
+   */
+  protected appliesTo(request: TRequest): boolean {
+    const type = getMessageType(request);
+    return (!this.include || this.include.has(type)) && !this.exclude.has(type);
+  }
+
+  protected abstract process(
+    request: TRequest,
+    next: () => Promise<TResponse>,
+    context?: HandlerContext,
+  ): Promise<TResponse>;
+}
+
+// ==================== Logging ====================
+
+/**
+ * LoggingBehavior - Logs the start, completion and failure of each handler.
+ */
+export class LoggingBehavior extends PipelineBehaviorBase {
+  constructor(
+    private readonly logger: IHandlerLogger,
+    options: PipelineBehaviorOptions = {},
+  ) {
+    super(options, BehaviorOrder.Logging);
+  }
+
+  protected async process(
+    request: unknown,
+    next: () => Promise<unknown>,
+    context?: HandlerContext,
+  ): Promise<unknown> {
+    const type = getMessageType(request);
+    const metadata = {
+      type,
+      traceId: context?.traceId,
+      requestId: context?.requestId,
+      userId: context?.userId,
+    };
+    const startTime = Date.now();
+
+    this.logger.debug(`Handling ${type}`, metadata);
+    try {
+      const result = await next();
+      this.logger.info(`${type} handled`, {
+        ...metadata,
+        duration: Date.now() - startTime,
+      });
+      return result;
+    } catch (error) {
+      this.logger.error(`${type} failed`, error as Error, {
+        ...metadata,
+        duration: Date.now() - startTime,
+      });
+      throw error;
+    }
+  }
+}
+
+// ==================== Authorization ====================
+
+/**
+ * What the caller needs to execute a command or query.
+ */
+export interface AuthorizationRequirement {
+  /** Require `context.userId` (default: true) */
+  authenticated?: boolean;
+
+  /** The caller needs at least one of these roles */
+  roles?: string[];
+
+  /** The caller needs every claim; a claim without value matches any value */
+  claims?: Array<{ type: string; value?: string }>;
+
+  /** Custom check, run after roles and claims */
+  policy?: (
+    context: HandlerContext | undefined,
+    request: unknown,
+  ) => boolean | Promise<boolean>;
+}
+
+/**
+ * Options for AuthorizationBehavior.
+ */
+export interface AuthorizationBehaviorOptions extends PipelineBehaviorOptions {
+  /** Requirement for types without their own (default: none) */
+  defaultRequirement?: AuthorizationRequirement;
+}
+
+/**
+ * AuthorizationBehavior - Checks `HandlerContext` roles and claims.
+ *
+ * Throws `UnauthorizedException` when authentication is required but the
+ * context has no user, and `ForbiddenException` when the user lacks a
+ * required role, claim or policy.
+ */
+export class AuthorizationBehavior extends PipelineBehaviorBase {
+  private readonly requirements = new Map<string, AuthorizationRequirement>();
+
+  constructor(private readonly options: AuthorizationBehaviorOptions = {}) {
+    super(options, BehaviorOrder.Authorization);
+  }
+
+  /**
+   * Set the requirement for a command or query type.
+   */
+  require(type: MessageType, requirement: AuthorizationRequirement): this {
+    this.requirements.set(typeName(type), requirement);
+    return this;
+  }
+
+  protected async process(
+    request: unknown,
+    next: () => Promise<unknown>,
+    context?: HandlerContext,
+  ): Promise<unknown> {
+    const type = getMessageType(request);
+    const requirement =
+      this.requirements.get(type) ?? this.options.defaultRequirement;
+    if (requirement) {
+      await this.authorize(type, requirement, request, context);
+    }
+    return next();
+  }
+
+  private async authorize(
+    type: string,
+    requirement: AuthorizationRequirement,
+    request: unknown,
+    context?: HandlerContext,
+  ): Promise<void> {
+    if (requirement.authenticated !== false && !context?.userId) {
+      throw new UnauthorizedException(`Authentication required for '${type}'`);
+    }
+
+    const { roles = [], claims = [] } = requirement;
+    if (
+      roles.length > 0 &&
+      !roles.some((role) => context?.roles?.includes(role))
+    ) {
+      throw new ForbiddenException(
+        `'${type}' requires one of the roles: ${roles.join(', ')}`,
+        { requiredRoles: roles },
+      );
+    }
+
+    const missing = claims.filter(
+      (claim) =>
+        !context?.claims?.some(
+          (c) =>
+            c.type === claim.type &&
+            (claim.value === undefined || c.value === claim.value),
+        ),
+    );
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `'${type}' requires the claims: ` +
+          missing.map((c) => c.type).join(', '),
+        { missingClaims: missing },
+      );
+    }
+
+    if (requirement.policy && !(await requirement.policy(context, request))) {
+      throw new ForbiddenException(`Access to '${type}' denied by policy`);
+    }
+  }
+}
+
+// ==================== Validation ====================
+
+/**
+ * Validation errors by field.
+ */
+export type ValidationErrors = Record<string, string[]>;
+
+/**
+ * Validates a request. Returns errors by field, or nothing when valid.
+ */
+export type Validator<TRequest = any> = (
+  request: TRequest,
+) =>
+  | ValidationErrors
+  | undefined
+  | void
+  | Promise<ValidationErrors | undefined | void>;
+
+/**
+ * ValidationBehavior - Runs the validators registered for the request type.
+ *
+ * Errors from every validator are merged and thrown as a
+ * `ValidationException`. A validator that throws is treated as a failure
+ * of the whole request.
+ */
+export class ValidationBehavior extends PipelineBehaviorBase {
+  private readonly validators = new Map<string, Validator[]>();
+
+  constructor(options: PipelineBehaviorOptions = {}) {
+    super(options, BehaviorOrder.Validation);
+  }
+
+  /**
+   * Add a validator for a command or query type.
+   */
+  register<TRequest>(
+    type: string | (new (...args: any[]) => TRequest),
+    validator: Validator<TRequest>,
+  ): this {
+    const key = typeName(type);
+    this.validators.set(key, [...(this.validators.get(key) ?? []), validator]);
+    return this;
+  }
+
+  protected async process(
+    request: unknown,
+    next: () => Promise<unknown>,
+  ): Promise<unknown> {
+    const type = getMessageType(request);
+    const errors: ValidationErrors = {};
+
+    for (const validator of this.validators.get(type) ?? []) {
+      let result: ValidationErrors | undefined | void;
+      try {
+        result = await validator(request);
+      } catch (error) {
+        if (error instanceof ValidationException) {
+          throw error;
+        }
+        result = { request: [(error as Error).message] };
+      }
+
+      for (const [field, messages] of Object.entries(result ?? {})) {
+        errors[field] = [...(errors[field] ?? []), ...messages];
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationException(`Validation failed for '${type}'`, errors);
+    }
+    return next();
+  }
+}
+
+// ==================== Unit of Work ====================
+
+/**
+ * Options for UnitOfWorkBehavior.
+ */
+export interface UnitOfWorkBehaviorOptions extends PipelineBehaviorOptions {
+  /** Transaction options for all commands, or per command */
+  transactionOptions?:
+    | TransactionOptions
+    | ((command: unknown) => TransactionOptions | undefined);
+
+  /**
+   * Router told about each commit, so the request reads its own writes
+   * from the primary.
+   */
+  connectionRouter?: IConnectionRouter;
+}
+
+/**
+ * UnitOfWorkBehavior - Runs each command handler in a transaction.
+ *
+ * Queries pass through untouched. Pass a function to resolve the unit of
+ * work per command, e.g. from the request's service scope.
+ */
+export class UnitOfWorkBehavior extends PipelineBehaviorBase {
+  constructor(
+    private readonly unitOfWork: IUnitOfWork | (() => IUnitOfWork),
+    private readonly options: UnitOfWorkBehaviorOptions = {},
+  ) {
+    super(options, BehaviorOrder.UnitOfWork);
+  }
+
+  protected appliesTo(request: unknown): boolean {
+    const metadata = (request as { metadata?: { queryId?: unknown } })
+      ?.metadata;
+    return metadata?.queryId === undefined && super.appliesTo(request);
+  }
+
+  protected async process(
+    request: unknown,
+    next: () => Promise<unknown>,
+  ): Promise<unknown> {
+    const unitOfWork =
+      typeof this.unitOfWork === 'function'
+        ? this.unitOfWork()
+        : this.unitOfWork;
+    const { transactionOptions } = this.options;
+    const options =
+      typeof transactionOptions === 'function'
+        ? transactionOptions(request)
+        : transactionOptions;
+
+    const result = await unitOfWork.executeInTransaction(() => next(), options);
+    this.options.connectionRouter?.recordWrite();
+    return result;
+  }
+}
+
+function typeName(type: MessageType): string {
+  return typeof type === 'string' ? type : type.name;
+}
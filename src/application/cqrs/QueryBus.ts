@@ -0,0 +1,647 @@
+/**
+ * @struktos/core - In-Memory Query Bus
+ *
+ * Default IQueryBus implementation. Routes queries to registered handlers
+ * in-process and caches their results through CacheManager, honoring the
+ * caching configuration carried by QueryBase and QueryExecutionOptions.
+ *
+ * @module application/cqrs/QueryBus
+ * @see {@link https://martinfowler.com/bliki/CQRS.html | CQRS Pattern}
+ */
+
+import { CausationContext } from '../../domain/context/CausationContext';
+import type { CausationScope } from '../../domain/context/CausationContext';
+import { RequestContext } from '../../domain/context/RequestContext';
+import type {
+  IContext,
+  StruktosContextData,
+} from '../../domain/context/IContext';
+import { ConnectionRouting } from '../../domain/repository/IConnectionRouter';
+import { CacheManager } from '../../infrastructure/cache/CacheManager';
+import type {
+  IQuery,
+  IQueryBus,
+  QueryExecutionOptions,
+  QueryMetadata,
+  QueryResult,
+  QueryResults,
+} from './IQuery';
+import { HandlerContext } from './IHandler';
+import type { IQueryHandler, IPipelineBehavior } from './IHandler';
+import { BatchLoader } from './BatchLoader';
+import { orderBehaviors } from './PipelineBehaviors';
+
+/**
+ * Error thrown when no handler is registered for a dispatched query.
+ */
+export class QueryHandlerNotFoundError extends Error {
+  /**
+   * The query type that could not be routed.
+   */
+  public readonly queryType: string;
+
+  constructor(queryType: string) {
+    super(`No handler registered for query '${queryType}'`);
+    this.name = 'QueryHandlerNotFoundError';
+    this.queryType = queryType;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, QueryHandlerNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a query handler exceeds its execution timeout.
+ */
+export class QueryTimeoutError extends Error {
+  /**
+   * The query type that timed out.
+   */
+  public readonly queryType: string;
+
+  /**
+   * The timeout that was exceeded, in milliseconds.
+   */
+  public readonly timeout: number;
+
+  constructor(queryType: string, timeout: number) {
+    super(`Query '${queryType}' timed out after ${timeout}ms`);
+    this.name = 'QueryTimeoutError';
+    this.queryType = queryType;
+    this.timeout = timeout;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, QueryTimeoutError.prototype);
+  }
+}
+
+/**
+ * Configuration for a QueryBus instance.
+ */
+export interface QueryBusOptions {
+  /**
+   * Cache used to store query results.
+   * A private CacheManager with capacity 1000 is created when omitted.
+   */
+  cache?: CacheManager<string, unknown>;
+
+  /**
+   * Pipeline behaviors wrapped around every execution, outermost first
+   * (sorted by `order`; equal orders keep this sequence).
+   * They also run for cache hits and shared handler calls, so every
+   * caller passes authorization.
+   */
+  behaviors?: IPipelineBehavior[];
+
+  /**
+   * Default handler timeout in milliseconds. Use 0 to disable.
+   * @defaultValue 10000
+   */
+  timeout?: number;
+
+  /**
+   * Default cache TTL in seconds when neither the query nor the call sets one.
+   * @defaultValue 60
+   */
+  cacheTTL?: number;
+
+  /**
+   * Whether concurrent executions with the same cache key share one
+   * handler call (single-flight).
+   * @defaultValue true
+   */
+  coalesce?: boolean;
+}
+
+/**
+ * Cached value wrapper, so that `undefined` and `null` results can be cached.
+ */
+interface CachedQueryValue {
+  value: unknown;
+}
+
+/**
+ * Resolved caching decision for a single execution.
+ */
+interface CachePlan {
+  key?: string;
+  ttl: number;
+  read: boolean;
+  write: boolean;
+}
+
+/**
+ * Constructor type accepted wherever a query type can be given.
+ */
+type QueryConstructor = new (...args: any[]) => IQuery<unknown>;
+
+/**
+ * QueryBus - In-memory IQueryBus implementation with result caching.
+ *
+ * A query is cacheable when its metadata says so (QueryBase defaults to
+ * `cacheable: true`) or when the caller passes an explicit `cacheKey`.
+ * The cache key is taken from, in order: `options.cacheKey`,
+ * `query.getCacheKey()`, `metadata.cacheKey`.
+ *
+ * Concurrent executions of a cacheable query with the same cache key share
+ * one handler call. Handlers implementing `executeBatch()` receive the
+ * queries of one request that reach them during the same turn of the
+ * event loop in a single call.
+ *
+ * @template TContext - Context data type extending StruktosContextData
+ *
+ * @example
+ * ```typescript
+ * const queryBus = new QueryBus({ cache: new CacheManager(5000) });
+ * queryBus.register(GetUserByIdQuery, new GetUserByIdHandler(userRepo));
+ *
+ * // Served from the handler, then from cache
+ * await queryBus.execute(new GetUserByIdQuery('user-123'));
+ * const metrics = await queryBus.executeWithMetrics(
+ *   new GetUserByIdQuery('user-123'),
+ * );
+ * console.log(metrics.fromCache); // true
+ *
+ * // After a write, drop every cached GetUserByIdQuery result
+ * await queryBus.invalidateCache(GetUserByIdQuery);
+ *
+ * // Or drop every key starting with 'user:'
+ * await queryBus.invalidateCache('user:*');
+ * ```
+ */
+export class QueryBus<
+  TContext extends StruktosContextData = StruktosContextData,
+> implements IQueryBus<TContext> {
+  private readonly handlers = new Map<
+    string,
+    IQueryHandler<IQuery<unknown>, unknown>
+  >();
+  private behaviors: IPipelineBehavior[];
+  private readonly cache: CacheManager<string, unknown>;
+
+  /**
+   * Cache keys written per query type, used for invalidation by type.
+   * Keys the cache has evicted or expired are pruned once enough writes
+   * have accumulated.
+   */
+  private readonly keysByType = new Map<string, Set<string>>();
+  private writesSincePrune = 0;
+
+  /**
+   * Handler calls in progress by cache key, shared by concurrent executions.
+   */
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Batches being collected, by query type and request.
+   */
+  private readonly batches = new Map<
+    string,
+    BatchLoader<IQuery<unknown>, unknown>
+  >();
+
+  constructor(private readonly options: QueryBusOptions = {}) {
+    this.behaviors = orderBehaviors(options.behaviors ?? []);
+    this.cache = options.cache ?? new CacheManager<string, unknown>(1000);
+  }
+
+  /**
+   * Register a query handler for a query type.
+   *
+   * @throws {Error} If a handler is already registered for the type
+   */
+  register<TQuery extends IQuery<TResult>, TResult>(
+    queryType: string | (new (...args: any[]) => TQuery),
+    handler: IQueryHandler<TQuery, TResult>,
+  ): void {
+    const key = this.toTypeName(queryType);
+    if (this.handlers.has(key)) {
+      throw new Error(`A handler is already registered for query '${key}'`);
+    }
+    this.handlers.set(
+      key,
+      handler as unknown as IQueryHandler<IQuery<unknown>, unknown>,
+    );
+  }
+
+  /**
+   * Check if a handler is registered for a query type.
+   */
+  hasHandler(queryType: string | QueryConstructor): boolean {
+    return this.handlers.has(this.toTypeName(queryType));
+  }
+
+  /**
+   * Add a pipeline behavior. It runs inside behaviors with a lower or equal
+   * `order` and outside those with a higher one.
+   */
+  addBehavior(behavior: IPipelineBehavior): this {
+    this.behaviors = orderBehaviors([...this.behaviors, behavior]);
+    return this;
+  }
+
+  /**
+   * Execute a query, serving it from cache when possible.
+   */
+  async execute<TResult>(
+    query: IQuery<TResult>,
+    options?: QueryExecutionOptions<TContext>,
+  ): Promise<TResult> {
+    const { value } = await this.runInContext(options?.context, () =>
+      this.dispatch(query, options),
+    );
+    return value;
+  }
+
+  /**
+   * Execute a query and return a result wrapper instead of throwing.
+   */
+  async executeWithMetrics<TResult>(
+    query: IQuery<TResult>,
+    options?: QueryExecutionOptions<TContext>,
+  ): Promise<QueryResult<TResult>> {
+    const metadata = this.getMetadata(query);
+    const context = options?.context ?? RequestContext.current<TContext>();
+    const startedAt = new Date();
+
+    const base = {
+      queryId: metadata?.queryId ?? this.generateId(),
+      queryType: this.getQueryType(query),
+      startedAt,
+      traceId: context?.get('traceId') as string | undefined,
+    };
+
+    try {
+      const { value, fromCache, cacheKey } = await this.runInContext(
+        options?.context,
+        () => this.dispatch(query, options),
+      );
+      const completedAt = new Date();
+      return {
+        ...base,
+        success: true,
+        value,
+        fromCache,
+        cacheKey,
+        completedAt,
+        duration: completedAt.getTime() - startedAt.getTime(),
+      };
+    } catch (error) {
+      const completedAt = new Date();
+      return {
+        ...base,
+        success: false,
+        error: this.serializeError(error),
+        fromCache: false,
+        cacheKey: this.planCache(query, options).key,
+        completedAt,
+        duration: completedAt.getTime() - startedAt.getTime(),
+      };
+    }
+  }
+
+  /**
+   * Execute several queries concurrently, returning results in order.
+   */
+  async executeMany<const TQueries extends readonly IQuery<unknown>[]>(
+    queries: TQueries,
+    options?: QueryExecutionOptions<TContext>,
+  ): Promise<QueryResults<TQueries>> {
+    const results = await Promise.all(
+      queries.map((query) => this.execute(query, options)),
+    );
+    return results as QueryResults<TQueries>;
+  }
+
+  /**
+   * Invalidate cached results.
+   *
+   * A query constructor or registered query type name drops every result
+   * cached for that type. Any other string is treated as a key prefix;
+   * a trailing `*` is accepted and ignored.
+   */
+  async invalidateCache(
+    queryTypeOrKey: string | QueryConstructor,
+  ): Promise<void> {
+    const name = this.toTypeName(queryTypeOrKey);
+
+    const typedKeys = this.keysByType.get(name);
+    if (typedKeys) {
+      for (const key of typedKeys) {
+        this.cache.delete(key);
+      }
+      this.keysByType.delete(name);
+    }
+
+    if (typeof queryTypeOrKey !== 'string' || this.handlers.has(name)) {
+      return;
+    }
+
+    const prefix = name.endsWith('*') ? name.slice(0, -1) : name;
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+      }
+    }
+    for (const keys of this.keysByType.values()) {
+      for (const key of keys) {
+        if (key.startsWith(prefix)) {
+          keys.delete(key);
+        }
+      }
+    }
+  }
+
+  // ==================== Dispatch ====================
+
+  /**
+   * Run the pipeline around the cache lookup and the handler call, then
+   * update the cache.
+   *
+   * The cache sits inside the pipeline so that behaviors such as
+   * authorization see every caller, including those served from cache or
+   * from another caller's handler call.
+   */
+  private async dispatch<TResult>(
+    query: IQuery<TResult>,
+    options?: QueryExecutionOptions<TContext>,
+  ): Promise<{ value: TResult; fromCache: boolean; cacheKey?: string }> {
+    const queryType = this.getQueryType(query);
+    const handler = this.handlers.get(queryType);
+    if (!handler) {
+      throw new QueryHandlerNotFoundError(queryType);
+    }
+
+    const plan = this.planCache(query, options);
+    let fromCache = false;
+
+    const load = async (context: HandlerContext): Promise<unknown> => {
+      if (plan.key && plan.read && this.cache.has(plan.key)) {
+        const cached = this.cache.get(plan.key) as CachedQueryValue | undefined;
+        if (cached) {
+          fromCache = true;
+          return cached.value;
+        }
+      }
+
+      const run = async () => {
+        const value = await (handler.executeBatch
+          ? this.loadInBatch(query, handler)
+          : handler.execute(query, context));
+        if (plan.key && plan.write) {
+          const entry: CachedQueryValue = { value };
+          this.cache.set(plan.key, entry, plan.ttl * 1000);
+          this.trackKey(queryType, plan.key);
+        }
+        return value;
+      };
+      const coalesce = plan.read && (this.options.coalesce ?? true);
+      return plan.key && coalesce ? this.singleFlight(plan.key, run) : run();
+    };
+
+    const timeout = options?.timeout ?? this.options.timeout ?? 10000;
+    const value = (await this.withTimeout(
+      this.invokePipeline(query, load, options),
+      queryType,
+      timeout,
+    )) as TResult;
+
+    return { value, fromCache, cacheKey: plan.key };
+  }
+
+  /**
+   * Work out whether and how this execution uses the cache.
+   */
+  private planCache(
+    query: IQuery<unknown>,
+    options?: QueryExecutionOptions<TContext>,
+  ): CachePlan {
+    const metadata = this.getMetadata(query);
+    const ttl =
+      options?.cacheTTL ?? metadata?.cacheTTL ?? this.options.cacheTTL ?? 60;
+
+    const cacheable =
+      options?.cacheKey !== undefined || (metadata?.cacheable ?? false);
+    if (!cacheable) {
+      return { ttl, read: false, write: false };
+    }
+
+    const getCacheKey = (query as { getCacheKey?: () => string }).getCacheKey;
+    const key =
+      options?.cacheKey ??
+      (typeof getCacheKey === 'function'
+        ? getCacheKey.call(query)
+        : metadata?.cacheKey);
+
+    const skipCache = options?.skipCache ?? false;
+    return {
+      key,
+      ttl,
+      read: !skipCache,
+      write: !skipCache || (options?.refreshCache ?? true),
+    };
+  }
+
+  /**
+   * Share the handler call in progress for a cache key, or start one.
+   */
+  private singleFlight(
+    key: string,
+    run: () => Promise<unknown>,
+  ): Promise<unknown> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = run().finally(() => {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private trackKey(queryType: string, key: string): void {
+    if (++this.writesSincePrune > this.cache.stats().capacity) {
+      this.pruneKeys();
+    }
+
+    let keys = this.keysByType.get(queryType);
+    if (!keys) {
+      keys = new Set();
+      this.keysByType.set(queryType, keys);
+    }
+    keys.add(key);
+  }
+
+  /**
+   * Forget tracked keys the cache no longer holds. Running this once per
+   * `capacity` writes keeps the tracked keys below twice the capacity.
+   */
+  private pruneKeys(): void {
+    this.writesSincePrune = 0;
+    for (const [queryType, keys] of this.keysByType) {
+      for (const key of keys) {
+        if (!this.cache.has(key)) {
+          keys.delete(key);
+        }
+      }
+      if (keys.size === 0) {
+        this.keysByType.delete(queryType);
+      }
+    }
+  }
+
+  /**
+   * Run the behavior chain with `load` as the innermost step.
+   */
+  private invokePipeline(
+    query: IQuery<unknown>,
+    load: (context: HandlerContext) => Promise<unknown>,
+    options?: QueryExecutionOptions<TContext>,
+  ): Promise<unknown> {
+    const scope = this.linkCausation(query);
+    const handlerContext = HandlerContext.fromRequestContext(options?.context);
+    const role = options?.useReadReplica === false ? 'primary' : 'replica';
+
+    const pipeline = this.behaviors.reduceRight<() => Promise<unknown>>(
+      (next, behavior) => () => behavior.handle(query, next, handlerContext),
+      () => load(handlerContext),
+    );
+    const run = () =>
+      ConnectionRouting.run(role, () =>
+        pipeline().finally(() => HandlerContext.release(handlerContext)),
+      );
+
+    return scope ? CausationContext.run(scope, run) : run();
+  }
+
+  /**
+   * Add the query to the batch collected for its type and request.
+   */
+  private loadInBatch(
+    query: IQuery<unknown>,
+    handler: IQueryHandler<IQuery<unknown>, unknown>,
+  ): Promise<unknown> {
+    const requestContext = RequestContext.current<TContext>();
+    const requestKey =
+      requestContext?.get('requestId') ?? requestContext?.get('traceId') ?? '';
+    const key = `${this.getQueryType(query)}:${requestKey}`;
+
+    let batch = this.batches.get(key);
+    if (!batch) {
+      const loader = new BatchLoader<IQuery<unknown>, unknown>(
+        async (queries) => {
+          if (this.batches.get(key) === loader) {
+            this.batches.delete(key);
+          }
+          const context = HandlerContext.fromRequestContext(requestContext);
+          try {
+            return await handler.executeBatch!([...queries], context);
+          } finally {
+            HandlerContext.release(context);
+          }
+        },
+        { cache: false },
+      );
+      batch = loader;
+      this.batches.set(key, batch);
+    }
+    return batch.load(query);
+  }
+
+  /**
+   * Race a handler promise against the configured timeout.
+   */
+  private withTimeout<T>(
+    promise: Promise<T>,
+    queryType: string,
+    timeout: number,
+  ): Promise<T> {
+    if (!timeout || timeout <= 0) {
+      return promise;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new QueryTimeoutError(queryType, timeout)),
+        timeout,
+      );
+    });
+
+    return Promise.race([promise, timeoutPromise]).finally(() =>
+      clearTimeout(timer),
+    );
+  }
+
+  // ==================== Context ====================
+
+  /**
+   * Run the callback inside the given context when it is a RequestContext,
+   * so handlers calling RequestContext.current() see the caller's context.
+   */
+  private runInContext<R>(
+    context: IContext<TContext> | undefined,
+    callback: () => R,
+  ): R {
+    if (context instanceof RequestContext) {
+      return RequestContext.runWithContext(context, callback);
+    }
+    return callback();
+  }
+
+  /**
+   * Link the query to the message being handled and return its scope.
+   */
+  private linkCausation(query: IQuery<unknown>): CausationScope | undefined {
+    const metadata = this.getMetadata(query);
+    return metadata && CausationContext.link(metadata, metadata.queryId);
+  }
+
+  // ==================== Helpers ====================
+
+  private toTypeName(queryType: string | QueryConstructor): string {
+    return typeof queryType === 'string' ? queryType : queryType.name;
+  }
+
+  private getMetadata(query: IQuery<unknown>): QueryMetadata | undefined {
+    return (query as { metadata?: QueryMetadata }).metadata;
+  }
+
+  private getQueryType(query: IQuery<unknown>): string {
+    const metadata = this.getMetadata(query);
+    if (metadata?.queryType) {
+      return metadata.queryType;
+    }
+
+    const explicitType = (query as { __type?: unknown }).__type;
+    if (typeof explicitType === 'string') {
+      return explicitType;
+    }
+
+    const constructorName = query.constructor?.name;
+    return constructorName && constructorName !== 'Object'
+      ? constructorName
+      : 'UnknownQuery';
+  }
+
+  private serializeError(error: unknown): QueryResult<unknown>['error'] {
+    if (error instanceof Error) {
+      const code = (error as { code?: unknown }).code;
+      return {
+        name: error.name,
+        message: error.message,
+        stack: error.stack,
+        code: typeof code === 'string' ? code : undefined,
+      };
+    }
+    return { name: 'Error', message: String(error) };
+  }
+
+  private generateId(): string {
+    return `qry-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -66,6 +66,15 @@ export type {
   CommandResult,
 } from './ICommand';
 
+// Command bus implementation
+export {
+  CommandBus,
+  CommandHandlerNotFoundError,
+  CommandTimeoutError,
+} from './CommandBus';
+
+export type { CommandBusOptions } from './CommandBus';
+
 // Query abstractions
 export {
   // Base class
@@ -85,12 +94,126 @@ export type {
   QueryMetadata,
   QueryExecutionOptions,
   QueryResult,
+  QueryResults,
+  QueryBaseOptions,
   PaginationParams,
   PaginatedResult,
+  CursorPaginationParams,
+  CursorPaginatedResult,
 } from './IQuery';
 
+// Query bus implementation
+export {
+  QueryBus,
+  QueryHandlerNotFoundError,
+  QueryTimeoutError,
+} from './QueryBus';
+
+export type { QueryBusOptions } from './QueryBus';
+
+// Pagination helpers
+export {
+  PaginatedQueryBase,
+  CursorPaginatedQueryBase,
+  InvalidCursorException,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  normalizePagination,
+  getPageOffset,
+  createPaginatedResult,
+  paginateItems,
+  normalizeCursorPagination,
+  encodeCursor,
+  decodeCursor,
+  readKeysetPosition,
+  compareKeyset,
+  createCursorPage,
+  paginateByKeyset,
+} from './Pagination';
+
+export type {
+  PaginationLimits,
+  SortOrder,
+  KeysetSortKey,
+  KeysetPosition,
+} from './Pagination';
+
+// Batching
+export { BatchLoader } from './BatchLoader';
+
+export type { BatchLoadFunction, BatchLoaderOptions } from './BatchLoader';
+
+// Async command queue
+export {
+  InMemoryCommandQueueStore,
+  FileCommandQueueStore,
+} from './CommandQueue';
+export { CommandQueueWorker } from './CommandQueueWorker';
+
+export type {
+  CommandQueueStoreOptions,
+  ICommandQueueStore,
+  QueuedCommand,
+  QueuedCommandStatus,
+} from './CommandQueue';
+export type { CommandQueueWorkerOptions } from './CommandQueueWorker';
+
+// Idempotency
+export { InMemoryIdempotencyStore } from './Idempotency';
+
+export type { IIdempotencyStore, IdempotencyRecord } from './Idempotency';
+
+// Message log and causal trees
+export {
+  InMemoryMessageLog,
+  MessageLogBehavior,
+  toMessageRecord,
+  buildCausalTree,
+} from './MessageLog';
+
+export type {
+  IMessageLog,
+  MessageRecord,
+  MessageKind,
+  CausalTreeNode,
+} from './MessageLog';
+
+// Handler discovery
+export {
+  CommandHandler,
+  QueryHandler,
+  getHandlerMetadata,
+  HandlerScanner,
+  DuplicateHandlerError,
+} from './HandlerScanner';
+
+// Built-in pipeline behaviors
+export {
+  PipelineBehaviorBase,
+  LoggingBehavior,
+  AuthorizationBehavior,
+  ValidationBehavior,
+  UnitOfWorkBehavior,
+  BehaviorOrder,
+  orderBehaviors,
+  getMessageType,
+} from './PipelineBehaviors';
+
+export type {
+  MessageType,
+  PipelineBehaviorOptions,
+  AuthorizationRequirement,
+  AuthorizationBehaviorOptions,
+  ValidationErrors,
+  Validator,
+  UnitOfWorkBehaviorOptions,
+} from './PipelineBehaviors';
+
 // Handler abstractions and pipeline
 export {
+  // Handler context
+  HandlerContext,
+
   // Base classes
   CommandHandlerBase,
   QueryHandlerBase,
@@ -103,8 +226,7 @@ export {
 
 // Handler abstractions and pipeline
 export type {
-  // Handler context
-  HandlerContext,
+  HandlerContextOptions,
 
   // Pipeline behavior
   IPipelineBehavior,
@@ -0,0 +1,131 @@
+/**
+ * @struktos/core - Dependency Graph Formatting
+ *
+ * Renders the registration graph of a service provider as JSON, Graphviz DOT
+ * or Mermaid, for reviewing container wiring.
+ *
+ * @module application/di/DependencyGraph
+ */
+
+import {
+  DependencyGraph,
+  DependencyGraphFormat,
+  DependencyGraphNode,
+} from './IDependencyInjection';
+
+/**
+ * Render a dependency graph in the given format.
+ *
+ * @example
+ * ```typescript
+ * const mermaid = formatDependencyGraph(
+ *   provider.getDependencyGraph(),
+ *   'mermaid',
+ * );
+ * ```
+ */
+export function formatDependencyGraph(
+  graph: DependencyGraph,
+  format: DependencyGraphFormat = 'json',
+): string {
+  switch (format) {
+    case 'dot':
+      return toDot(graph);
+    case 'mermaid':
+      return toMermaid(graph);
+    default:
+      return JSON.stringify(graph, null, 2);
+  }
+}
+
+// ==================== Formats ====================
+
+/**
+ * Factories are drawn as ellipses, instances as notes and unregistered
+ * services as dashed red boxes.
+ */
+function toDot(graph: DependencyGraph): string {
+  // Lines are escaped one by one so the `\n` separators survive
+  const quote = (...lines: string[]) =>
+    `"${lines.map((line) => line.replace(/(["\\])/g, '\\$1')).join('\\n')}"`;
+  const shapes = { class: 'box', factory: 'ellipse', instance: 'note' };
+  const lines = ['digraph Services {', '  rankdir=LR;'];
+
+  for (const node of graph.nodes) {
+    const attributes = [
+      `label=${quote(...describeNode(node))}`,
+      `shape=${shapes[node.kind]}`,
+    ];
+    if (node.duplicate) {
+      attributes.push('color=orange');
+    }
+    lines.push(`  ${quote(node.id)} [${attributes.join(', ')}];`);
+  }
+  for (const service of graph.unregistered) {
+    lines.push(
+      `  ${quote(service)} [label=${quote(service, 'unregistered')}, ` +
+        'shape=box, style=dashed, color=red];',
+    );
+  }
+  for (const node of graph.nodes) {
+    for (const dependency of node.dependencies) {
+      lines.push(`  ${quote(node.id)} -> ${quote(dependency)};`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid ids cannot contain arbitrary characters, so nodes are numbered
+ * and labelled instead.
+ */
+function toMermaid(graph: DependencyGraph): string {
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const ids = new Map<string, string>();
+  const lines = ['graph LR'];
+
+  graph.nodes.forEach((node, index) => {
+    const id = `n${index}`;
+    const label = escape(describeNode(node).join('<br/>'));
+    ids.set(node.id, id);
+    lines.push(
+      node.kind === 'class' ? `  ${id}["${label}"]` : `  ${id}(["${label}"])`,
+    );
+    if (node.duplicate) {
+      lines.push(`  class ${id} duplicate`);
+    }
+  });
+  graph.unregistered.forEach((service, index) => {
+    const id = `u${index}`;
+    ids.set(service, id);
+    lines.push(`  ${id}["${escape(service)}<br/>unregistered"]`);
+    lines.push(`  class ${id} unregistered`);
+  });
+  for (const node of graph.nodes) {
+    for (const dependency of node.dependencies) {
+      lines.push(`  ${ids.get(node.id)} --> ${ids.get(dependency)}`);
+    }
+  }
+
+  lines.push('  classDef duplicate stroke:orange');
+  lines.push('  classDef unregistered stroke:red,stroke-dasharray:5 5');
+  return lines.join('\n');
+}
+
+/**
+ * Label lines: the service, then lifetime, kind and tags.
+ */
+function describeNode(node: DependencyGraphNode): string[] {
+  const service = node.name ? `${node.service} '${node.name}'` : node.service;
+  const details: string[] = [node.lifetime, node.kind];
+  if (node.implementation && node.implementation !== node.service) {
+    details.push(`→ ${node.implementation}`);
+  }
+  const lines = [service, details.join(' · ')];
+  if (node.tags.length > 0) {
+    lines.push(`#${node.tags.join(' #')}`);
+  }
+  return lines;
+}
@@ -911,8 +911,9 @@ export interface IServiceCollection {
    * Adds a singleton service to the collection.
    *
    * @template T - Service type
-   * @param serviceType - The type (class) of the service to register
+   * @param serviceType - The type (class) or token of the service to register
    * @param implementationType - Optional implementation type if different from serviceType
+   * @param options - Additional registration options (name, tags, tryAdd, replace)
    * @returns The IServiceCollection for chaining
    *
    * @remarks
@@ -984,16 +985,18 @@ export interface IServiceCollection {
    * ```
    */
   addSingleton<T>(
-    serviceType: new (...args: any[]) => T,
+    serviceType: ServiceIdentifier<T>,
     implementationType?: new (...args: any[]) => T,
+    options?: ServiceRegistrationOptions,
   ): this;
 
   /**
    * Adds a transient service to the collection.
    *
    * @template T - Service type
-   * @param serviceType - The type (class) of the service to register
+   * @param serviceType - The type (class) or token of the service to register
    * @param implementationType - Optional implementation type if different from serviceType
+   * @param options - Additional registration options (name, tags, tryAdd, replace)
    * @returns The IServiceCollection for chaining
    *
    * @remarks
@@ -1060,16 +1063,18 @@ export interface IServiceCollection {
    * ```
    */
   addTransient<T>(
-    serviceType: new (...args: any[]) => T,
+    serviceType: ServiceIdentifier<T>,
     implementationType?: new (...args: any[]) => T,
+    options?: ServiceRegistrationOptions,
   ): this;
 
   /**
    * Adds a scoped service to the collection, tied to request context via AsyncLocalStorage.
    *
    * @template T - Service type
-   * @param serviceType - The type (class) of the service to register
+   * @param serviceType - The type (class) or token of the service to register
    * @param implementationType - Optional implementation type if different from serviceType
+   * @param options - Additional registration options (name, tags, tryAdd, replace)
    * @returns The IServiceCollection for chaining
    *
    * @remarks
@@ -1193,14 +1198,18 @@ export interface IServiceCollection {
    * ```
    */
   addScoped<T>(
-    serviceType: new (...args: any[]) => T,
+    serviceType: ServiceIdentifier<T>,
     implementationType?: new (...args: any[]) => T,
+    options?: ServiceRegistrationOptions,
   ): this;
 
   /**
    * Builds and returns an IServiceProvider from the registered services.
    *
+   * @param options - Build-time and runtime validation switches
    * @returns An IServiceProvider instance
+   * @throws {DependencyResolutionError} If validation is enabled and the
+   * service graph has a scope mismatch, a missing registration or a cycle
    *
    * @remarks
    * **Finalization:**
@@ -1218,7 +1227,7 @@ export interface IServiceCollection {
    * ```typescript
    * const provider = services.buildServiceProvider({
    *   validateScopes: true,  // Check for scope mismatches
-   *   validateOnBuild: true,  // Resolve all singletons immediately
+   *   validateOnBuild: true,  // Check every dependency can be resolved
    * });
    * ```
    *
@@ -1284,7 +1293,101 @@ export interface IServiceCollection {
    * export default provider;
    * ```
    */
-  buildServiceProvider(): IDIServiceProvider;
+  buildServiceProvider(options?: ServiceProviderOptions): IDIServiceProvider;
+
+  /**
+   * Registers a singleton service created by a factory function.
+   *
+   * @param serviceType - The service type or token
+   * @param factory - Creates the instance from the provider
+   * @param options - Additional registration options
+   * @returns The service collection for chaining
+   *
+   * @example
+   * ```typescript
+   * services.addSingletonFactory(COMMAND_BUS_TOKEN, (provider) =>
+   *   new CommandBus({ behaviors: provider.getServices(PIPELINE_BEHAVIORS_TOKEN) }),
+   * );
+   * ```
+   */
+  addSingletonFactory<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+    options?: ServiceRegistrationOptions,
+  ): this;
+
+  /**
+   * Registers a scoped service created by a factory function.
+   *
+   * @param serviceType - The service type or token
+   * @param factory - Creates the instance from the scoped provider
+   * @param options - Additional registration options
+   * @returns The service collection for chaining
+   *
+   * @example
+   * ```typescript
+   * services.addScopedFactory(UNIT_OF_WORK_TOKEN, (provider) =>
+   *   provider.getService(UNIT_OF_WORK_FACTORY_TOKEN).create(),
+   * );
+   * ```
+   */
+  addScopedFactory<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+    options?: ServiceRegistrationOptions,
+  ): this;
+
+  /**
+   * Registers a transient service created by a factory function.
+   *
+   * @param serviceType - The service type or token
+   * @param factory - Creates a new instance on every resolution
+   * @param options - Additional registration options
+   * @returns The service collection for chaining
+   */
+  addTransientFactory<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+    options?: ServiceRegistrationOptions,
+  ): this;
+
+  /**
+   * Registers an existing instance as a singleton.
+   *
+   * @remarks
+   * The container does not own the instance and never disposes it.
+   *
+   * @param serviceType - The service type or token
+   * @param instance - The instance to return on every resolution
+   * @param options - Additional registration options
+   * @returns The service collection for chaining
+   * @throws {Error} If the instance is undefined or null
+   *
+   * @example
+   * ```typescript
+   * services.addInstance(AppConfig, loadConfig());
+   * services.addInstance('connectionString', process.env.DATABASE_URL);
+   * ```
+   */
+  addInstance<T>(
+    serviceType: ServiceIdentifier<T>,
+    instance: T,
+    options?: ServiceRegistrationOptions,
+  ): this;
+
+  /**
+   * Returns a snapshot of all registrations, in registration order.
+   */
+  getDescriptors(): ServiceDescriptor[];
+
+  /**
+   * Removes registrations for a service type.
+   *
+   * @param serviceType - The service type or token
+   * @param name - Only remove the registration with this name
+   * @returns True if at least one registration was removed
+   */
+  remove<T>(serviceType: ServiceIdentifier<T>, name?: string): boolean;
 }
 
 /**
@@ -1390,7 +1493,8 @@ export interface IDIServiceProvider {
    * Resolves a service instance by its type.
    *
    * @template T - Service type
-   * @param serviceType - The type (class) of the service to resolve
+   * @param serviceType - The type (class) or token of the service to resolve
+   * @param name - Resolve the registration with this name
    * @returns An instance of the service
    * @throws {DependencyResolutionError} If resolution fails (unregistered, circular, scope mismatch)
    *
@@ -1502,7 +1606,73 @@ export interface IDIServiceProvider {
    * }
    * ```
    */
-  getService<T>(serviceType: new (...args: any[]) => T): T;
+  getService<T>(serviceType: ServiceIdentifier<T>, name?: string): T;
+
+  /**
+   * Resolves a service instance, awaiting async factories along the way.
+   *
+   * @template T - Service type
+   * @param serviceType - The type (class) or token of the service to resolve
+   * @param name - Resolve the registration with this name
+   * @returns A promise of the service instance
+   * @throws {DependencyResolutionError} If resolution fails (unregistered, circular)
+   *
+   * @remarks
+   * Concurrent calls for the same singleton or scoped service share a
+   * single factory invocation.
+   *
+   * @example
+   * ```typescript
+   * services.addSingletonFactory(MessageBroker, async (provider) => {
+   *   const config = await provider.getServiceAsync(BrokerConfig);
+   *   return MessageBroker.connect(config.url);
+   * });
+   *
+   * const broker = await provider.getServiceAsync(MessageBroker);
+   * ```
+   */
+  getServiceAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    name?: string,
+  ): Promise<T>;
+
+  /**
+   * Resolves every registration of a service type, in registration order.
+   *
+   * @template T - Service type
+   * @param serviceType - The service type or token
+   * @returns The resolved instances; empty if nothing is registered
+   *
+   * @example
+   * ```typescript
+   * services
+   *   .addSingleton(PIPELINE_BEHAVIORS_TOKEN, LoggingBehavior)
+   *   .addSingleton(PIPELINE_BEHAVIORS_TOKEN, ValidationBehavior);
+   *
+   * const behaviors = provider.getServices<IPipelineBehavior>(
+   *   PIPELINE_BEHAVIORS_TOKEN,
+   * );
+   * ```
+   */
+  getServices<T>(serviceType: ServiceIdentifier<T>): T[];
+
+  /**
+   * Resolves every service registered with a tag, in registration order.
+   *
+   * @template T - Common type of the tagged services
+   * @param tag - Tag given in ServiceRegistrationOptions.tags
+   * @returns The resolved instances; empty if no registration has the tag
+   *
+   * @example
+   * ```typescript
+   * services.addTransient(CreateUserHandler, CreateUserHandler, {
+   *   tags: ['command'],
+   * });
+   *
+   * const handlers = provider.getServicesByTag('command');
+   * ```
+   */
+  getServicesByTag<T = unknown>(tag: string): T[];
 
   /**
    * Creates a new scope for scoped services, typically per request.
@@ -1647,6 +1817,59 @@ export interface IDIServiceProvider {
    * ```
    */
   createScope(): IServiceScope;
+
+  /**
+   * Eagerly builds the singletons registered with factories, awaiting
+   * async factories in dependency order.
+   *
+   * @returns A promise that resolves once every such singleton exists
+   *
+   * @remarks
+   * After initialization, async singletons (and services depending on them)
+   * can be resolved with the synchronous `getService()`. `StruktosHost`
+   * calls this before starting any adapter.
+   *
+   * @example
+   * ```typescript
+   * const provider = services.buildServiceProvider();
+   * await provider.initialize(); // connects pools, brokers, ...
+   *
+   * const pool = provider.getService(DatabasePool);
+   * ```
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Describes every registration and the dependencies between them.
+   *
+   * @returns The registration graph
+   *
+   * @remarks
+   * Dependencies are read from constructor metadata and `@Inject()`
+   * properties of class registrations; factories are opaque. A node without
+   * dependents is either an entry point or an orphaned registration.
+   *
+   * @example
+   * ```typescript
+   * const graph = provider.getDependencyGraph();
+   * const duplicates = graph.nodes.filter((node) => node.duplicate);
+   * ```
+   */
+  getDependencyGraph(): DependencyGraph;
+
+  /**
+   * Renders the dependency graph as JSON, Graphviz DOT or Mermaid.
+   *
+   * @param format - Output format (default: 'json')
+   * @returns The rendered graph
+   *
+   * @example
+   * ```typescript
+   * writeFileSync('services.dot', provider.exportDependencyGraph('dot'));
+   * // dot -Tsvg services.dot -o services.svg
+   * ```
+   */
+  exportDependencyGraph(format?: DependencyGraphFormat): string;
 }
 
 /**
@@ -1944,6 +2167,55 @@ export interface IServiceScope {
   dispose(): void;
 }
 
+/**
+ * Injection points declared with `@Inject()` on a class.
+ *
+ * @internal
+ */
+export interface InjectionMetadata {
+  /**
+   * Explicit constructor parameter types, keyed by parameter index.
+   */
+  parameters: Map<number, ServiceIdentifier>;
+
+  /**
+   * Property injection points, keyed by property name.
+   */
+  properties: Map<string | symbol, ServiceIdentifier>;
+}
+
+const injectableScopes = new WeakMap<object, ServiceScope>();
+const injectionPoints = new WeakMap<object, InjectionMetadata>();
+
+function injectionMetadata(target: object): InjectionMetadata {
+  let metadata = injectionPoints.get(target);
+  if (!metadata) {
+    metadata = { parameters: new Map(), properties: new Map() };
+    injectionPoints.set(target, metadata);
+  }
+  return metadata;
+}
+
+/**
+ * Read the scope declared with `@Injectable()` on a class.
+ *
+ * @internal
+ */
+export function getInjectableScope(target: object): ServiceScope | undefined {
+  return injectableScopes.get(target);
+}
+
+/**
+ * Read the injection points declared with `@Inject()` on a class.
+ *
+ * @internal
+ */
+export function getInjectionMetadata(
+  target: object,
+): InjectionMetadata | undefined {
+  return injectionPoints.get(target);
+}
+
 /**
  * Decorator to mark a class as injectable with a specific lifecycle scope.
  *
@@ -2050,18 +2322,8 @@ export interface IServiceScope {
  * ```
  */
 export function Injectable(options: { scope: ServiceScope }): ClassDecorator {
-  // Prefix with underscore to indicate intentionally unused (TypeScript convention)
-  return function (_target: any) {
-    // Implementation would use Reflect.defineMetadata
-    // This is a placeholder for the interface documentation
-
-    // In real implementation:
-    // Reflect.defineMetadata('injectable:scope', options.scope, target);
-    // Reflect.defineMetadata('injectable:registered', true, target);
-
-    // For now, we just satisfy TypeScript's requirement for a ClassDecorator
-    // The actual DI container implementation will handle registration
-    void options; // Explicitly mark as intentionally unused
+  return function (target: any) {
+    injectableScopes.set(target, options.scope);
   };
 }
 
@@ -2069,7 +2331,7 @@ export function Injectable(options: { scope: ServiceScope }): ClassDecorator {
  * Decorator to inject a dependency into a constructor parameter or property.
  *
  * @template T - Service type
- * @param serviceType - The type (class) of the service to inject
+ * @param serviceType - The type (class) or token of the service to inject
  * @returns A parameter or property decorator
  *
  * @remarks
@@ -2197,32 +2459,54 @@ export function Injectable(options: { scope: ServiceScope }): ClassDecorator {
  * ```
  */
 export function Inject<T>(
-  serviceType: new (...args: any[]) => T,
-): ParameterDecorator | PropertyDecorator {
+  serviceType: ServiceIdentifier<T>,
+): (
+  target: any,
+  propertyKey?: string | symbol,
+  parameterIndex?: number,
+) => void {
   return function (
-    _target: any,
-    _propertyKey?: string | symbol,
-    _parameterIndex?: number,
+    target: any,
+    propertyKey?: string | symbol,
+    parameterIndex?: number,
   ) {
-    // Implementation uses Reflect.defineMetadata
-    // This is a placeholder for the interface documentation
-
-    // In real implementation:
-    // if (typeof parameterIndex === 'number') {
-    //   // Constructor parameter injection
-    //   const params = Reflect.getMetadata('injectable:parameters', target) || [];
-    //   params[parameterIndex] = serviceType;
-    //   Reflect.defineMetadata('injectable:parameters', params, target);
-    // } else {
-    //   // Property injection
-    //   Reflect.defineMetadata('injectable:property', serviceType, target, propertyKey!);
-    // }
-
-    // Explicitly mark as intentionally unused
-    void serviceType;
+    if (typeof parameterIndex === 'number') {
+      // Constructor parameter injection: target is the class itself
+      injectionMetadata(target).parameters.set(parameterIndex, serviceType);
+    } else if (propertyKey !== undefined) {
+      // Property injection: target is the class prototype
+      injectionMetadata(target.constructor).properties.set(
+        propertyKey,
+        serviceType,
+      );
+    }
   };
 }
 
+/**
+ * Key used to register and resolve a service.
+ *
+ * @template T - Service type
+ *
+ * @remarks
+ * Classes (including abstract classes) resolve by constructor injection when
+ * registered without an implementation. Strings and symbols are tokens for
+ * interfaces, which do not exist at runtime; they need an implementation
+ * type, factory or instance.
+ *
+ * @example
+ * ```typescript
+ * services.addScoped(UNIT_OF_WORK_TOKEN, PrismaUnitOfWork);
+ * services.addInstance('apiBaseUrl', 'https://api.example.com');
+ *
+ * const uow = provider.getService<IUnitOfWork>(UNIT_OF_WORK_TOKEN);
+ * ```
+ */
+export type ServiceIdentifier<T = any> =
+  | (abstract new (...args: any[]) => T)
+  | string
+  | symbol;
+
 /**
  * Factory function type for creating service instances.
  *
@@ -2358,6 +2642,102 @@ export interface ServiceRegistrationOptions {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Validation options for building a service provider.
+ *
+ * @remarks
+ * Validation walks constructor and `@Inject()` property dependencies of
+ * class registrations. Factories are opaque and are not inspected.
+ *
+ * @example Fail fast at startup
+ * ```typescript
+ * const provider = services.buildServiceProvider({
+ *   validateScopes: true,
+ *   validateOnBuild: true,
+ * });
+ * // DependencyResolutionError: Scope mismatch: Singleton service
+ * // 'CacheService' cannot depend on Scoped service 'DatabaseContext'
+ * //
+ * // CacheService (Singleton)
+ * // └─ DatabaseContext (Scoped) ← SCOPE MISMATCH
+ * ```
+ */
+export interface ServiceProviderOptions {
+  /**
+   * Reject singletons that depend, directly or through transients, on
+   * scoped services. Checked at build time and again on resolution, where
+   * resolving a scoped service from the root provider also fails.
+   *
+   * @defaultValue false
+   */
+  validateScopes?: boolean;
+
+  /**
+   * Check at build time that every dependency is registered and that no
+   * constructor dependency cycle exists.
+   *
+   * @defaultValue false
+   */
+  validateOnBuild?: boolean;
+}
+
+/**
+ * Output format for `exportDependencyGraph()`.
+ */
+export type DependencyGraphFormat = 'json' | 'dot' | 'mermaid';
+
+/**
+ * A single registration in the container's dependency graph.
+ */
+export interface DependencyGraphNode {
+  /**
+   * Unique node id: the service name, with a `#n` suffix for the n-th
+   * registration of the same service type.
+   */
+  id: string;
+
+  /** Service name (class name or token) */
+  service: string;
+
+  /** Registration name, for named registrations */
+  name?: string;
+
+  lifetime: ServiceScope;
+
+  /** How instances are produced */
+  kind: 'class' | 'factory' | 'instance';
+
+  /** Implementation class, for class registrations */
+  implementation?: string;
+
+  tags: string[];
+
+  /**
+   * Ids of the nodes this registration resolves. Unregistered dependencies
+   * are listed by service name.
+   */
+  dependencies: string[];
+
+  /** Ids of the nodes that depend on this registration */
+  dependents: string[];
+
+  /** Whether the service type has more than one registration */
+  duplicate: boolean;
+
+  /** Why the dependencies could not be read, if they could not */
+  error?: string;
+}
+
+/**
+ * The container's registrations and the dependencies between them.
+ */
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+
+  /** Services that are depended on but not registered */
+  unregistered: string[];
+}
+
 /**
  * Descriptor for a registered service in the DI container.
  *
@@ -2400,7 +2780,7 @@ export interface ServiceDescriptor<T = any> {
    * @remarks
    * This is the "key" used when resolving services.
    */
-  serviceType: new (...args: any[]) => T;
+  serviceType: ServiceIdentifier<T>;
 
   /**
    * The implementation type (concrete class).
@@ -2423,42 +2803,16 @@ export interface ServiceDescriptor<T = any> {
    */
   factory?: ServiceFactory<T>;
 
+  /**
+   * Pre-built instance returned on every resolution.
+   *
+   * @remarks
+   * Set by `addInstance()`; always a singleton and never disposed.
+   */
+  instance?: T;
+
   /**
    * Additional registration options.
    */
   options?: ServiceRegistrationOptions;
 }
-
-/**
- * ============================================================================
- * OPTIONAL: ADD THESE METHODS TO IServiceCollection INTERFACE
- * ============================================================================
- *
- * Only add these if you want factory-based registration support:
- */
-
-/*
-// In IServiceCollection interface, add these methods:
-
-addSingletonFactory<T>(
-  serviceType: new (...args: any[]) => T,
-  factory: ServiceFactory<T>,
-  options?: ServiceRegistrationOptions
-): this;
-
-addScopedFactory<T>(
-  serviceType: new (...args: any[]) => T,
-  factory: ServiceFactory<T>,
-  options?: ServiceRegistrationOptions
-): this;
-
-addTransientFactory<T>(
-  serviceType: new (...args: any[]) => T,
-  factory: ServiceFactory<T>,
-  options?: ServiceRegistrationOptions
-): this;
-
-getDescriptors(): ServiceDescriptor[];
-
-remove<T>(serviceType: new (...args: any[]) => T, name?: string): boolean;
-*/
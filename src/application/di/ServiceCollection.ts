@@ -0,0 +1,241 @@
+/**
+ * @struktos/core - Service Collection
+ *
+ * Default IServiceCollection implementation. Records service descriptors
+ * during application startup and builds a ServiceProvider from them.
+ *
+ * @module application/di/ServiceCollection
+ */
+
+import {
+  IServiceCollection,
+  IDIServiceProvider,
+  ServiceDescriptor,
+  ServiceFactory,
+  ServiceIdentifier,
+  ServiceProviderOptions,
+  ServiceRegistrationOptions,
+  ServiceScope,
+} from './IDependencyInjection';
+import { ServiceProvider } from './ServiceProvider';
+
+/**
+ * ServiceCollection - Registration phase of the DI container.
+ *
+ * Registrations are kept in order. When a service type is registered more
+ * than once, `getService()` returns the last registration and
+ * `getServices()` returns all of them.
+ *
+ * @example
+ * ```typescript
+ * import 'reflect-metadata';
+ *
+ * const services = new ServiceCollection()
+ *   .addSingleton(ConfigService)
+ *   .addScoped(UNIT_OF_WORK_TOKEN, PrismaUnitOfWork)
+ *   .addSingletonFactory(COMMAND_BUS_TOKEN, () => new CommandBus())
+ *   .addTransient(CreateUserHandler, CreateUserHandler, { tags: ['command'] });
+ *
+ * const provider = services.buildServiceProvider();
+ *
+ * const scope = provider.createScope();
+ * try {
+ *   const handler = scope.getServiceProvider().getService(CreateUserHandler);
+ * } finally {
+ *   scope.dispose();
+ * }
+ * ```
+ */
+export class ServiceCollection implements IServiceCollection {
+  protected readonly descriptors: ServiceDescriptor[] = [];
+
+  addSingleton<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType?: new (...args: any[]) => T,
+    options?: ServiceRegistrationOptions,
+  ): this {
+    return this.addType(
+      serviceType,
+      implementationType,
+      ServiceScope.Singleton,
+      options,
+    );
+  }
+
+  addTransient<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType?: new (...args: any[]) => T,
+    options?: ServiceRegistrationOptions,
+  ): this {
+    return this.addType(
+      serviceType,
+      implementationType,
+      ServiceScope.Transient,
+      options,
+    );
+  }
+
+  addScoped<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType?: new (...args: any[]) => T,
+    options?: ServiceRegistrationOptions,
+  ): this {
+    return this.addType(
+      serviceType,
+      implementationType,
+      ServiceScope.Scoped,
+      options,
+    );
+  }
+
+  addSingletonFactory<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+    options?: ServiceRegistrationOptions,
+  ): this {
+    return this.add({
+      serviceType,
+      scope: ServiceScope.Singleton,
+      factory,
+      options,
+    });
+  }
+
+  addScopedFactory<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+    options?: ServiceRegistrationOptions,
+  ): this {
+    return this.add({
+      serviceType,
+      scope: ServiceScope.Scoped,
+      factory,
+      options,
+    });
+  }
+
+  addTransientFactory<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+    options?: ServiceRegistrationOptions,
+  ): this {
+    return this.add({
+      serviceType,
+      scope: ServiceScope.Transient,
+      factory,
+      options,
+    });
+  }
+
+  addInstance<T>(
+    serviceType: ServiceIdentifier<T>,
+    instance: T,
+    options?: ServiceRegistrationOptions,
+  ): this {
+    if (instance === undefined || instance === null) {
+      const name =
+        typeof serviceType === 'function'
+          ? serviceType.name
+          : String(serviceType);
+      throw new Error(
+        `Instance registered for '${name}' is ${instance}; ` +
+          'use a factory registration for values created later.',
+      );
+    }
+
+    return this.add({
+      serviceType,
+      scope: ServiceScope.Singleton,
+      instance,
+      options,
+    });
+  }
+
+  getDescriptors(): ServiceDescriptor[] {
+    return [...this.descriptors];
+  }
+
+  remove<T>(serviceType: ServiceIdentifier<T>, name?: string): boolean {
+    let removed = false;
+    for (let i = this.descriptors.length - 1; i >= 0; i--) {
+      const descriptor = this.descriptors[i]!;
+      if (this.matches(descriptor, serviceType, name)) {
+        this.descriptors.splice(i, 1);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Build a root service provider from the current registrations.
+   *
+   * The provider takes a snapshot; later registrations do not affect it.
+   *
+   * @throws {DependencyResolutionError} If validation is enabled and fails
+   */
+  buildServiceProvider(options?: ServiceProviderOptions): IDIServiceProvider {
+    return new ServiceProvider([...this.descriptors], options);
+  }
+
+  // ==================== Helpers ====================
+
+  private addType<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType: (new (...args: any[]) => T) | undefined,
+    scope: ServiceScope,
+    options: ServiceRegistrationOptions | undefined,
+  ): this {
+    const implementation =
+      implementationType ??
+      (typeof serviceType === 'function'
+        ? (serviceType as new (...args: any[]) => T)
+        : undefined);
+
+    if (!implementation) {
+      throw new Error(
+        `Token '${String(serviceType)}' needs an implementation type; ` +
+          'use a factory or instance registration for values.',
+      );
+    }
+
+    return this.add({
+      serviceType,
+      implementationType: implementation,
+      scope,
+      options,
+    });
+  }
+
+  /**
+   * Apply tryAdd/replace semantics and record the descriptor.
+   */
+  private add(descriptor: ServiceDescriptor): this {
+    const { serviceType, options } = descriptor;
+
+    if (options?.tryAdd && this.isRegistered(serviceType, options.name)) {
+      return this;
+    }
+    if (options?.replace) {
+      this.remove(serviceType, options.name);
+    }
+
+    this.descriptors.push(descriptor);
+    return this;
+  }
+
+  private isRegistered(serviceType: ServiceIdentifier, name?: string): boolean {
+    return this.descriptors.some((d) => this.matches(d, serviceType, name));
+  }
+
+  private matches(
+    descriptor: ServiceDescriptor,
+    serviceType: ServiceIdentifier,
+    name?: string,
+  ): boolean {
+    return (
+      descriptor.serviceType === serviceType &&
+      (name === undefined || descriptor.options?.name === name)
+    );
+  }
+}
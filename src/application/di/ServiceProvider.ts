@@ -0,0 +1,853 @@
+/**
+ * @struktos/core - Service Provider
+ *
+ * Default IDIServiceProvider implementation. Resolves services registered in
+ * a ServiceCollection using constructor injection, caches instances by
+ * lifetime, and disposes owned instances when a scope ends.
+ *
+ * @module application/di/ServiceProvider
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  DependencyGraph,
+  DependencyGraphFormat,
+  DependencyGraphNode,
+  DependencyResolutionError,
+  IDIServiceProvider,
+  IServiceScope,
+  ServiceDescriptor,
+  ServiceIdentifier,
+  ServiceProviderOptions,
+  ServiceScope,
+  getInjectionMetadata,
+} from './IDependencyInjection';
+import { formatDependencyGraph } from './DependencyGraph';
+
+/**
+ * Concrete class constructed by the provider.
+ */
+type ServiceType = new (...args: any[]) => any;
+
+/**
+ * Resolution path of the current async resolution chain.
+ * Follows factories across awaits, so async cycles are reported
+ * instead of deadlocking.
+ */
+const asyncResolutionPath = new AsyncLocalStorage<ServiceIdentifier[]>();
+
+/**
+ * ServiceProvider - Resolution phase of the DI container.
+ *
+ * A root provider is created by `ServiceCollection.buildServiceProvider()`.
+ * Each call to `createScope()` creates a child provider that shares the
+ * root's singletons and keeps its own scoped instances.
+ *
+ * Constructor dependencies are discovered from `@Inject()` parameters and,
+ * when `reflect-metadata` is loaded and `emitDecoratorMetadata` is enabled,
+ * from the `design:paramtypes` metadata of decorated classes. Properties
+ * decorated with `@Inject()` are set after construction. Factories receive
+ * the provider that owns the instance: the root for singletons, the scope
+ * for scoped and transient services.
+ *
+ * Services with async factories are resolved with `getServiceAsync()`.
+ * Once `initialize()` has built the async singletons, they and everything
+ * depending on them can also be resolved with `getService()`.
+ *
+ * Scoped services resolved from the root provider live as long as the root.
+ *
+ * @example
+ * ```typescript
+ * services.addSingletonFactory(DatabasePool, async () => {
+ *   const pool = new DatabasePool(process.env.DATABASE_URL);
+ *   await pool.connect();
+ *   return pool;
+ * });
+ *
+ * const provider = services.buildServiceProvider();
+ * await provider.initialize();
+ *
+ * const scope = provider.createScope();
+ * try {
+ *   const uow = scope.getServiceProvider().getService<IUnitOfWork>(
+ *     UNIT_OF_WORK_TOKEN,
+ *   );
+ *   await uow.commit();
+ * } finally {
+ *   scope.dispose(); // disposes scoped and transient instances it created
+ * }
+ * ```
+ */
+export class ServiceProvider implements IDIServiceProvider {
+  private readonly registrations = new Map<
+    ServiceIdentifier,
+    ServiceDescriptor[]
+  >();
+  private readonly root: ServiceProvider;
+
+  /**
+   * Instances owned by this provider: singletons on the root,
+   * scoped instances on a scope.
+   */
+  private readonly instances = new Map<ServiceDescriptor, unknown>();
+
+  /**
+   * Owned instances whose async creation is in flight.
+   */
+  private readonly pending = new Map<ServiceDescriptor, Promise<unknown>>();
+
+  /**
+   * Disposable instances created by this provider, in creation order.
+   */
+  private readonly disposables: Array<{ name: string; instance: unknown }> = [];
+
+  /**
+   * Services currently under synchronous construction. Only the root's path
+   * is used, so cycles are caught across scopes and factory calls.
+   */
+  private readonly resolutionPath: ServiceIdentifier[] = [];
+
+  private disposed = false;
+
+  /**
+   * @param descriptors - Registered services, in registration order
+   * @param options - Validation options; only used by the root provider
+   * @param root - Root provider when creating a scope (internal use)
+   * @throws {DependencyResolutionError} If build-time validation fails
+   */
+  constructor(
+    private readonly descriptors: readonly ServiceDescriptor[],
+    private readonly options: ServiceProviderOptions = {},
+    root?: ServiceProvider,
+  ) {
+    for (const descriptor of descriptors) {
+      const existing = this.registrations.get(descriptor.serviceType);
+      if (existing) {
+        existing.push(descriptor);
+      } else {
+        this.registrations.set(descriptor.serviceType, [descriptor]);
+      }
+    }
+    this.root = root ?? this;
+
+    if (!root && (options.validateOnBuild || options.validateScopes)) {
+      this.validate();
+    }
+  }
+
+  getService<T>(serviceType: ServiceIdentifier<T>, name?: string): T {
+    this.assertNotDisposed();
+    return this.resolveIdentifier(serviceType, name) as T;
+  }
+
+  async getServiceAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    name?: string,
+  ): Promise<T> {
+    this.assertNotDisposed();
+    return (await this.resolveIdentifierAsync(serviceType, name)) as T;
+  }
+
+  getServices<T>(serviceType: ServiceIdentifier<T>): T[] {
+    this.assertNotDisposed();
+    const descriptors = this.registrations.get(serviceType) ?? [];
+    return descriptors.map((d) => this.resolveDescriptor(d) as T);
+  }
+
+  getServicesByTag<T = unknown>(tag: string): T[] {
+    this.assertNotDisposed();
+    return this.descriptors
+      .filter((d) => d.options?.tags?.includes(tag))
+      .map((d) => this.resolveDescriptor(d) as T);
+  }
+
+  /**
+   * Build every singleton registered with a factory, in registration order.
+   *
+   * Each factory awaits its own dependencies first, so singletons come up
+   * in dependency order. Safe to call more than once.
+   */
+  async initialize(): Promise<void> {
+    this.assertNotDisposed();
+    for (const descriptor of this.descriptors) {
+      if (descriptor.scope === ServiceScope.Singleton && descriptor.factory) {
+        await this.root.resolveDescriptorAsync(descriptor);
+      }
+    }
+  }
+
+  createScope(): IServiceScope {
+    this.assertNotDisposed();
+    return new ServiceProviderScope(
+      new ServiceProvider(this.descriptors, this.root.options, this.root),
+    );
+  }
+
+  /**
+   * Describe every registration, in registration order.
+   */
+  getDependencyGraph(): DependencyGraph {
+    const ids = new Map<ServiceDescriptor, string>();
+    for (const [serviceType, descriptors] of this.registrations) {
+      const service = describeService(serviceType);
+      descriptors.forEach((descriptor, index) =>
+        ids.set(descriptor, index === 0 ? service : `${service}#${index + 1}`),
+      );
+    }
+
+    const unregistered = new Set<string>();
+    const nodes = this.descriptors.map((descriptor): DependencyGraphNode => {
+      const { serviceType, implementationType, options } = descriptor;
+      const kind =
+        descriptor.instance !== undefined
+          ? 'instance'
+          : descriptor.factory
+            ? 'factory'
+            : 'class';
+      const node: DependencyGraphNode = {
+        id: ids.get(descriptor)!,
+        service: describeService(serviceType),
+        name: options?.name,
+        lifetime: descriptor.scope,
+        kind,
+        implementation: kind === 'class' ? implementationType?.name : undefined,
+        tags: [...(options?.tags ?? [])],
+        dependencies: [],
+        dependents: [],
+        duplicate: this.registrations.get(serviceType)!.length > 1,
+      };
+      if (kind !== 'class' || !implementationType) {
+        return node;
+      }
+
+      try {
+        const dependencies = new Set([
+          ...getConstructorDependencies(implementationType, [serviceType]),
+          ...getInjectedProperties(descriptor).values(),
+        ]);
+        for (const dependency of dependencies) {
+          const target = this.findDescriptor(dependency);
+          const id = target ? ids.get(target)! : describeService(dependency);
+          if (!target) {
+            unregistered.add(id);
+          }
+          node.dependencies.push(id);
+        }
+      } catch (error) {
+        node.error = (error as Error).message;
+      }
+      return node;
+    });
+
+    const byId = new Map(nodes.map((node) => [node.id, node]));
+    for (const node of nodes) {
+      for (const dependency of node.dependencies) {
+        byId.get(dependency)?.dependents.push(node.id);
+      }
+    }
+
+    return { nodes, unregistered: [...unregistered] };
+  }
+
+  exportDependencyGraph(format: DependencyGraphFormat = 'json'): string {
+    return formatDependencyGraph(this.getDependencyGraph(), format);
+  }
+
+  /**
+   * Check if a service type is registered.
+   */
+  isRegistered(serviceType: ServiceIdentifier, name?: string): boolean {
+    return this.findDescriptor(serviceType, name) !== undefined;
+  }
+
+  /**
+   * Dispose every instance this provider owns, newest first.
+   *
+   * Errors thrown by `dispose()` are logged and never rethrown.
+   * Further resolution from this provider fails.
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+
+    for (const { name, instance } of [...this.disposables].reverse()) {
+      try {
+        const result = (instance as { dispose: () => unknown }).dispose();
+        if (result instanceof Promise) {
+          result.catch((error) => this.reportDisposeError(name, error));
+        }
+      } catch (error) {
+        this.reportDisposeError(name, error);
+      }
+    }
+
+    this.disposables.length = 0;
+    this.instances.clear();
+  }
+
+  // ==================== Resolution ====================
+
+  private resolveIdentifier(
+    serviceType: ServiceIdentifier,
+    name?: string,
+  ): unknown {
+    const path = this.root.resolutionPath;
+    if (path.includes(serviceType)) {
+      throw circularError(path, serviceType);
+    }
+    return this.resolveDescriptor(
+      this.requireDescriptor(serviceType, name, path),
+    );
+  }
+
+  private resolveDescriptor(descriptor: ServiceDescriptor): unknown {
+    if (descriptor.instance !== undefined) {
+      return descriptor.instance;
+    }
+
+    const { serviceType } = descriptor;
+    const path = this.root.resolutionPath;
+    if (path.includes(serviceType)) {
+      throw circularError(path, serviceType);
+    }
+
+    this.assertScope(descriptor, path);
+
+    const owner = this.getOwner(descriptor);
+    if (owner?.instances.has(descriptor)) {
+      return owner.instances.get(descriptor);
+    }
+    if (owner?.pending.has(descriptor)) {
+      throw asyncFactoryError(path, serviceType);
+    }
+
+    // Singletons resolve their dependencies from the root provider
+    const creator = owner ?? this;
+    const instance = creator.withinPath(serviceType, () =>
+      creator.create(descriptor),
+    );
+
+    if (owner) {
+      owner.instances.set(descriptor, instance);
+      // Cached instances may be reached again through their own properties
+      creator.injectProperties(descriptor, instance);
+    } else {
+      creator.withinPath(serviceType, () =>
+        creator.injectProperties(descriptor, instance),
+      );
+    }
+    creator.track(descriptor, instance);
+
+    return instance;
+  }
+
+  private withinPath<R>(serviceType: ServiceIdentifier, callback: () => R): R {
+    const path = this.root.resolutionPath;
+    path.push(serviceType);
+    try {
+      return callback();
+    } finally {
+      path.pop();
+    }
+  }
+
+  private create(descriptor: ServiceDescriptor): unknown {
+    if (!descriptor.factory) {
+      return this.construct(descriptor.implementationType as ServiceType);
+    }
+
+    const instance = descriptor.factory(this);
+    if (instance instanceof Promise) {
+      // The result is never observed; keep a rejection from going unhandled
+      instance.catch(() => undefined);
+      throw asyncFactoryError(
+        this.root.resolutionPath.slice(0, -1),
+        descriptor.serviceType,
+      );
+    }
+    return instance;
+  }
+
+  private construct(implementation: ServiceType): unknown {
+    const path = this.root.resolutionPath;
+    const args = getConstructorDependencies(implementation, path).map(
+      (dependency) => this.resolveIdentifier(dependency),
+    );
+    return new implementation(...args);
+  }
+
+  private injectProperties(
+    descriptor: ServiceDescriptor,
+    instance: unknown,
+  ): void {
+    for (const [key, dependency] of getInjectedProperties(descriptor)) {
+      (instance as Record<string | symbol, unknown>)[key] =
+        this.resolveIdentifier(dependency);
+    }
+  }
+
+  // ==================== Async Resolution ====================
+
+  private async resolveIdentifierAsync(
+    serviceType: ServiceIdentifier,
+    name?: string,
+  ): Promise<unknown> {
+    const path = asyncResolutionPath.getStore() ?? [];
+    if (path.includes(serviceType)) {
+      throw circularError(path, serviceType);
+    }
+    return this.resolveDescriptorAsync(
+      this.requireDescriptor(serviceType, name, path),
+    );
+  }
+
+  private async resolveDescriptorAsync(
+    descriptor: ServiceDescriptor,
+  ): Promise<unknown> {
+    if (descriptor.instance !== undefined) {
+      return descriptor.instance;
+    }
+
+    const { serviceType } = descriptor;
+    const path = asyncResolutionPath.getStore() ?? [];
+    if (path.includes(serviceType)) {
+      throw circularError(path, serviceType);
+    }
+
+    this.assertScope(descriptor, path);
+
+    const owner = this.getOwner(descriptor);
+    if (owner?.instances.has(descriptor)) {
+      return owner.instances.get(descriptor);
+    }
+    const inFlight = owner?.pending.get(descriptor);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const creator = owner ?? this;
+    const creation = (async () => {
+      const instance = await asyncResolutionPath.run(
+        [...path, serviceType],
+        () => creator.createAsync(descriptor),
+      );
+
+      if (owner) {
+        owner.instances.set(descriptor, instance);
+        await creator.injectPropertiesAsync(descriptor, instance);
+      } else {
+        await asyncResolutionPath.run([...path, serviceType], () =>
+          creator.injectPropertiesAsync(descriptor, instance),
+        );
+      }
+      creator.track(descriptor, instance);
+
+      return instance;
+    })();
+
+    if (!owner) {
+      return creation;
+    }
+
+    owner.pending.set(descriptor, creation);
+    try {
+      return await creation;
+    } finally {
+      owner.pending.delete(descriptor);
+    }
+  }
+
+  private async createAsync(descriptor: ServiceDescriptor): Promise<unknown> {
+    if (descriptor.factory) {
+      return descriptor.factory(this);
+    }
+
+    const implementation = descriptor.implementationType as ServiceType;
+    const path = asyncResolutionPath.getStore() ?? [];
+    const args: unknown[] = [];
+    for (const dependency of getConstructorDependencies(implementation, path)) {
+      args.push(await this.resolveIdentifierAsync(dependency));
+    }
+    return new implementation(...args);
+  }
+
+  private async injectPropertiesAsync(
+    descriptor: ServiceDescriptor,
+    instance: unknown,
+  ): Promise<void> {
+    for (const [key, dependency] of getInjectedProperties(descriptor)) {
+      (instance as Record<string | symbol, unknown>)[key] =
+        await this.resolveIdentifierAsync(dependency);
+    }
+  }
+
+  // ==================== Registrations ====================
+
+  private requireDescriptor(
+    serviceType: ServiceIdentifier,
+    name: string | undefined,
+    path: ServiceIdentifier[],
+  ): ServiceDescriptor {
+    const descriptor = this.findDescriptor(serviceType, name);
+    if (descriptor) {
+      return descriptor;
+    }
+
+    const requiredBy = path[path.length - 1];
+    const label =
+      describeService(serviceType) + (name ? ` (name: '${name}')` : '');
+    throw new DependencyResolutionError(
+      `Service '${label}' is not registered` +
+        (requiredBy ? ` (required by '${describeService(requiredBy)}')` : '') +
+        '. Did you forget to register it on the ServiceCollection?',
+      buildGraph(path, `${label} (UNREGISTERED)`),
+    );
+  }
+
+  private findDescriptor(
+    serviceType: ServiceIdentifier,
+    name?: string,
+  ): ServiceDescriptor | undefined {
+    const descriptors = this.registrations.get(serviceType) ?? [];
+    for (let i = descriptors.length - 1; i >= 0; i--) {
+      const descriptor = descriptors[i]!;
+      if (name === undefined || descriptor.options?.name === name) {
+        return descriptor;
+      }
+    }
+    return undefined;
+  }
+
+  private getOwner(descriptor: ServiceDescriptor): ServiceProvider | null {
+    switch (descriptor.scope) {
+      case ServiceScope.Singleton:
+        return this.root;
+      case ServiceScope.Scoped:
+        return this;
+      default:
+        return null;
+    }
+  }
+
+  // ==================== Validation ====================
+
+  /**
+   * Reject a scoped service resolved by the root provider, which is how
+   * singletons (and the root itself) would capture it.
+   */
+  private assertScope(
+    descriptor: ServiceDescriptor,
+    path: ServiceIdentifier[],
+  ): void {
+    if (
+      !this.root.options.validateScopes ||
+      descriptor.scope !== ServiceScope.Scoped ||
+      this !== this.root
+    ) {
+      return;
+    }
+
+    const chain = path.map((id) => this.findDescriptor(id));
+    const captor = [...chain]
+      .reverse()
+      .find((d) => d?.scope === ServiceScope.Singleton);
+    const name = describeService(descriptor.serviceType);
+
+    throw new DependencyResolutionError(
+      captor
+        ? scopeMismatchMessage(captor, descriptor)
+        : `Scoped service '${name}' cannot be resolved from the root ` +
+            'provider. Resolve it from provider.createScope() instead.',
+      buildGraph(
+        chain.map((d, i) => (d ? describeLifetime(d) : path[i]!)),
+        `${describeLifetime(descriptor)} ← SCOPE MISMATCH`,
+      ),
+    );
+  }
+
+  /**
+   * Walk the constructor and property graph of every class registration.
+   * Factory and instance registrations are opaque and are not walked.
+   */
+  private validate(): void {
+    const validated = new Map<ServiceDescriptor, boolean>();
+    for (const descriptor of this.descriptors) {
+      this.validateDescriptor(descriptor, [], [], validated);
+    }
+  }
+
+  /**
+   * @param chain - Descriptors leading to this one
+   * @param constructing - Services on the chain since the last property
+   *                       edge; only a cycle within these cannot be built
+   * @param validated - Descriptors already walked, and whether that walk was
+   *                    under a singleton (which covers the non-singleton case)
+   */
+  private validateDescriptor(
+    descriptor: ServiceDescriptor,
+    chain: ServiceDescriptor[],
+    constructing: ServiceIdentifier[],
+    validated: Map<ServiceDescriptor, boolean>,
+  ): void {
+    const implementation = descriptor.implementationType;
+    if (!implementation || descriptor.factory) {
+      return;
+    }
+
+    const current = [...chain, descriptor];
+    const captor = [...current]
+      .reverse()
+      .find((d) => d.scope === ServiceScope.Singleton);
+    const seen = validated.get(descriptor);
+    if (seen === true || (seen === false && !captor)) {
+      return;
+    }
+
+    const path = current.map((d) => d.serviceType);
+    const dependencies = [
+      ...getConstructorDependencies(implementation, path).map((id) => ({
+        id,
+        viaProperty: false,
+      })),
+      ...[...getInjectedProperties(descriptor).values()].map((id) => ({
+        id,
+        viaProperty: true,
+      })),
+    ];
+
+    const building = [...constructing, descriptor.serviceType];
+
+    for (const { id, viaProperty } of dependencies) {
+      if (!viaProperty && building.includes(id)) {
+        if (this.options.validateOnBuild) {
+          throw circularError(building, id);
+        }
+        continue;
+      }
+      if (path.includes(id)) {
+        // Property injection is the supported way to break a cycle
+        continue;
+      }
+
+      const dependency = this.findDescriptor(id);
+      if (!dependency) {
+        if (this.options.validateOnBuild) {
+          this.requireDescriptor(id, undefined, path);
+        }
+        continue;
+      }
+
+      if (
+        this.options.validateScopes &&
+        captor &&
+        dependency.scope === ServiceScope.Scoped
+      ) {
+        throw new DependencyResolutionError(
+          scopeMismatchMessage(captor, dependency),
+          buildGraph(
+            current.map(describeLifetime),
+            `${describeLifetime(dependency)} ← SCOPE MISMATCH`,
+          ),
+        );
+      }
+
+      this.validateDescriptor(
+        dependency,
+        current,
+        viaProperty ? [] : building,
+        validated,
+      );
+    }
+
+    validated.set(descriptor, captor !== undefined);
+  }
+
+  // ==================== Disposal ====================
+
+  private track(descriptor: ServiceDescriptor, instance: unknown): void {
+    if (
+      instance &&
+      typeof (instance as { dispose?: unknown }).dispose === 'function'
+    ) {
+      this.disposables.push({
+        name: describeService(descriptor.serviceType),
+        instance,
+      });
+    }
+  }
+
+  private reportDisposeError(name: string, error: unknown): void {
+    console.error(`[ServiceProvider] Failed to dispose '${name}':`, error);
+  }
+
+  private assertNotDisposed(): void {
+    if (this.disposed) {
+      throw new DependencyResolutionError(
+        'Cannot resolve services from a disposed service provider',
+      );
+    }
+  }
+}
+
+/**
+ * IServiceScope backed by a child ServiceProvider.
+ */
+class ServiceProviderScope implements IServiceScope {
+  constructor(private readonly provider: ServiceProvider) {}
+
+  getServiceProvider(): IDIServiceProvider {
+    return this.provider;
+  }
+
+  dispose(): void {
+    this.provider.dispose();
+  }
+}
+
+/**
+ * Collect constructor parameter types from `design:paramtypes` metadata,
+ * overridden by explicit `@Inject()` parameters.
+ *
+ * @param path - Resolution path ending at the class, for error graphs
+ */
+function getConstructorDependencies(
+  target: ServiceType,
+  path: ServiceIdentifier[],
+): ServiceIdentifier[] {
+  const reflect = Reflect as unknown as {
+    getMetadata?: (key: string, target: object) => unknown;
+  };
+  const designTypes = reflect.getMetadata?.('design:paramtypes', target);
+  const designed: ServiceIdentifier[] = Array.isArray(designTypes)
+    ? designTypes
+    : [];
+  const explicit =
+    getInjectionMetadata(target)?.parameters ??
+    new Map<number, ServiceIdentifier>();
+
+  const length = Math.max(
+    designed.length,
+    ...[...explicit.keys()].map((i) => i + 1),
+  );
+
+  if (length < target.length) {
+    throw new DependencyResolutionError(
+      `Cannot determine the constructor dependencies of ` +
+        `'${target.name}'. Import 'reflect-metadata', enable ` +
+        `emitDecoratorMetadata and decorate the class with @Injectable(), ` +
+        `or use @Inject() on each parameter.`,
+      buildGraph(path.slice(0, -1), `${target.name} (UNRESOLVABLE)`),
+    );
+  }
+
+  return Array.from({ length }, (_, index) => {
+    const dependency = explicit.get(index) ?? designed[index];
+    if (dependency === undefined || dependency === Object) {
+      throw new DependencyResolutionError(
+        `Cannot resolve parameter #${index} of '${target.name}'. ` +
+          `Interface types are erased at runtime; use @Inject() with a ` +
+          `class or token.`,
+        buildGraph(path, `parameter #${index} (UNRESOLVABLE)`),
+      );
+    }
+    return dependency;
+  });
+}
+
+/**
+ * Properties decorated with `@Inject()` on the implementation class.
+ */
+function getInjectedProperties(
+  descriptor: ServiceDescriptor,
+): Map<string | symbol, ServiceIdentifier> {
+  const implementation = descriptor.implementationType;
+  return (
+    (implementation && getInjectionMetadata(implementation)?.properties) ??
+    new Map()
+  );
+}
+
+function circularError(
+  path: ServiceIdentifier[],
+  serviceType: ServiceIdentifier,
+): DependencyResolutionError {
+  const cycle = [...path, serviceType].map(describeService).join(' → ');
+  return new DependencyResolutionError(
+    `Circular dependency detected: ${cycle}. ` +
+      'Consider using property injection to break the cycle.',
+    buildGraph(path, `${describeService(serviceType)} (CIRCULAR!)`),
+  );
+}
+
+function asyncFactoryError(
+  path: ServiceIdentifier[],
+  serviceType: ServiceIdentifier,
+): DependencyResolutionError {
+  const name = describeService(serviceType);
+  return new DependencyResolutionError(
+    `Service '${name}' has an async factory and cannot be resolved ` +
+      'synchronously. Use getServiceAsync(), or await initialize() on the ' +
+      'provider before resolving it.',
+    buildGraph(path, `${name} (ASYNC)`),
+  );
+}
+
+/**
+ * Render a resolution path as a tree ending at the failing service.
+ *
+ * @example
+ * ```
+ * UserController
+ * └─ UserService
+ *    └─ IConfig (UNREGISTERED)
+ * ```
+ */
+function buildGraph(path: ServiceIdentifier[], failure: string): string {
+  const names = [...path.map(describeService), failure];
+  return names
+    .map((name, depth) =>
+      depth === 0 ? name : `${'   '.repeat(depth - 1)}└─ ${name}`,
+    )
+    .join('\n');
+}
+
+const LIFETIME_LABELS: Record<ServiceScope, string> = {
+  [ServiceScope.Singleton]: 'Singleton',
+  [ServiceScope.Scoped]: 'Scoped',
+  [ServiceScope.Transient]: 'Transient',
+};
+
+function scopeMismatchMessage(
+  captor: ServiceDescriptor,
+  dependency: ServiceDescriptor,
+): string {
+  return (
+    `Scope mismatch: ${LIFETIME_LABELS[captor.scope]} service ` +
+    `'${describeService(captor.serviceType)}' cannot depend on ` +
+    `${LIFETIME_LABELS[dependency.scope]} service ` +
+    `'${describeService(dependency.serviceType)}'. ` +
+    'The scoped instance would be captured for the lifetime of the ' +
+    'application; make the consumer scoped or resolve the dependency from a ' +
+    'scope at call time.'
+  );
+}
+
+/**
+ * Service name with its lifetime, e.g. `CacheService (Singleton)`.
+ */
+function describeLifetime(descriptor: ServiceDescriptor): string {
+  const name = describeService(descriptor.serviceType);
+  return `${name} (${LIFETIME_LABELS[descriptor.scope]})`;
+}
+
+/**
+ * Readable name for a class or token.
+ */
+function describeService(serviceType: ServiceIdentifier): string {
+  if (typeof serviceType === 'function') {
+    return serviceType.name;
+  }
+  return typeof serviceType === 'symbol' ? serviceType.toString() : serviceType;
+}
@@ -21,6 +21,14 @@ export type {
   IServiceScope,
 } from './IDependencyInjection';
 
+// ============================================================================
+// Container Implementation
+// ============================================================================
+
+export { ServiceCollection } from './ServiceCollection';
+export { ServiceProvider } from './ServiceProvider';
+export { formatDependencyGraph } from './DependencyGraph';
+
 // ============================================================================
 // Advanced Types (if implemented)
 // ============================================================================
@@ -62,6 +70,18 @@ export type { ServiceDescriptor } from './IDependencyInjection';
  */
 export type { ServiceFactory } from './IDependencyInjection';
 
+/**
+ * Class or string/symbol token used as a service key.
+ *
+ * @example
+ * ```typescript
+ * import { ServiceIdentifier } from '@struktos/core/application/di';
+ *
+ * const token: ServiceIdentifier<IUnitOfWork> = UNIT_OF_WORK_TOKEN;
+ * ```
+ */
+export type { ServiceIdentifier } from './IDependencyInjection';
+
 /**
  * Additional options for service registration.
  *
@@ -84,6 +104,39 @@ export type { ServiceFactory } from './IDependencyInjection';
  */
 export type { ServiceRegistrationOptions } from './IDependencyInjection';
 
+/**
+ * Validation options for `buildServiceProvider()`.
+ *
+ * @example
+ * ```typescript
+ * import { ServiceProviderOptions } from '@struktos/core/application/di';
+ *
+ * const options: ServiceProviderOptions = {
+ *   validateScopes: true,
+ *   validateOnBuild: process.env.NODE_ENV !== 'production',
+ * };
+ *
+ * const provider = services.buildServiceProvider(options);
+ * ```
+ */
+export type { ServiceProviderOptions } from './IDependencyInjection';
+
+/**
+ * Registration graph returned by `getDependencyGraph()`.
+ *
+ * @example
+ * ```typescript
+ * const orphans = provider
+ *   .getDependencyGraph()
+ *   .nodes.filter((node) => node.dependents.length === 0);
+ * ```
+ */
+export type {
+  DependencyGraph,
+  DependencyGraphNode,
+  DependencyGraphFormat,
+} from './IDependencyInjection';
+
 // ============================================================================
 // Enums
 // ============================================================================
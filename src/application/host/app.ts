@@ -27,6 +27,17 @@ import {
   ILogger,
   consoleLogger,
 } from './host';
+import {
+  IDIServiceProvider,
+  IServiceCollection,
+  ServiceProviderOptions,
+} from '../di/IDependencyInjection';
+import { ServiceCollection } from '../di/ServiceCollection';
+import {
+  ModuleConfigurationError,
+  ModuleLoader,
+  ModuleReference,
+} from './module';
 
 /**
  * Application builder options
@@ -222,6 +233,9 @@ export class StruktosApp<T extends StruktosContextData = StruktosContextData> {
     const actualPort = port ?? this.options.port ?? 3000;
     const actualHost = host ?? this.options.host ?? '0.0.0.0';
 
+    // Build async singletons before the adapter can serve requests
+    await this.options.serviceProvider?.initialize();
+
     // Initialize adapter with middleware pipeline
     await adapter.init(this.buildPipeline());
 
@@ -259,6 +273,7 @@ export class StruktosApp<T extends StruktosContextData = StruktosContextData> {
       gracefulShutdown: this.options.gracefulShutdown,
       shutdownTimeout: this.options.shutdownTimeout,
       logger: this.logger,
+      serviceProvider: this.options.serviceProvider,
     });
 
     // Build pipeline
@@ -311,6 +326,11 @@ export class StruktosApp<T extends StruktosContextData = StruktosContextData> {
   private buildPipeline(): IStruktosMiddleware<T>[] {
     const pipeline: IStruktosMiddleware<T>[] = [];
 
+    // Open a DI scope around everything else, including exception filters
+    if (this.options.serviceProvider) {
+      pipeline.push(this.createScopeMiddleware(this.options.serviceProvider));
+    }
+
     // Add timing middleware if enabled
     if (this.options.includeTimings !== false) {
       pipeline.push(this.createTimingMiddleware());
@@ -325,6 +345,24 @@ export class StruktosApp<T extends StruktosContextData = StruktosContextData> {
     return pipeline;
   }
 
+  /**
+   * Create middleware that gives each request its own service scope
+   */
+  private createScopeMiddleware(
+    provider: IDIServiceProvider,
+  ): IStruktosMiddleware<T> {
+    return createMiddleware<T>(async (ctx, next) => {
+      const scope = provider.createScope();
+      ctx.services = scope.getServiceProvider();
+      ctx.context.set('services', ctx.services as T['services']);
+      try {
+        await next();
+      } finally {
+        scope.dispose();
+      }
+    });
+  }
+
   /**
    * Create timing middleware
    */
@@ -395,6 +433,16 @@ export class StruktosApp<T extends StruktosContextData = StruktosContextData> {
 
 /**
  * StruktosAppBuilder - Fluent builder for StruktosApp
+ *
+ * @example
+ * ```typescript
+ * const app = createAppBuilder()
+ *   .withName('shop')
+ *   .configureServices((services) => services.addSingleton(Clock))
+ *   .addModule(OrdersModule)
+ *   .addModule(ShippingModule)
+ *   .build();
+ * ```
  */
 export class StruktosAppBuilder<
   T extends StruktosContextData = StruktosContextData,
@@ -404,6 +452,10 @@ export class StruktosAppBuilder<
     [];
   private filters: IExceptionFilter<T>[] = [];
   private services: IBackgroundService[] = [];
+  private modules: ModuleReference<T>[] = [];
+  private serviceConfigurators: Array<(services: IServiceCollection) => void> =
+    [];
+  private providerOptions?: ServiceProviderOptions;
 
   /**
    * Set application name
@@ -446,6 +498,38 @@ export class StruktosAppBuilder<
     return this;
   }
 
+  /**
+   * Set the root service provider
+   */
+  withServiceProvider(provider: IDIServiceProvider): this {
+    this.options.serviceProvider = provider;
+    return this;
+  }
+
+  /**
+   * Register application-wide services, visible to every module
+   */
+  configureServices(configure: (services: IServiceCollection) => void): this {
+    this.serviceConfigurators.push(configure);
+    return this;
+  }
+
+  /**
+   * Set validation options for the service provider built from modules
+   */
+  withServiceProviderOptions(options: ServiceProviderOptions): this {
+    this.providerOptions = options;
+    return this;
+  }
+
+  /**
+   * Add a module and, transitively, the modules it imports
+   */
+  addModule(module: ModuleReference<T>): this {
+    this.modules.push(module);
+    return this;
+  }
+
   /**
    * Add middleware
    */
@@ -472,9 +556,41 @@ export class StruktosAppBuilder<
 
   /**
    * Build the application
+   *
+   * With modules or `configureServices()`, a service provider is built from
+   * a fresh ServiceCollection and module handlers are registered on the
+   * command and query buses. Module middleware runs after middleware added
+   * directly to the builder, in module dependency order.
+   *
+   * @throws {ModuleConfigurationError} If modules cannot be composed
    */
   build(): StruktosApp<T> {
-    const app = StruktosApp.create<T>(this.options);
+    const options = { ...this.options };
+    const composesServices =
+      this.modules.length > 0 || this.serviceConfigurators.length > 0;
+    const loader = new ModuleLoader<T>(this.modules);
+
+    if (composesServices) {
+      if (options.serviceProvider) {
+        throw new ModuleConfigurationError(
+          'withServiceProvider() cannot be combined with addModule() or ' +
+            'configureServices(); register services through those instead.',
+        );
+      }
+
+      const services = new ServiceCollection();
+      for (const configure of this.serviceConfigurators) {
+        configure(services);
+      }
+      loader.configureServices(services);
+
+      const provider = services.buildServiceProvider(this.providerOptions);
+      loader.validate(services, provider);
+      loader.registerHandlers(provider);
+      options.serviceProvider = provider;
+    }
+
+    const app = StruktosApp.create<T>(options);
 
     for (const middleware of this.middlewares) {
       app.use(middleware);
@@ -488,6 +604,8 @@ export class StruktosAppBuilder<
       app.addService(service);
     }
 
+    loader.configurePipeline(app);
+
     return app;
   }
 }
@@ -7,6 +7,7 @@
 
 import { StruktosContextData } from '../../domain/context';
 import { IAdapter, ServerInfo } from '../ports/adapter';
+import { IDIServiceProvider } from '../di/IDependencyInjection';
 
 /**
  * Host configuration options
@@ -29,6 +30,12 @@ export interface HostOptions {
 
   /** Custom logger */
   logger?: ILogger;
+
+  /**
+   * Root service provider. Its async singletons are initialized
+   * before any adapter starts.
+   */
+  serviceProvider?: IDIServiceProvider;
 }
 
 /**
@@ -192,11 +199,15 @@ export abstract class BackgroundServiceBase implements IBackgroundService {
    */
   protected async delay(ms: number, signal: AbortSignal): Promise<void> {
     return new Promise((resolve, reject) => {
-      const timeout = setTimeout(resolve, ms);
-      signal.addEventListener('abort', () => {
+      const onAbort = () => {
         clearTimeout(timeout);
         reject(new Error('Aborted'));
-      });
+      };
+      const timeout = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
     });
   }
 }
@@ -290,6 +301,12 @@ export class StruktosHost<
         this.setupGracefulShutdown();
       }
 
+      // Build async singletons before anything can resolve them
+      if (this.options.serviceProvider) {
+        this.logger.info('Initializing services');
+        await this.options.serviceProvider.initialize();
+      }
+
       // Call onStart hook
       await this.onStart?.();
 
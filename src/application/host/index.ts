@@ -46,3 +46,13 @@ export {
 } from './app';
 
 export type { StruktosAppOptions } from './app';
+
+// Modules
+export { ModuleLoader, ModuleConfigurationError } from './module';
+
+export type {
+  IModule,
+  IModulePipelineBuilder,
+  ModuleReference,
+  HandlerRegistration,
+} from './module';
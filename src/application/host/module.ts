@@ -0,0 +1,366 @@
+/**
+ * @struktos/core - Application Modules
+ *
+ * Modules group the service registrations, middleware and CQRS handlers of
+ * one bounded context, so an application is composed from modules instead
+ * of one large bootstrap file.
+ */
+
+import { StruktosContextData } from '../../domain/context';
+import { IExceptionFilter } from '../../domain/exceptions/exceptions';
+import {
+  IStruktosMiddleware,
+  MiddlewareFunction,
+} from '../../infrastructure/platform/middleware';
+import { HandlerMetadata, HandlerScanner } from '../cqrs';
+import { addHandlerService } from '../cqrs/HandlerScanner';
+import {
+  IDIServiceProvider,
+  IServiceCollection,
+  ServiceDescriptor,
+  ServiceIdentifier,
+} from '../di';
+import { IBackgroundService } from './host';
+
+/**
+ * A module class (instantiated without arguments) or module instance.
+ */
+export type ModuleReference<
+  T extends StruktosContextData = StruktosContextData,
+> = IModule<T> | (new () => IModule<T>);
+
+/**
+ * Maps a command or query type to the handler class that executes it.
+ */
+export interface HandlerRegistration {
+  /** Message type name or class */
+  type: HandlerMetadata['handlerFor'];
+
+  /**
+   * Handler class. Registered with its `@Injectable()` lifetime, or as a
+   * transient service, unless the module registers it itself. Resolved
+   * per message from the request's service scope, or from a scope created
+   * for the message.
+   */
+  handler: HandlerMetadata['handlerClass'];
+}
+
+/**
+ * Pipeline configuration available to modules.
+ *
+ * Implemented by both `StruktosApp` and `StruktosAppBuilder`.
+ */
+export interface IModulePipelineBuilder<
+  T extends StruktosContextData = StruktosContextData,
+> {
+  use(middleware: IStruktosMiddleware<T> | MiddlewareFunction<T>): this;
+  useExceptionFilter(filter: IExceptionFilter<T>): this;
+  addService(service: IBackgroundService): this;
+}
+
+/**
+ * IModule - A self-contained slice of the application.
+ *
+ * Services registered by a module are private to it unless listed in
+ * `exports`. A module can depend on another module's exported services
+ * after adding that module to `imports`. Services registered outside any
+ * module are visible everywhere.
+ *
+ * @example
+ * ```typescript
+ * class OrdersModule implements IModule {
+ *   imports = [BillingModule];
+ *   exports = [OrderRepository];
+ *   commandHandlers = [
+ *     { type: CreateOrderCommand, handler: CreateOrderHandler },
+ *   ];
+ *   handlers = [GetOrderHandler]; // decorated with @QueryHandler()
+ *
+ *   configureServices(services: IServiceCollection): void {
+ *     services.addScoped(OrderRepository, PrismaOrderRepository);
+ *   }
+ *
+ *   configurePipeline(app: IModulePipelineBuilder): void {
+ *     app.useExceptionFilter(new OrderExceptionFilter());
+ *   }
+ * }
+ *
+ * const app = createAppBuilder().addModule(OrdersModule).build();
+ * ```
+ */
+export interface IModule<T extends StruktosContextData = StruktosContextData> {
+  /** Module name used in errors (default: class name) */
+  readonly name?: string;
+
+  /** Modules whose exports this module uses; loaded first */
+  readonly imports?: ModuleReference<T>[];
+
+  /**
+   * Services other modules may depend on. A module may also re-export
+   * services exported by its imports.
+   */
+  readonly exports?: ServiceIdentifier[];
+
+  /** Command handlers registered on the command bus */
+  readonly commandHandlers?: HandlerRegistration[];
+
+  /** Query handlers registered on the query bus */
+  readonly queryHandlers?: HandlerRegistration[];
+
+  /** Classes decorated with `@CommandHandler()` or `@QueryHandler()` */
+  readonly handlers?: HandlerMetadata['handlerClass'][];
+
+  /**
+   * Register the module's services.
+   */
+  configureServices?(services: IServiceCollection): void;
+
+  /**
+   * Add the module's middleware, exception filters and background services.
+   */
+  configurePipeline?(app: IModulePipelineBuilder<T>): void;
+}
+
+/**
+ * Error thrown when modules cannot be composed: circular imports, invalid
+ * exports, or dependencies on services another module does not export.
+ */
+export class ModuleConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModuleConfigurationError';
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, ModuleConfigurationError.prototype);
+  }
+}
+
+/**
+ * A module with its resolved imports.
+ */
+interface LoadedModule<T extends StruktosContextData> {
+  name: string;
+  module: IModule<T>;
+  imports: LoadedModule<T>[];
+  registered: Set<ServiceIdentifier>;
+}
+
+/**
+ * ModuleLoader - Applies modules in dependency order.
+ *
+ * Each module is loaded once, however many modules import it. Imports are
+ * loaded before the modules importing them.
+ *
+ * @example
+ * ```typescript
+ * const loader = new ModuleLoader([OrdersModule, ShippingModule]);
+ * const services = new ServiceCollection();
+ *
+ * loader.configureServices(services);
+ * const provider = services.buildServiceProvider();
+ * loader.validate(services, provider);
+ * loader.registerHandlers(provider);
+ * loader.configurePipeline(app);
+ * ```
+ */
+export class ModuleLoader<T extends StruktosContextData = StruktosContextData> {
+  /** Modules in dependency order */
+  private readonly modules: LoadedModule<T>[] = [];
+  private readonly loaded = new Map<ModuleReference<T>, LoadedModule<T>>();
+  private readonly owners = new Map<ServiceDescriptor, LoadedModule<T>>();
+  private readonly scanner: HandlerScanner;
+
+  /**
+   * @throws {ModuleConfigurationError} If modules import each other in a cycle
+   * @throws {DuplicateHandlerError} If two modules handle the same message
+   */
+  constructor(modules: ModuleReference<T>[]) {
+    for (const reference of modules) {
+      this.load(reference, []);
+    }
+    this.scanner = new HandlerScanner(
+      this.modules.flatMap(({ module }) => this.handlersOf(module)),
+    );
+  }
+
+  /**
+   * Names of the loaded modules, in dependency order.
+   */
+  get moduleNames(): string[] {
+    return this.modules.map((m) => m.name);
+  }
+
+  /**
+   * Let every module register its services and handlers, then register the
+   * default buses when handlers need them.
+   *
+   * @throws {ModuleConfigurationError} If a module exports a service it
+   *         neither registers nor imports
+   */
+  configureServices(services: IServiceCollection): void {
+    for (const loaded of this.modules) {
+      const before = new Set(services.getDescriptors());
+      const { module } = loaded;
+
+      module.configureServices?.(services);
+      for (const { handlerClass } of this.handlersOf(module)) {
+        addHandlerService(services, handlerClass);
+      }
+
+      for (const descriptor of services.getDescriptors()) {
+        if (!before.has(descriptor)) {
+          this.owners.set(descriptor, loaded);
+          loaded.registered.add(descriptor.serviceType);
+        }
+      }
+      this.assertExports(loaded);
+    }
+
+    this.scanner.configureServices(services);
+  }
+
+  /**
+   * Check that services only depend on services their module can see.
+   *
+   * @param services - The collection the provider was built from
+   * @throws {ModuleConfigurationError} On a dependency that is not exported
+   *         by the owning module or whose module is not imported
+   */
+  validate(services: IServiceCollection, provider: IDIServiceProvider): void {
+    const descriptors = services.getDescriptors();
+    const { nodes } = provider.getDependencyGraph();
+    const byId = new Map(nodes.map((node, i) => [node.id, descriptors[i]!]));
+
+    nodes.forEach((node, index) => {
+      const consumer = this.owners.get(descriptors[index]!);
+      if (!consumer) {
+        return;
+      }
+
+      for (const dependencyId of node.dependencies) {
+        const dependency = byId.get(dependencyId);
+        const owner = dependency && this.owners.get(dependency);
+        if (!owner || owner === consumer) {
+          continue;
+        }
+
+        const { serviceType } = dependency;
+        const visible = consumer.imports.some((imported) =>
+          this.exportsOf(imported).includes(serviceType),
+        );
+        if (!visible) {
+          throw new ModuleConfigurationError(
+            `Service '${node.service}' in module '${consumer.name}' depends ` +
+              `on '${dependencyId}', which is private to module ` +
+              `'${owner.name}'. Export it from '${owner.name}' and import ` +
+              `'${owner.name}' into '${consumer.name}'.`,
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Register every module's handlers on the buses from the provider.
+   *
+   * @throws {Error} If a bus already has a handler for one of the types
+   */
+  registerHandlers(provider: IDIServiceProvider): void {
+    this.scanner.registerHandlers(provider);
+  }
+
+  /**
+   * Let every module add middleware, exception filters and background
+   * services.
+   */
+  configurePipeline(app: IModulePipelineBuilder<T>): void {
+    for (const { module } of this.modules) {
+      module.configurePipeline?.(app);
+    }
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * Depth-first load, adding each module after its imports.
+   */
+  private load(
+    reference: ModuleReference<T>,
+    path: ModuleReference<T>[],
+  ): LoadedModule<T> {
+    const existing = this.loaded.get(reference);
+    if (existing) {
+      return existing;
+    }
+    if (path.includes(reference)) {
+      const cycle = [...path, reference].map(describeModule).join(' → ');
+      throw new ModuleConfigurationError(
+        `Circular module import detected: ${cycle}`,
+      );
+    }
+
+    const module =
+      typeof reference === 'function' ? new reference() : reference;
+    const imports = (module.imports ?? []).map((imported) =>
+      this.load(imported, [...path, reference]),
+    );
+
+    const loaded: LoadedModule<T> = {
+      name: module.name ?? describeModule(reference),
+      module,
+      imports,
+      registered: new Set(),
+    };
+    this.loaded.set(reference, loaded);
+    this.modules.push(loaded);
+    return loaded;
+  }
+
+  private assertExports(loaded: LoadedModule<T>): void {
+    for (const exported of loaded.module.exports ?? []) {
+      const available =
+        loaded.registered.has(exported) ||
+        loaded.imports.some((i) => this.exportsOf(i).includes(exported));
+      if (!available) {
+        throw new ModuleConfigurationError(
+          `Module '${loaded.name}' exports '${describeIdentifier(exported)}', ` +
+            'which it neither registers nor imports.',
+        );
+      }
+    }
+  }
+
+  private exportsOf(loaded: LoadedModule<T>): ServiceIdentifier[] {
+    return [...(loaded.module.exports ?? [])];
+  }
+
+  private handlersOf(module: IModule<T>): HandlerMetadata[] {
+    const registered = (
+      type: HandlerMetadata['type'],
+      registrations: HandlerRegistration[] = [],
+    ) =>
+      registrations.map(({ type: handlerFor, handler }) => ({
+        handlerFor,
+        type,
+        handlerClass: handler,
+      }));
+
+    return [
+      ...registered('command', module.commandHandlers),
+      ...registered('query', module.queryHandlers),
+      ...new HandlerScanner(module.handlers ?? []).getHandlers(),
+    ];
+  }
+}
+
+function describeModule(reference: ModuleReference<any>): string {
+  return typeof reference === 'function'
+    ? reference.name
+    : (reference.name ?? reference.constructor.name);
+}
+
+function describeIdentifier(identifier: ServiceIdentifier): string {
+  return typeof identifier === 'function'
+    ? identifier.name
+    : String(identifier);
+}
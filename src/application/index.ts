@@ -35,7 +35,7 @@ export * from './host';
  *   Injectable,
  *   Inject,
  *   IServiceCollection,
- *   IServiceProvider
+ *   IDIServiceProvider
  * } from '@struktos/core/application';
  *
  * @Injectable({ scope: ServiceScope.Singleton })
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview CausationContext - Correlation and causation propagation
+ *
+ * @packageDocumentation
+ * @module @struktos/core/domain/context
+ *
+ * Tracks which message (command, query or event) is being handled in the
+ * current async call chain. Messages created or dispatched while another
+ * message is handled are linked to it:
+ *
+ * - `correlationId` is shared by every message of a request. It comes from
+ *   the parent message, else the RequestContext's `correlationId` or
+ *   `traceId`, else the root message's own ID.
+ * - `causationId` is the ID of the parent message. Root messages take the
+ *   RequestContext's `causationId`, if any.
+ *
+ * @example
+ * ```typescript
+ * // Inside a command handler, the bus has opened a scope for the command
+ * const event = { eventName: 'OrderPlaced', metadata: { eventId }, payload };
+ * CausationContext.link(event.metadata, eventId);
+ *
+ * event.metadata.correlationId; // The request's correlation ID
+ * event.metadata.causationId;   // The command's commandId
+ * ```
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestContext } from './RequestContext';
+
+/**
+ * The message being handled in the current async call chain.
+ */
+export interface CausationScope {
+  /** Correlation ID shared by every message of the request */
+  correlationId: string;
+
+  /** ID of the message being handled */
+  messageId: string;
+}
+
+/**
+ * Metadata fields filled in by `CausationContext.link()`.
+ */
+export interface CausationMetadata {
+  correlationId?: string;
+  causationId?: string;
+}
+
+/**
+ * CausationContext - AsyncLocalStorage scope of the message being handled.
+ */
+export class CausationContext {
+  /**
+   * Scope storage, shared like RequestContext's.
+   *
+   * @private
+   * @static
+   */
+  private static als = new AsyncLocalStorage<CausationScope>();
+
+  /**
+   * Get the message being handled, if any.
+   */
+  static current(): CausationScope | undefined {
+    return CausationContext.als.getStore();
+  }
+
+  /**
+   * Run a callback while handling a message. Messages linked inside the
+   * callback become children of `scope.messageId`.
+   */
+  static run<R>(scope: CausationScope, callback: () => R): R {
+    return CausationContext.als.run(scope, callback);
+  }
+
+  /**
+   * Fill in missing `correlationId` and `causationId` of a message from the
+   * current scope and request context.
+   *
+   * Values already set are kept.
+   *
+   * @param metadata - Message metadata, updated in place
+   * @param messageId - ID of the message the metadata belongs to
+   * @returns The scope to use while handling the message
+   */
+  static link(metadata: CausationMetadata, messageId: string): CausationScope {
+    const parent = CausationContext.current();
+    const context = RequestContext.current();
+
+    metadata.correlationId ??=
+      parent?.correlationId ??
+      (context?.get('correlationId') as string | undefined) ??
+      (context?.get('traceId') as string | undefined) ??
+      messageId;
+
+    if (metadata.causationId === undefined) {
+      const causationId =
+        parent?.messageId ??
+        (context?.get('causationId') as string | undefined);
+      if (causationId !== messageId) {
+        metadata.causationId = causationId;
+      }
+    }
+
+    return { correlationId: metadata.correlationId, messageId };
+  }
+}
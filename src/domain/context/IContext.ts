@@ -413,6 +413,17 @@ export interface IContext<T = any> {
    */
   onCancel(callback: () => void): void;
 
+  /**
+   * Remove a callback registered with `onCancel()`, for listeners that
+   * outlive their interest in the context.
+   *
+   * Optional, so existing implementations keep compiling; callers use
+   * `context.offCancel?.(callback)`.
+   *
+   * @param callback - The callback passed to `onCancel()`
+   */
+  offCancel?(callback: () => void): void;
+
   /**
    * Cancel the context and invoke all registered callbacks.
    *
@@ -892,6 +903,21 @@ export interface StruktosContextData {
    */
   claims?: Array<{ type: string; value: string }>;
 
+  /**
+   * Idempotency key sent by the client.
+   *
+   * @remarks
+   * Set by `IdempotencyKeyMiddleware` from the `Idempotency-Key` header.
+   * The CommandBus uses it to return the stored result when a request is
+   * retried, instead of executing its commands again.
+   *
+   * @example
+   * ```typescript
+   * idempotencyKey: '8e03978e-40d5-43e8-bc93-6894a57f9324'
+   * ```
+   */
+  idempotencyKey?: string;
+
   /**
    * Index signature to allow custom properties.
    *
@@ -827,6 +827,15 @@ export class RequestContext<
     }
   }
 
+  /**
+   * Remove a callback registered with `onCancel()`.
+   *
+   * {@inheritDoc IContext.offCancel}
+   */
+  offCancel(callback: () => void): void {
+    this.store.cancelCallbacks.delete(callback);
+  }
+
   /**
    * Cancel the context and invoke all registered callbacks.
    *
@@ -15,3 +15,5 @@ export {
   tryGetCurrentContext,
   RequireContext,
 } from './RequestContext';
+export { CausationContext } from './CausationContext';
+export type { CausationScope, CausationMetadata } from './CausationContext';
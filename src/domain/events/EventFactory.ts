@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Typed domain event creators
+ *
+ * @packageDocumentation
+ * @module @struktos/core/domain/events
+ *
+ * `defineEvent()` declares an event once, by name and payload type, and
+ * returns a creator that builds complete `IDomainEvent`s: the metadata is
+ * stamped from the active RequestContext instead of being filled by hand.
+ *
+ * @example
+ * ```typescript
+ * interface OrderPlacedPayload {
+ *   orderId: string;
+ *   total: number;
+ * }
+ *
+ * export const OrderPlaced = defineEvent<OrderPlacedPayload>('order.placed');
+ *
+ * class Order extends AggregateRoot {
+ *   place(): void {
+ *     this.raiseEvent(OrderPlaced, { orderId: this.id, total: this.total });
+ *   }
+ * }
+ *
+ * // In a handler subscribed to several events
+ * if (OrderPlaced.is(event)) {
+ *   event.payload.total; // number
+ * }
+ * ```
+ */
+
+import { CausationContext } from '../context/CausationContext';
+import { RequestContext } from '../context/RequestContext';
+import type { EventMetadata, IDomainEvent } from './IDomainEvent';
+
+/**
+ * RequestContext keys copied to `EventMetadata.context`.
+ */
+const CONTEXT_KEYS = ['requestId', 'tenantId'] as const;
+
+/**
+ * Domain event built by an EventCreator.
+ */
+export interface TypedDomainEvent<
+  TPayload,
+  TName extends string = string,
+> extends IDomainEvent<TPayload> {
+  readonly eventName: TName;
+}
+
+/**
+ * Creates domain events of one name and payload type.
+ *
+ * Call it with a payload to build an event; `metadata` overrides the
+ * stamped values.
+ */
+export interface EventCreator<TPayload, TName extends string = string> {
+  (
+    payload: TPayload,
+    metadata?: Partial<EventMetadata>,
+  ): TypedDomainEvent<TPayload, TName>;
+
+  /** Name of the events this creator builds */
+  readonly eventName: TName;
+
+  /** Schema version of the payloads this creator builds */
+  readonly version: number;
+
+  /**
+   * Type guard for events with this creator's name.
+   */
+  is(event: IDomainEvent): event is TypedDomainEvent<TPayload, TName>;
+}
+
+/**
+ * Options for defineEvent().
+ */
+export interface DefineEventOptions {
+  /**
+   * Current schema version of the payload (default: 1). Register upcasters
+   * from older versions in an `EventUpcasterRegistry`.
+   */
+  version?: number;
+}
+
+/**
+ * Define a domain event and get its creator.
+ *
+ * Created events get:
+ * - `eventId`: a new unique ID
+ * - `occurredAt`: the current time
+ * - `correlationId` / `causationId`: linked as by `CausationContext.link()`,
+ *   so the correlation ID is the request's `traceId` unless a message being
+ *   handled already carries one
+ * - `actorId`: the RequestContext's `userId`
+ * - `context`: the RequestContext's `requestId` and `tenantId`, when set
+ * - `version`: `options.version`, 1 by default
+ *
+ * @param eventName - Event name, e.g. `'order.placed'`
+ * @param options - Schema version of the payload
+ */
+export function defineEvent<TPayload, TName extends string = string>(
+  eventName: TName,
+  options: DefineEventOptions = {},
+): EventCreator<TPayload, TName> {
+  const version = options.version ?? 1;
+  const create = (
+    payload: TPayload,
+    metadata: Partial<EventMetadata> = {},
+  ): TypedDomainEvent<TPayload, TName> => ({
+    eventName,
+    metadata: createEventMetadata(metadata),
+    payload,
+    version,
+  });
+
+  return Object.assign(create, {
+    eventName,
+    version,
+    is: (event: IDomainEvent): event is TypedDomainEvent<TPayload, TName> =>
+      event.eventName === eventName,
+  });
+}
+
+/**
+ * Build event metadata from the active RequestContext.
+ *
+ * @param overrides - Values that take precedence over the stamped ones
+ */
+export function createEventMetadata(
+  overrides: Partial<EventMetadata> = {},
+): EventMetadata {
+  const context = RequestContext.current();
+  const metadata: EventMetadata = {
+    eventId: generateEventId(),
+    occurredAt: new Date().toISOString(),
+    ...overrides,
+  };
+
+  CausationContext.link(metadata, metadata.eventId);
+  metadata.actorId ??= context?.get('userId');
+
+  const values = CONTEXT_KEYS.flatMap((key) => {
+    const value = context?.get(key);
+    return value === undefined ? [] : [[key, value] as const];
+  });
+  if (values.length > 0 || metadata.context) {
+    metadata.context = { ...Object.fromEntries(values), ...metadata.context };
+  }
+
+  return metadata;
+}
+
+function generateEventId(): string {
+  return `evt-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
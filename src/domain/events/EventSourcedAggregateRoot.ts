@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Event-sourced aggregate base class
+ *
+ * @packageDocumentation
+ * @module @struktos/core/domain/events
+ *
+ * An event-sourced aggregate keeps no state of its own in storage: its
+ * state is the result of applying its events in order. Raising an event
+ * applies it immediately and records it as uncommitted; loading replays
+ * the stored history through the same apply handlers.
+ *
+ * @example
+ * ```typescript
+ * const OrderPlaced = defineEvent<{ orderId: string }>('order.placed');
+ * const OrderShipped = defineEvent<{ orderId: string }>('order.shipped');
+ *
+ * class Order extends EventSourcedAggregateRoot {
+ *   id = '';
+ *   status: 'new' | 'placed' | 'shipped' = 'new';
+ *
+ *   constructor() {
+ *     super();
+ *     this.on(OrderPlaced, ({ orderId }) => {
+ *       this.id = orderId;
+ *       this.status = 'placed';
+ *     });
+ *     this.on(OrderShipped, () => {
+ *       this.status = 'shipped';
+ *     });
+ *   }
+ *
+ *   ship(): void {
+ *     if (this.status !== 'placed') {
+ *       throw new ConflictException('Only placed orders can be shipped');
+ *     }
+ *     this.raiseEvent(OrderShipped, { orderId: this.id });
+ *   }
+ * }
+ *
+ * const order = new Order();
+ * order.loadFromHistory(await eventStore.readStream(orderId));
+ * order.assertVersion(command.expectedVersion);
+ * order.ship();
+ * ```
+ */
+
+import { ConflictException } from '../exceptions/exceptions';
+import type { EventCreator } from './EventFactory';
+import { AggregateRoot } from './IDomainEvent';
+import type { EventMetadata, IDomainEvent } from './IDomainEvent';
+import type { AggregateSnapshot } from './ISnapshotStore';
+
+/**
+ * Applies the payload of an event to an aggregate's state.
+ */
+export type EventApplier<TPayload = any> = (
+  payload: TPayload,
+  event: IDomainEvent<TPayload>,
+) => void;
+
+/**
+ * ConcurrencyException - Thrown when an aggregate or event stream is not
+ * at the version the caller expected, because it changed in the meantime.
+ */
+export class ConcurrencyException extends ConflictException {
+  /** Version the caller expected */
+  public readonly expectedVersion: number;
+
+  /** Version found */
+  public readonly actualVersion: number;
+
+  constructor(expectedVersion: number, actualVersion: number, subject = '') {
+    super(
+      `Expected ${subject ? `'${subject}' ` : ''}at version ` +
+        `${expectedVersion}, but it is at version ${actualVersion}`,
+      { expectedVersion, actualVersion },
+    );
+    this.name = 'ConcurrencyException';
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, ConcurrencyException.prototype);
+  }
+}
+
+/**
+ * EventSourcedAggregateRoot - Aggregate whose state is rebuilt from its
+ * events.
+ *
+ * - `version` counts every applied event, committed or not
+ * - `committedVersion` counts the events loaded from or saved to storage,
+ *   and is the version to expect when appending the uncommitted events
+ * - `uncommittedEvents` are the events raised since then
+ *
+ * Events without an apply handler are recorded and counted but do not
+ * change state.
+ *
+ * Aggregates with long streams can support snapshots by implementing
+ * `toSnapshot()` and `fromSnapshot()`, and increasing
+ * `snapshotSchemaVersion` whenever the snapshot state changes shape.
+ */
+export abstract class EventSourcedAggregateRoot extends AggregateRoot {
+  private readonly appliers = new Map<string, EventApplier>();
+  private _version = 0;
+  private _committedVersion = 0;
+
+  /**
+   * Schema version of the state returned by `toSnapshot()`. Increase it
+   * when that state changes shape, so older snapshots are ignored.
+   */
+  protected readonly snapshotSchemaVersion: number = 1;
+
+  /**
+   * State to snapshot, as plain JSON. Not implemented by default, which
+   * disables snapshots for the aggregate.
+   */
+  protected toSnapshot?(): unknown;
+
+  /**
+   * Restore the state returned by `toSnapshot()`.
+   */
+  protected fromSnapshot?(state: any): void;
+
+  /**
+   * Number of events applied, including uncommitted ones.
+   */
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Number of events loaded from or saved to storage.
+   */
+  get committedVersion(): number {
+    return this._committedVersion;
+  }
+
+  /**
+   * Events raised since the aggregate was loaded or last committed.
+   */
+  get uncommittedEvents(): readonly IDomainEvent[] {
+    return this.domainEvents;
+  }
+
+  /**
+   * Rebuild state by applying stored events in order, after the restored
+   * snapshot if any.
+   *
+   * @throws {Error} If the aggregate has uncommitted events
+   */
+  loadFromHistory(events: Iterable<IDomainEvent>): void {
+    if (this.domainEvents.length > 0) {
+      throw new Error(
+        `${this.constructor.name} has uncommitted events and cannot load history`,
+      );
+    }
+    for (const event of events) {
+      this.applyEvent(event);
+    }
+    this._committedVersion = this._version;
+  }
+
+  /**
+   * Take a snapshot of the committed state.
+   *
+   * @returns The snapshot, or undefined if the aggregate does not support
+   * snapshots
+   * @throws {Error} If the aggregate has uncommitted events
+   */
+  createSnapshot(): AggregateSnapshot | undefined {
+    if (!this.toSnapshot) {
+      return undefined;
+    }
+    if (this.domainEvents.length > 0) {
+      throw new Error(
+        `${this.constructor.name} has uncommitted events and cannot be snapshotted`,
+      );
+    }
+    return {
+      version: this._committedVersion,
+      schemaVersion: this.snapshotSchemaVersion,
+      state: JSON.parse(JSON.stringify(this.toSnapshot())),
+    };
+  }
+
+  /**
+   * Restore the state of a snapshot into a new aggregate. Events after
+   * `snapshot.version` are then applied with `loadFromHistory()`.
+   *
+   * @returns false, leaving the aggregate untouched, if snapshots are not
+   * supported or the snapshot has another schema version
+   * @throws {Error} If events were already applied to the aggregate
+   */
+  restoreSnapshot(snapshot: AggregateSnapshot): boolean {
+    if (this._version > 0) {
+      throw new Error(
+        `${this.constructor.name} already has events and cannot restore a snapshot`,
+      );
+    }
+    if (
+      !this.fromSnapshot ||
+      snapshot.schemaVersion !== this.snapshotSchemaVersion
+    ) {
+      return false;
+    }
+    this.fromSnapshot(snapshot.state);
+    this._version = snapshot.version;
+    this._committedVersion = snapshot.version;
+    return true;
+  }
+
+  /**
+   * Mark the uncommitted events as saved: they are cleared and
+   * `committedVersion` catches up with `version`.
+   */
+  markEventsCommitted(): void {
+    this._committedVersion = this._version;
+    super.clearEvents();
+  }
+
+  /**
+   * Same as `markEventsCommitted()`, so units of work that clear events
+   * after committing keep the versions consistent. After a rollback,
+   * reload the aggregate instead of reusing it.
+   */
+  clearEvents(): void {
+    this.markEventsCommitted();
+  }
+
+  /**
+   * Check the committed version against the one the caller last read.
+   *
+   * @throws {ConcurrencyException} If the versions differ
+   */
+  assertVersion(expectedVersion: number): void {
+    if (expectedVersion !== this._committedVersion) {
+      throw new ConcurrencyException(
+        expectedVersion,
+        this._committedVersion,
+        this.constructor.name,
+      );
+    }
+  }
+
+  /**
+   * Register the handler that applies events with this name.
+   *
+   * @throws {Error} If a handler is already registered for the event
+   */
+  protected on<TPayload>(
+    event: string | EventCreator<TPayload>,
+    applier: EventApplier<TPayload>,
+  ): void {
+    const eventName = typeof event === 'string' ? event : event.eventName;
+    if (this.appliers.has(eventName)) {
+      throw new Error(
+        `${this.constructor.name} already applies '${eventName}' events`,
+      );
+    }
+    this.appliers.set(eventName, applier);
+  }
+
+  /**
+   * Apply an event to the state and record it as uncommitted.
+   *
+   * The event is recorded only if applying it succeeded.
+   */
+  protected raiseEvent(event: IDomainEvent): void;
+  protected raiseEvent<TPayload>(
+    creator: EventCreator<TPayload>,
+    payload: TPayload,
+    metadata?: Partial<EventMetadata>,
+  ): void;
+  protected raiseEvent<TPayload>(
+    eventOrCreator: IDomainEvent | EventCreator<TPayload>,
+    payload?: TPayload,
+    metadata?: Partial<EventMetadata>,
+  ): void {
+    const event =
+      typeof eventOrCreator === 'function'
+        ? eventOrCreator(payload as TPayload, metadata)
+        : eventOrCreator;
+    this.applyEvent(event);
+    super.raiseEvent(event);
+  }
+
+  private applyEvent(event: IDomainEvent): void {
+    this.appliers.get(event.eventName)?.(event.payload, event);
+    this._version++;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Event schema versioning and upcasting
+ *
+ * @packageDocumentation
+ * @module @struktos/core/domain/events
+ *
+ * Stored and queued events outlive the code that raised them. Each event
+ * carries the schema `version` of its payload, and an upcaster converts a
+ * payload from one version to the next. Readers upcast events step by step
+ * to the latest version before handlers see them.
+ *
+ * @example
+ * ```typescript
+ * const upcasters = new EventUpcasterRegistry()
+ *   // v1 had a single `name`
+ *   .register('user.registered', 1, (payload) => {
+ *     const [firstName, lastName = ''] = payload.name.split(' ');
+ *     return { email: payload.email, firstName, lastName };
+ *   })
+ *   // v2 had no locale
+ *   .register('user.registered', 2, (payload) => ({ ...payload, locale: 'en' }));
+ *
+ * const eventBus = new InMemoryEventBus({ upcasters });
+ * ```
+ */
+
+import type { IDomainEvent } from './IDomainEvent';
+
+/**
+ * Converts an event payload from one schema version to the next.
+ *
+ * @param payload - Payload at the version the upcaster is registered for
+ * @param event - The whole event, for metadata-dependent conversions
+ * @returns Payload at the next version
+ */
+export type EventUpcaster<TFrom = any, TTo = any> = (
+  payload: TFrom,
+  event: IDomainEvent<TFrom>,
+) => TTo;
+
+/**
+ * Error thrown when an event cannot be upcast to the latest version.
+ */
+export class EventUpcastError extends Error {
+  /** Name of the event */
+  public readonly eventName: string;
+
+  /** Version the upcast could not start from */
+  public readonly version: number;
+
+  constructor(eventName: string, version: number, message: string) {
+    super(`Cannot upcast '${eventName}' from version ${version}: ${message}`);
+    this.name = 'EventUpcastError';
+    this.eventName = eventName;
+    this.version = version;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, EventUpcastError.prototype);
+  }
+}
+
+/**
+ * EventUpcasterRegistry - Upcasters by event name and source version.
+ *
+ * The latest version of an event is one past the highest version with a
+ * registered upcaster, or 1 when there is none.
+ */
+export class EventUpcasterRegistry {
+  private readonly upcasters = new Map<string, Map<number, EventUpcaster>>();
+
+  /**
+   * Register the upcaster from `fromVersion` to `fromVersion + 1`.
+   *
+   * @throws {Error} If an upcaster is already registered for the version
+   */
+  register<TFrom = any, TTo = any>(
+    eventName: string,
+    fromVersion: number,
+    upcaster: EventUpcaster<TFrom, TTo>,
+  ): this {
+    if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+      throw new Error(
+        `Event versions start at 1, got ${fromVersion} for '${eventName}'`,
+      );
+    }
+
+    let versions = this.upcasters.get(eventName);
+    if (!versions) {
+      versions = new Map();
+      this.upcasters.set(eventName, versions);
+    }
+    if (versions.has(fromVersion)) {
+      throw new Error(
+        `An upcaster is already registered for '${eventName}' version ${fromVersion}`,
+      );
+    }
+    versions.set(fromVersion, upcaster);
+    return this;
+  }
+
+  /**
+   * Latest schema version of an event.
+   */
+  latestVersion(eventName: string): number {
+    const versions = this.upcasters.get(eventName);
+    return versions ? Math.max(...versions.keys()) + 1 : 1;
+  }
+
+  /**
+   * Upcast an event to its latest version.
+   *
+   * Returns the event itself when it is already at the latest version,
+   * otherwise a copy with the converted payload and the latest version.
+   * The metadata object is shared with the original event.
+   *
+   * @throws {EventUpcastError} If an upcaster in the chain is missing or
+   * fails, or the event is newer than the latest version
+   */
+  upcast<T extends IDomainEvent>(event: T): T {
+    const latest = this.latestVersion(event.eventName);
+    const version = event.version ?? 1;
+    if (version === latest) {
+      return event;
+    }
+    if (version > latest) {
+      throw new EventUpcastError(
+        event.eventName,
+        version,
+        `the latest known version is ${latest}`,
+      );
+    }
+
+    const versions = this.upcasters.get(event.eventName)!;
+    let current: IDomainEvent = event;
+    for (let from = version; from < latest; from++) {
+      const upcaster = versions.get(from);
+      if (!upcaster) {
+        throw new EventUpcastError(
+          event.eventName,
+          from,
+          'no upcaster is registered',
+        );
+      }
+
+      let payload: unknown;
+      try {
+        payload = upcaster(current.payload, current);
+      } catch (error) {
+        throw new EventUpcastError(
+          event.eventName,
+          from,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+      current = { ...current, payload, version: from + 1 };
+    }
+    return current as T;
+  }
+}
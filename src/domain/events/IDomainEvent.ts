@@ -257,6 +257,9 @@
  * @version 1.0.0
  */
 
+import { CausationContext } from '../context/CausationContext';
+import type { EventCreator } from './EventFactory';
+
 /**
  * Interface representing the metadata common to all domain events.
  *
@@ -508,6 +511,16 @@ export interface EventMetadata {
    */
   correlationId?: string;
 
+  /**
+   * Optional ID of the command or event that caused this event.
+   *
+   * @remarks
+   * Set by `AggregateRoot.raiseEvent()` to the ID of the message being
+   * handled (see `CausationContext`). Together with `correlationId`, it
+   * lets the messages of a request be rebuilt into a causal tree.
+   */
+  causationId?: string;
+
   /**
    * Optional user or actor ID who triggered the event.
    *
@@ -912,6 +925,18 @@ export interface IDomainEvent<TPayload = any> {
    * ```
    */
   readonly payload: TPayload;
+
+  /**
+   * Schema version of the payload, starting at 1 (the default when
+   * omitted).
+   *
+   * @remarks
+   * Increment it when the payload shape changes and register an upcaster
+   * from the previous version in an `EventUpcasterRegistry`. Event buses
+   * and event stores configured with the registry upcast older events, so
+   * handlers only see the latest shape.
+   */
+  readonly version?: number;
 }
 
 /**
@@ -2106,13 +2131,16 @@ export abstract class AggregateRoot implements IEventRaisingEntity {
   /**
    * Raise a domain event from this aggregate.
    *
-   * @param event - The domain event to raise
+   * @param event - The domain event to raise, or an `EventCreator` from
+   * `defineEvent()` followed by the payload
    *
    * @remarks
    * **Important:**
    * - Events are stored internally, NOT published immediately
    * - Events will be published by infrastructure layer after transaction commit
    * - This maintains domain purity (no infrastructure dependencies)
+   * - Missing `correlationId` / `causationId` are filled in from the
+   *   message being handled (see `CausationContext`)
    *
    * **Event Lifecycle:**
    * ```
@@ -2143,9 +2171,29 @@ export abstract class AggregateRoot implements IEventRaisingEntity {
    *     );
    *   }
    * }
+   *
+   * // With a creator from defineEvent()
+   * this.raiseEvent(OrderCancelled, { orderId: this.id, reason });
    * ```
    */
-  protected raiseEvent(event: IDomainEvent): void {
+  protected raiseEvent(event: IDomainEvent): void;
+  protected raiseEvent<TPayload>(
+    creator: EventCreator<TPayload>,
+    payload: TPayload,
+    metadata?: Partial<EventMetadata>,
+  ): void;
+  protected raiseEvent<TPayload>(
+    eventOrCreator: IDomainEvent | EventCreator<TPayload>,
+    payload?: TPayload,
+    metadata?: Partial<EventMetadata>,
+  ): void {
+    const event =
+      typeof eventOrCreator === 'function'
+        ? eventOrCreator(payload as TPayload, metadata)
+        : eventOrCreator;
+    if (event.metadata) {
+      CausationContext.link(event.metadata, event.metadata.eventId);
+    }
     this._domainEvents.push(event);
   }
 
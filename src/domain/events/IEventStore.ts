@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Event store abstraction
+ *
+ * @packageDocumentation
+ * @module @struktos/core/domain/events
+ *
+ * An event store persists domain events as append-only streams, one per
+ * aggregate, and as one global log ordered by position. It is the storage
+ * behind `EventSourcedAggregateRoot`: appending with the aggregate's
+ * `committedVersion` as the expected version makes concurrent changes to
+ * the same aggregate fail with a `ConcurrencyException`.
+ *
+ * @example
+ * ```typescript
+ * const order = new Order();
+ * order.loadFromHistory(await eventStore.readStream(`order-${orderId}`));
+ *
+ * order.ship();
+ *
+ * await eventStore.appendToStream(
+ *   `order-${orderId}`,
+ *   order.committedVersion,
+ *   order.uncommittedEvents,
+ * );
+ * order.markEventsCommitted();
+ * ```
+ */
+
+import type { IDomainEvent } from './IDomainEvent';
+
+/**
+ * A domain event as stored in an event store.
+ */
+export interface StoredEvent<TPayload = any> extends IDomainEvent<TPayload> {
+  /** Stream the event belongs to */
+  readonly streamId: string;
+
+  /** Version of the stream after this event, starting at 1 */
+  readonly streamVersion: number;
+
+  /** Position in the global log across all streams, starting at 1 */
+  readonly position: number;
+
+  /** ISO timestamp of when the event was appended */
+  readonly storedAt: string;
+}
+
+/**
+ * Stream version expected by `appendToStream()`.
+ * - a number: the stream must be at exactly this version (0 for a stream
+ *   that does not exist yet)
+ * - `'any'`: no check
+ */
+export type ExpectedVersion = number | 'any';
+
+/**
+ * Result of appending events to a stream.
+ */
+export interface AppendResult {
+  /** Version of the stream after the append */
+  streamVersion: number;
+
+  /** Position of the last event in the global log */
+  position: number;
+}
+
+/**
+ * Receives events appended to an event store.
+ */
+export type EventStoreSubscriber = (event: StoredEvent) => void | Promise<void>;
+
+/**
+ * Options for `IEventStore.subscribe()`.
+ */
+export interface EventStoreSubscribeOptions {
+  /**
+   * Deliver stored events after this position first, then new ones. By
+   * default only events appended after subscribing are delivered.
+   */
+  fromPosition?: number;
+}
+
+/**
+ * Append-only storage for domain event streams.
+ */
+export interface IEventStore {
+  /**
+   * Append events to a stream, atomically.
+   *
+   * @throws {ConcurrencyException} If the stream is not at `expectedVersion`
+   */
+  appendToStream(
+    streamId: string,
+    expectedVersion: ExpectedVersion,
+    events: readonly IDomainEvent[],
+  ): Promise<AppendResult>;
+
+  /**
+   * Read the events of a stream after `fromVersion` (default: 0, the whole
+   * stream), in order. Unknown streams are empty.
+   */
+  readStream(streamId: string, fromVersion?: number): Promise<StoredEvent[]>;
+
+  /**
+   * Read events of all streams after `fromPosition` (default: 0), in the
+   * order they were appended.
+   *
+   * @param limit - Maximum number of events to return
+   */
+  readAll(fromPosition?: number, limit?: number): Promise<StoredEvent[]>;
+
+  /**
+   * Current version of a stream, 0 if it does not exist.
+   */
+  getStreamVersion(streamId: string): Promise<number>;
+
+  /**
+   * Receive appended events in order, one at a time.
+   *
+   * @returns A function that ends the subscription
+   */
+  subscribe(
+    subscriber: EventStoreSubscriber,
+    options?: EventStoreSubscribeOptions,
+  ): Promise<() => void>;
+}
+
+/**
+ * Dependency injection token for IEventStore
+ */
+export const EVENT_STORE_TOKEN = Symbol('IEventStore');
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Aggregate snapshot store abstraction
+ *
+ * @packageDocumentation
+ * @module @struktos/core/domain/events
+ *
+ * A snapshot is the state of an event-sourced aggregate at a stream
+ * version. Loading starts from the newest snapshot and replays only the
+ * events after it, instead of the whole stream. Snapshots are a cache:
+ * they can be deleted at any time, and the stream stays the source of
+ * truth.
+ *
+ * Each snapshot records the `schemaVersion` of its state. An aggregate
+ * whose state shape changed declares a higher schema version, and older
+ * snapshots are ignored until a new one is taken.
+ */
+
+/**
+ * State of an aggregate at a version, as taken by
+ * `EventSourcedAggregateRoot.createSnapshot()`.
+ */
+export interface AggregateSnapshot<TState = unknown> {
+  /** Stream version the state includes events up to */
+  version: number;
+
+  /** Schema version of `state` */
+  schemaVersion: number;
+
+  /** The aggregate's state, as plain JSON */
+  state: TState;
+}
+
+/**
+ * A snapshot saved for an event stream.
+ */
+export interface Snapshot<TState = unknown> extends AggregateSnapshot<TState> {
+  /** Stream the snapshot was taken from */
+  streamId: string;
+
+  /** ISO timestamp of when the snapshot was taken */
+  createdAt: string;
+}
+
+/**
+ * Storage for the newest snapshot of each stream.
+ */
+export interface ISnapshotStore {
+  /**
+   * Save a snapshot, unless the stream has a snapshot at a higher version.
+   */
+  save(snapshot: Snapshot): Promise<void>;
+
+  /**
+   * Newest snapshot of a stream, if any.
+   */
+  load(streamId: string): Promise<Snapshot | undefined>;
+
+  /**
+   * Remove the snapshot of a stream.
+   */
+  delete(streamId: string): Promise<void>;
+}
+
+/**
+ * Dependency injection token for ISnapshotStore
+ */
+export const SNAPSHOT_STORE_TOKEN = Symbol('ISnapshotStore');
@@ -20,6 +20,50 @@ export type {
 // ============================================================================
 
 export { AggregateRoot } from './IDomainEvent';
+export {
+  EventSourcedAggregateRoot,
+  ConcurrencyException,
+} from './EventSourcedAggregateRoot';
+export type { EventApplier } from './EventSourcedAggregateRoot';
+
+// ============================================================================
+// Event Store
+// ============================================================================
+
+export { EVENT_STORE_TOKEN } from './IEventStore';
+export type {
+  IEventStore,
+  StoredEvent,
+  ExpectedVersion,
+  AppendResult,
+  EventStoreSubscriber,
+  EventStoreSubscribeOptions,
+} from './IEventStore';
+
+export { SNAPSHOT_STORE_TOKEN } from './ISnapshotStore';
+export type {
+  ISnapshotStore,
+  Snapshot,
+  AggregateSnapshot,
+} from './ISnapshotStore';
+
+// ============================================================================
+// Typed Event Creators
+// ============================================================================
+
+export { defineEvent, createEventMetadata } from './EventFactory';
+export type {
+  DefineEventOptions,
+  EventCreator,
+  TypedDomainEvent,
+} from './EventFactory';
+
+// ============================================================================
+// Schema Versioning
+// ============================================================================
+
+export { EventUpcasterRegistry, EventUpcastError } from './EventUpcaster';
+export type { EventUpcaster } from './EventUpcaster';
 
 // ============================================================================
 // Re-exports for convenience
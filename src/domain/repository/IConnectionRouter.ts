@@ -0,0 +1,105 @@
+/**
+ * @struktos/core - Connection Router Interface
+ *
+ * Provides the abstraction that unit of work factories and repositories
+ * consult to choose between the primary database and its read replicas.
+ * Command handlers run on the primary; query handlers prefer a replica
+ * unless `QueryExecutionOptions.useReadReplica` is false. After a request
+ * commits a write, its reads stay on the primary for a while so that it
+ * reads its own writes despite replication lag.
+ *
+ * @module domain/repository/IConnectionRouter
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { IContext } from '../context/IContext';
+
+/**
+ * Kind of database connection.
+ */
+export type ConnectionRole = 'primary' | 'replica';
+
+/**
+ * Routes database work to the primary or to a read replica.
+ *
+ * @template TConnection - Connection, pool or client type of the adapter
+ *
+ * @example
+ * ```typescript
+ * class PrismaUnitOfWorkFactory implements IUnitOfWorkFactory {
+ *   constructor(private readonly router: IConnectionRouter<PrismaClient>) {}
+ *
+ *   create(context?: IContext): IUnitOfWork {
+ *     // Primary inside command handlers, a replica inside query handlers
+ *     return new PrismaUnitOfWork(this.router.getConnection(), context);
+ *   }
+ * }
+ * ```
+ */
+export interface IConnectionRouter<TConnection = unknown> {
+  /**
+   * Get a connection for the current message.
+   *
+   * @param role - Preferred role; defaults to `ConnectionRouting.current()`,
+   * else the primary
+   */
+  getConnection(role?: ConnectionRole): TConnection;
+
+  /**
+   * The role `getConnection()` would use.
+   *
+   * A preferred replica resolves to the primary when there are no
+   * replicas or the request recently wrote.
+   */
+  resolveRole(role?: ConnectionRole): ConnectionRole;
+
+  /**
+   * Record that a request committed a write, keeping its reads on the
+   * primary for the stickiness window.
+   *
+   * @param context - Request that wrote (default: the current request)
+   */
+  recordWrite(context?: IContext): void;
+}
+
+/**
+ * ConnectionRouting - Connection role preferred in the current async call
+ * chain.
+ *
+ * The command bus runs handlers with `'primary'` and the query bus with
+ * `'replica'`. Queries dispatched while a command is handled keep the
+ * primary, so they see the command's uncommitted writes.
+ */
+export class ConnectionRouting {
+  private static als = new AsyncLocalStorage<ConnectionRole>();
+
+  /**
+   * Get the preferred role, if any.
+   */
+  static current(): ConnectionRole | undefined {
+    return ConnectionRouting.als.getStore();
+  }
+
+  /**
+   * Run a callback with a preferred role. A replica preference nested in a
+   * primary one stays on the primary.
+   */
+  static run<R>(role: ConnectionRole, callback: () => R): R {
+    const effective =
+      ConnectionRouting.current() === 'primary' ? 'primary' : role;
+    return ConnectionRouting.als.run(effective, callback);
+  }
+}
+
+/**
+ * Dependency injection token for IConnectionRouter.
+ *
+ * @example
+ * ```typescript
+ * services.addInstance(
+ *   CONNECTION_ROUTER_TOKEN,
+ *   new ReadReplicaRouter({ primary, replicas }),
+ * );
+ * ```
+ */
+export const CONNECTION_ROUTER_TOKEN = Symbol('IConnectionRouter');
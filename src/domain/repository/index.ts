@@ -30,3 +30,11 @@ export type {
   TransactionResult,
   RepositoryToken,
 } from './IUnitOfWork';
+
+// Read-replica routing
+export {
+  ConnectionRouting,
+  CONNECTION_ROUTER_TOKEN,
+} from './IConnectionRouter';
+
+export type { IConnectionRouter, ConnectionRole } from './IConnectionRouter';
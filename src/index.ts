@@ -23,12 +23,14 @@ export {
   getCurrentContext,
   tryGetCurrentContext,
   RequireContext,
+  CausationContext,
 } from './domain/context';
 
 export type {
   IContext,
   StruktosContextData,
   StruktosContext,
+  CausationScope,
 } from './domain/context';
 
 // ** 2. Exception Types (Domain/Business Rules Errors) **
@@ -139,6 +141,7 @@ export {
   StruktosMiddlewareBase,
   LoggingMiddleware,
   TimingMiddleware,
+  IdempotencyKeyMiddleware,
   ErrorHandlingMiddleware,
   CorsMiddleware,
   ResponseBuilder,
@@ -210,9 +213,9 @@ export type {
   IQueryHandler,
   ICommandBus,
   IQueryBus,
-  HandlerContext,
   IPipelineBehavior,
 } from './application/cqrs';
+export { HandlerContext } from './application/cqrs';
 
 // Infrastructure - Tracing & Resilience
 export type {
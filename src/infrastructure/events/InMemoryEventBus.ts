@@ -0,0 +1,295 @@
+/**
+ * @struktos/core - In-Memory Event Bus
+ *
+ * Process-local IEventBus implementation. Handlers subscribe by exact
+ * event name or by pattern (`*` matches any characters), run in the
+ * publisher's RequestContext, and are isolated from each other: a failing
+ * handler does not stop the rest, and failures are reported together as
+ * an `EventPublishError`. With an `EventUpcasterRegistry`, events of older
+ * schema versions are upcast before handlers see them.
+ *
+ * @module infrastructure/events/InMemoryEventBus
+ *
+ * @example
+ * ```typescript
+ * const eventBus = new InMemoryEventBus();
+ *
+ * eventBus.registerHandler('OrderPlaced', new SendConfirmationHandler());
+ * eventBus.registerHandler('Order*', new OrderProjectionHandler());
+ * eventBus.registerHandler('*', new AuditTrailHandler());
+ *
+ * await eventBus.publishAll(order.domainEvents);
+ * ```
+ */
+
+import { CausationContext } from '../../domain/context/CausationContext';
+import type {
+  IDomainEvent,
+  IEventBus,
+  IEventHandler,
+} from '../../domain/events/IDomainEvent';
+import type { EventUpcasterRegistry } from '../../domain/events/EventUpcaster';
+import { toMessageRecord } from '../../application/cqrs/MessageLog';
+import type { IMessageLog } from '../../application/cqrs/MessageLog';
+
+/**
+ * A handler that failed while handling an event.
+ */
+export interface EventHandlerFailure {
+  /** Event being handled */
+  event: IDomainEvent;
+
+  /** Event name or pattern the handler subscribed with */
+  pattern: string;
+
+  /** Handler class name, or 'anonymous' */
+  handlerName: string;
+
+  error: Error;
+}
+
+/**
+ * EventPublishError - Thrown after publishing when one or more handlers
+ * failed. The other handlers have run.
+ */
+export class EventPublishError extends AggregateError {
+  /**
+   * Failed handlers and the events they were handling.
+   */
+  public readonly failures: ReadonlyArray<EventHandlerFailure>;
+
+  constructor(failures: readonly EventHandlerFailure[]) {
+    const events = [...new Set(failures.map((f) => f.event.eventName))];
+    super(
+      failures.map((failure) => failure.error),
+      `${failures.length} event handler(s) failed for ${events.join(', ')}`,
+    );
+    this.name = 'EventPublishError';
+    this.failures = failures;
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, EventPublishError.prototype);
+  }
+}
+
+/**
+ * Configuration for an InMemoryEventBus.
+ */
+export interface InMemoryEventBusOptions {
+  /**
+   * Called for failures that cannot be thrown to the publisher: rejections
+   * of async handlers called by `publishSync()`, and failures to record an
+   * event in `messageLog`, reported with the pattern `'*'` and the log's
+   * class name. Handlers still receive events the log failed to record.
+   */
+  onError?: (failure: EventHandlerFailure) => void;
+
+  /**
+   * Log that published events are recorded in, for causal trees.
+   */
+  messageLog?: IMessageLog;
+
+  /**
+   * Upcasters applied to every published event, so handlers receive the
+   * latest payload version.
+   */
+  upcasters?: EventUpcasterRegistry;
+}
+
+interface Subscription {
+  pattern: string;
+  matches: (eventName: string) => boolean;
+  handler: IEventHandler<IDomainEvent>;
+}
+
+/**
+ * InMemoryEventBus - Dispatches events to handlers in the same process.
+ */
+export class InMemoryEventBus implements IEventBus {
+  private subscriptions: Subscription[] = [];
+
+  constructor(private readonly options: InMemoryEventBusOptions = {}) {}
+
+  /**
+   * Register a handler for an event name or pattern.
+   *
+   * `'*'` subscribes to every event, `'Order*'` to every event whose name
+   * starts with `Order`.
+   *
+   * @returns A function that removes the registration
+   */
+  registerHandler(eventName: string, handler: IEventHandler<any>): () => void {
+    const subscription: Subscription = {
+      pattern: eventName,
+      matches: this.compilePattern(eventName),
+      handler,
+    };
+    this.subscriptions = [...this.subscriptions, subscription];
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter((s) => s !== subscription);
+    };
+  }
+
+  /**
+   * Number of handlers that would receive an event with this name.
+   */
+  handlerCount(eventName: string): number {
+    return this.match(eventName).length;
+  }
+
+  /**
+   * Run every matching handler concurrently.
+   *
+   * @throws {EventPublishError} When any handler failed, after all ran
+   * @throws {EventUpcastError} When the event cannot be upcast; no handler
+   * runs
+   */
+  async publish<T extends IDomainEvent>(event: T): Promise<void> {
+    const failures = await this.dispatch(this.upcast(event));
+    if (failures.length > 0) {
+      throw new EventPublishError(failures);
+    }
+  }
+
+  /**
+   * Publish events in order, each after the previous one's handlers have
+   * finished.
+   *
+   * @throws {EventPublishError} When any handler failed, after all events
+   * were published
+   * @throws {EventUpcastError} When an event cannot be upcast; no event is
+   * published
+   */
+  async publishAll(events: IDomainEvent[]): Promise<void> {
+    const failures: EventHandlerFailure[] = [];
+    for (const event of events.map((e) => this.upcast(e))) {
+      failures.push(...(await this.dispatch(event)));
+    }
+    if (failures.length > 0) {
+      throw new EventPublishError(failures);
+    }
+  }
+
+  /**
+   * Call every matching handler without waiting for async work.
+   *
+   * Errors thrown synchronously are collected and thrown; rejections of
+   * async handlers go to `options.onError`.
+   *
+   * @throws {EventPublishError} When any handler threw synchronously
+   * @throws {EventUpcastError} When the event cannot be upcast
+   */
+  publishSync<T extends IDomainEvent>(published: T): void {
+    const event = this.upcast(published);
+    const failures: EventHandlerFailure[] = [];
+
+    this.inScope(event, () => {
+      void this.record(event);
+      for (const subscription of this.match(event.eventName)) {
+        try {
+          const result = subscription.handler.handle(event);
+          void Promise.resolve(result).catch((error) =>
+            this.options.onError?.(this.toFailure(subscription, event, error)),
+          );
+        } catch (error) {
+          failures.push(this.toFailure(subscription, event, error));
+        }
+      }
+    });
+
+    if (failures.length > 0) {
+      throw new EventPublishError(failures);
+    }
+  }
+
+  // ==================== Dispatch ====================
+
+  private async dispatch(event: IDomainEvent): Promise<EventHandlerFailure[]> {
+    const subscriptions = this.match(event.eventName);
+
+    const results = await this.inScope(event, async () => {
+      await this.record(event);
+      return Promise.allSettled(
+        subscriptions.map(async (subscription) =>
+          subscription.handler.handle(event),
+        ),
+      );
+    });
+
+    return results.flatMap((result, index) =>
+      result.status === 'rejected'
+        ? [this.toFailure(subscriptions[index]!, event, result.reason)]
+        : [],
+    );
+  }
+
+  /**
+   * Link the event to the message being handled and run the callback as
+   * handling the event, so messages dispatched by handlers are caused by
+   * it.
+   */
+  private inScope<R>(event: IDomainEvent, callback: () => R): R {
+    const metadata = event.metadata;
+    if (!metadata?.eventId) {
+      return callback();
+    }
+    const scope = CausationContext.link(metadata, metadata.eventId);
+    return CausationContext.run(scope, callback);
+  }
+
+  private upcast<T extends IDomainEvent>(event: T): T {
+    return this.options.upcasters
+      ? this.options.upcasters.upcast(event)
+      : event;
+  }
+
+  private async record(event: IDomainEvent): Promise<void> {
+    const messageLog = this.options.messageLog;
+    const record = messageLog && toMessageRecord(event);
+    if (!record) {
+      return;
+    }
+    try {
+      await messageLog!.record(record);
+    } catch (error) {
+      const name = messageLog!.constructor?.name;
+      this.options.onError?.({
+        event,
+        pattern: '*',
+        handlerName: name && name !== 'Object' ? name : 'anonymous',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  private match(eventName: string): Subscription[] {
+    return this.subscriptions.filter((s) => s.matches(eventName));
+  }
+
+  private compilePattern(pattern: string): (eventName: string) => boolean {
+    if (!pattern.includes('*')) {
+      return (eventName) => eventName === pattern;
+    }
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    const regex = new RegExp(`^${source}$`);
+    return (eventName) => regex.test(eventName);
+  }
+
+  private toFailure(
+    subscription: Subscription,
+    event: IDomainEvent,
+    error: unknown,
+  ): EventHandlerFailure {
+    const name = subscription.handler.constructor?.name;
+    return {
+      event,
+      pattern: subscription.pattern,
+      handlerName: name && name !== 'Object' ? name : 'anonymous',
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * @struktos/core - Events Module
+ *
+ * Event bus implementations
+ */
+
+export { InMemoryEventBus, EventPublishError } from './InMemoryEventBus';
+
+export type {
+  InMemoryEventBusOptions,
+  EventHandlerFailure,
+} from './InMemoryEventBus';
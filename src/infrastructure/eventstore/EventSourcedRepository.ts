@@ -0,0 +1,138 @@
+/**
+ * @struktos/core - Event-Sourced Repository
+ *
+ * Loads and saves EventSourcedAggregateRoots through an IEventStore, one
+ * stream per aggregate.
+ *
+ * @module infrastructure/eventstore/EventSourcedRepository
+ */
+
+import type { EventSourcedAggregateRoot } from '../../domain/events/EventSourcedAggregateRoot';
+import type {
+  AppendResult,
+  IEventStore,
+} from '../../domain/events/IEventStore';
+import type { ISnapshotStore } from '../../domain/events/ISnapshotStore';
+import { EveryNEventsSnapshotPolicy } from './SnapshotStore';
+import type { ISnapshotPolicy } from './SnapshotStore';
+
+/**
+ * Options for EventSourcedRepository.
+ */
+export interface EventSourcedRepositoryOptions {
+  /**
+   * Store for aggregate snapshots. Without it, every load replays the
+   * whole stream.
+   */
+  snapshots?: ISnapshotStore;
+
+  /**
+   * When to snapshot after a save (default: every 100 events)
+   */
+  snapshotPolicy?: ISnapshotPolicy;
+}
+
+/**
+ * EventSourcedRepository - Aggregates rebuilt from their event streams.
+ *
+ * `save()` appends the uncommitted events with the aggregate's
+ * `committedVersion` as the expected version, so it fails with a
+ * `ConcurrencyException` when the stream changed since the aggregate was
+ * loaded. To publish saved events, subscribe to the event store.
+ *
+ * With a snapshot store, loading starts from the stream's snapshot when
+ * its schema version matches the aggregate's, and replays only the events
+ * after it. Snapshots are taken after saves, as the snapshot policy
+ * decides; failing to save one does not fail the save.
+ *
+ * @example
+ * ```typescript
+ * const orders = new EventSourcedRepository(eventStore, () => new Order());
+ *
+ * const order = await orders.load(`order-${orderId}`);
+ * if (!order) {
+ *   throw new NotFoundException(`Order ${orderId} not found`);
+ * }
+ * order.ship();
+ * await orders.save(`order-${orderId}`, order);
+ * ```
+ */
+export class EventSourcedRepository<T extends EventSourcedAggregateRoot> {
+  private readonly snapshotPolicy: ISnapshotPolicy;
+
+  constructor(
+    protected readonly eventStore: IEventStore,
+    protected readonly factory: () => T,
+    private readonly options: EventSourcedRepositoryOptions = {},
+  ) {
+    this.snapshotPolicy =
+      options.snapshotPolicy ?? new EveryNEventsSnapshotPolicy(100);
+  }
+
+  /**
+   * Rebuild an aggregate from its snapshot and stream.
+   *
+   * @returns The aggregate, or undefined if the stream has no events
+   */
+  async load(streamId: string): Promise<T | undefined> {
+    const aggregate = this.factory();
+    const snapshot = await this.options.snapshots?.load(streamId);
+    const restored = snapshot ? aggregate.restoreSnapshot(snapshot) : false;
+
+    const events = await this.eventStore.readStream(
+      streamId,
+      aggregate.version,
+    );
+    if (!restored && events.length === 0) {
+      return undefined;
+    }
+    aggregate.loadFromHistory(events);
+    return aggregate;
+  }
+
+  /**
+   * Append the aggregate's uncommitted events and mark them committed.
+   *
+   * @throws {ConcurrencyException} If the stream changed since the
+   * aggregate was loaded
+   */
+  async save(streamId: string, aggregate: T): Promise<AppendResult> {
+    const result = await this.eventStore.appendToStream(
+      streamId,
+      aggregate.committedVersion,
+      aggregate.uncommittedEvents,
+    );
+    const previousVersion = aggregate.committedVersion;
+    aggregate.markEventsCommitted();
+
+    if (
+      this.options.snapshots &&
+      this.snapshotPolicy.shouldSnapshot(previousVersion, aggregate.version)
+    ) {
+      await this.saveSnapshot(streamId, aggregate, this.options.snapshots);
+    }
+    return result;
+  }
+
+  private async saveSnapshot(
+    streamId: string,
+    aggregate: T,
+    snapshots: ISnapshotStore,
+  ): Promise<void> {
+    try {
+      const snapshot = aggregate.createSnapshot();
+      if (snapshot) {
+        await snapshots.save({
+          ...snapshot,
+          streamId,
+          createdAt: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      console.error(
+        `[EventSourcedRepository] Failed to snapshot '${streamId}':`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * @struktos/core - Event Stores
+ *
+ * IEventStore implementations: in process memory, and in an append-only
+ * JSON-lines file.
+ *
+ * @module infrastructure/eventstore/EventStore
+ */
+
+import { ConcurrencyException } from '../../domain/events/EventSourcedAggregateRoot';
+import type { EventUpcasterRegistry } from '../../domain/events/EventUpcaster';
+import type { IDomainEvent } from '../../domain/events/IDomainEvent';
+import type {
+  AppendResult,
+  EventStoreSubscribeOptions,
+  EventStoreSubscriber,
+  ExpectedVersion,
+  IEventStore,
+  StoredEvent,
+} from '../../domain/events/IEventStore';
+import { FileStorage, toJson } from '../persistence/FileStorage';
+
+/**
+ * Configuration for the event stores.
+ */
+export interface EventStoreOptions {
+  /**
+   * Upcasters applied to events read or delivered to subscribers, so
+   * readers only see the latest payload versions. Stored events are not
+   * rewritten.
+   */
+  upcasters?: EventUpcasterRegistry;
+
+  /**
+   * Called when a subscriber fails. Defaults to logging the error.
+   */
+  onError?: (error: Error, event: StoredEvent) => void;
+}
+
+interface Subscription {
+  subscriber: EventStoreSubscriber;
+  queue: Promise<void>;
+  active: boolean;
+}
+
+/**
+ * InMemoryEventStore - Event streams kept in process memory.
+ *
+ * Events are copied as JSON when appended, like the file store does, so
+ * later changes to the appended objects do not reach the store.
+ */
+export class InMemoryEventStore implements IEventStore {
+  /** Every event, in position order */
+  protected readonly log: StoredEvent[] = [];
+  protected readonly streams = new Map<string, StoredEvent[]>();
+  private readonly subscriptions = new Set<Subscription>();
+
+  constructor(protected readonly options: EventStoreOptions = {}) {}
+
+  async appendToStream(
+    streamId: string,
+    expectedVersion: ExpectedVersion,
+    events: readonly IDomainEvent[],
+  ): Promise<AppendResult> {
+    this.commit(this.prepare(streamId, expectedVersion, events));
+    return this.appendResult(streamId);
+  }
+
+  async readStream(streamId: string, fromVersion = 0): Promise<StoredEvent[]> {
+    const stream = this.streams.get(streamId) ?? [];
+    return stream.slice(Math.max(0, fromVersion)).map((e) => this.upcast(e));
+  }
+
+  async readAll(fromPosition = 0, limit?: number): Promise<StoredEvent[]> {
+    const start = Math.max(0, fromPosition);
+    const end = limit === undefined ? undefined : start + limit;
+    return this.log.slice(start, end).map((e) => this.upcast(e));
+  }
+
+  async getStreamVersion(streamId: string): Promise<number> {
+    return this.versionOf(streamId);
+  }
+
+  async subscribe(
+    subscriber: EventStoreSubscriber,
+    options: EventStoreSubscribeOptions = {},
+  ): Promise<() => void> {
+    const subscription: Subscription = {
+      subscriber,
+      queue: Promise.resolve(),
+      active: true,
+    };
+
+    // Stored events are queued before any event appended from now on
+    if (options.fromPosition !== undefined) {
+      for (const event of this.log.slice(Math.max(0, options.fromPosition))) {
+        this.deliver(subscription, event);
+      }
+    }
+    this.subscriptions.add(subscription);
+
+    return () => {
+      subscription.active = false;
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  // ==================== Appending ====================
+
+  /**
+   * Check the expected version and number the events, without storing
+   * them.
+   *
+   * @throws {ConcurrencyException} If the stream is not at `expectedVersion`
+   */
+  protected prepare(
+    streamId: string,
+    expectedVersion: ExpectedVersion,
+    events: readonly IDomainEvent[],
+  ): StoredEvent[] {
+    const version = this.versionOf(streamId);
+    if (expectedVersion !== 'any' && expectedVersion !== version) {
+      throw new ConcurrencyException(expectedVersion, version, streamId);
+    }
+
+    const storedAt = new Date().toISOString();
+    return events.map((event, index) => ({
+      ...toJson({
+        eventName: event.eventName,
+        metadata: event.metadata,
+        payload: event.payload,
+        version: event.version,
+      }),
+      streamId,
+      streamVersion: version + index + 1,
+      position: this.log.length + index + 1,
+      storedAt,
+    }));
+  }
+
+  /**
+   * Store prepared events and deliver them to subscribers.
+   */
+  protected commit(events: StoredEvent[]): void {
+    for (const event of events) {
+      this.restore(event);
+      for (const subscription of this.subscriptions) {
+        this.deliver(subscription, event);
+      }
+    }
+  }
+
+  /**
+   * Add an event that is already stored, without delivering it.
+   */
+  protected restore(event: StoredEvent): void {
+    this.log.push(event);
+    const stream = this.streams.get(event.streamId);
+    if (stream) {
+      stream.push(event);
+    } else {
+      this.streams.set(event.streamId, [event]);
+    }
+  }
+
+  protected appendResult(streamId: string): AppendResult {
+    return {
+      streamVersion: this.versionOf(streamId),
+      position: this.log.length,
+    };
+  }
+
+  // ==================== Helpers ====================
+
+  private versionOf(streamId: string): number {
+    return this.streams.get(streamId)?.length ?? 0;
+  }
+
+  private upcast(event: StoredEvent): StoredEvent {
+    return this.options.upcasters
+      ? this.options.upcasters.upcast(event)
+      : event;
+  }
+
+  private deliver(subscription: Subscription, event: StoredEvent): void {
+    subscription.queue = subscription.queue.then(async () => {
+      if (!subscription.active) {
+        return;
+      }
+      try {
+        await subscription.subscriber(this.upcast(event));
+      } catch (cause) {
+        const error = cause instanceof Error ? cause : new Error(String(cause));
+        if (this.options.onError) {
+          this.options.onError(error, event);
+        } else {
+          console.error(
+            `[${this.constructor.name}] Subscriber failed for event at position ${event.position}:`,
+            error,
+          );
+        }
+      }
+    });
+  }
+}
+
+/**
+ * FileEventStore - Event streams in an append-only JSON-lines file.
+ *
+ * Each event is one line, appended in position order; existing lines are
+ * never rewritten. The file is read once, on first use, and a last line
+ * left incomplete by a crash is cut off. Appends are serialized, so the
+ * version check and the write are atomic within the process. The file is
+ * meant for one process at a time.
+ *
+ * @example
+ * ```typescript
+ * const eventStore = new FileEventStore('./data/events.jsonl');
+ * const orders = new EventSourcedRepository(eventStore, () => new Order());
+ * ```
+ */
+export class FileEventStore extends InMemoryEventStore {
+  private readonly file: FileStorage;
+
+  constructor(filePath: string, options: EventStoreOptions = {}) {
+    super(options);
+    this.file = new FileStorage(filePath);
+  }
+
+  appendToStream(
+    streamId: string,
+    expectedVersion: ExpectedVersion,
+    events: readonly IDomainEvent[],
+  ): Promise<AppendResult> {
+    return this.file.serialize(async () => {
+      await this.load();
+      const stored = this.prepare(streamId, expectedVersion, events);
+      if (stored.length > 0) {
+        const lines = stored.map((event) => `${JSON.stringify(event)}\n`);
+        await this.file.append(lines.join(''));
+        this.commit(stored);
+      }
+      return this.appendResult(streamId);
+    });
+  }
+
+  async readStream(
+    streamId: string,
+    fromVersion?: number,
+  ): Promise<StoredEvent[]> {
+    await this.load();
+    return super.readStream(streamId, fromVersion);
+  }
+
+  async readAll(fromPosition?: number, limit?: number): Promise<StoredEvent[]> {
+    await this.load();
+    return super.readAll(fromPosition, limit);
+  }
+
+  async getStreamVersion(streamId: string): Promise<number> {
+    await this.load();
+    return super.getStreamVersion(streamId);
+  }
+
+  async subscribe(
+    subscriber: EventStoreSubscriber,
+    options?: EventStoreSubscribeOptions,
+  ): Promise<() => void> {
+    await this.load();
+    return super.subscribe(subscriber, options);
+  }
+
+  // ==================== Persistence ====================
+
+  private load(): Promise<void> {
+    return this.file.load(async (content) => {
+      // Every complete line ends with a newline
+      const end = content.lastIndexOf('\n') + 1;
+      if (end < content.length) {
+        await this.file.truncate(Buffer.byteLength(content.slice(0, end)));
+      }
+
+      for (const line of content.slice(0, end).split('\n')) {
+        if (line) {
+          this.restore(JSON.parse(line) as StoredEvent);
+        }
+      }
+    });
+  }
+}
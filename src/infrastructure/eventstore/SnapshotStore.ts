@@ -0,0 +1,84 @@
+/**
+ * @struktos/core - Snapshot Stores and Policies
+ *
+ * ISnapshotStore implementation and the policies deciding when an
+ * EventSourcedRepository takes a snapshot.
+ *
+ * @module infrastructure/eventstore/SnapshotStore
+ */
+
+import type {
+  ISnapshotStore,
+  Snapshot,
+} from '../../domain/events/ISnapshotStore';
+import { toJson } from '../persistence/FileStorage';
+
+/**
+ * Decides whether to snapshot an aggregate after saving it.
+ */
+export interface ISnapshotPolicy {
+  /**
+   * @param previousVersion - Committed version before the save
+   * @param version - Committed version after the save
+   */
+  shouldSnapshot(previousVersion: number, version: number): boolean;
+}
+
+/**
+ * EveryNEventsSnapshotPolicy - Snapshot each time the stream passes a
+ * multiple of `interval` events.
+ *
+ * A save that appends several events at once snapshots when any of them
+ * reaches a multiple, so loads never replay more than about `interval`
+ * events.
+ *
+ * @example
+ * ```typescript
+ * const orders = new EventSourcedRepository(eventStore, () => new Order(), {
+ *   snapshots: new InMemorySnapshotStore(),
+ *   snapshotPolicy: new EveryNEventsSnapshotPolicy(50),
+ * });
+ * ```
+ */
+export class EveryNEventsSnapshotPolicy implements ISnapshotPolicy {
+  constructor(readonly interval: number) {
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error(
+        `Snapshot interval must be a positive integer, got ${interval}`,
+      );
+    }
+  }
+
+  shouldSnapshot(previousVersion: number, version: number): boolean {
+    return (
+      Math.floor(version / this.interval) >
+      Math.floor(previousVersion / this.interval)
+    );
+  }
+}
+
+/**
+ * InMemorySnapshotStore - Newest snapshot of each stream, in process
+ * memory.
+ *
+ * Snapshots are copied as JSON when saved and loaded.
+ */
+export class InMemorySnapshotStore implements ISnapshotStore {
+  private readonly snapshots = new Map<string, Snapshot>();
+
+  async save(snapshot: Snapshot): Promise<void> {
+    const current = this.snapshots.get(snapshot.streamId);
+    if (!current || current.version <= snapshot.version) {
+      this.snapshots.set(snapshot.streamId, toJson(snapshot));
+    }
+  }
+
+  async load(streamId: string): Promise<Snapshot | undefined> {
+    const snapshot = this.snapshots.get(streamId);
+    return snapshot && toJson(snapshot);
+  }
+
+  async delete(streamId: string): Promise<void> {
+    this.snapshots.delete(streamId);
+  }
+}
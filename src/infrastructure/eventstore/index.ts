@@ -0,0 +1,16 @@
+/**
+ * @struktos/core - Event Store Module
+ *
+ * Event store implementations, event-sourced repositories and snapshots
+ */
+
+export { InMemoryEventStore, FileEventStore } from './EventStore';
+export { EventSourcedRepository } from './EventSourcedRepository';
+export {
+  InMemorySnapshotStore,
+  EveryNEventsSnapshotPolicy,
+} from './SnapshotStore';
+
+export type { EventStoreOptions } from './EventStore';
+export type { EventSourcedRepositoryOptions } from './EventSourcedRepository';
+export type { ISnapshotPolicy } from './SnapshotStore';
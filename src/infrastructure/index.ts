@@ -62,3 +62,15 @@ export * from './pipeline';
 
 // High-performance caching utilities
 export * from './cache';
+
+// Read-replica connection routing
+export * from './routing';
+
+// In-process domain event dispatch
+export * from './events';
+
+// Transactional outbox for domain events
+export * from './outbox';
+
+// Event stores for event-sourced aggregates
+export * from './eventstore';
@@ -0,0 +1,337 @@
+/**
+ * @struktos/core - Transactional Outbox
+ *
+ * Domain events are written to an outbox in the same transaction as the
+ * aggregates that raised them, and published afterwards by an
+ * `OutboxRelay`. An event is therefore published if and only if its
+ * transaction committed, at least once, even when the process stops
+ * between the commit and the publish.
+ *
+ * @module infrastructure/outbox/Outbox
+ */
+
+import type { IDomainEvent } from '../../domain/events/IDomainEvent';
+import type { IUnitOfWork } from '../../domain/repository/IUnitOfWork';
+import { FileStorage, toJson } from '../persistence/FileStorage';
+
+/**
+ * Outbox message status.
+ * - staged: added for a transaction that has not committed yet
+ * - pending: waiting to be published, or leased by a relay
+ * - dead: gave up after the maximum number of attempts
+ */
+export type OutboxMessageStatus = 'staged' | 'pending' | 'dead';
+
+/**
+ * A domain event waiting in the outbox.
+ */
+export interface OutboxMessage {
+  /** Event ID, so consumers can deduplicate redelivered events */
+  id: string;
+
+  eventName: string;
+
+  /** The event as plain JSON */
+  event: IDomainEvent;
+
+  status: OutboxMessageStatus;
+
+  /** Publish attempts so far, including the current one */
+  attempts: number;
+
+  /** Time (ms since epoch) before which the message is not claimed */
+  availableAt: number;
+
+  /** ISO timestamp of when the message was added */
+  createdAt: string;
+
+  /** Error of the last failed attempt */
+  lastError?: string;
+}
+
+/**
+ * Storage for outbox messages.
+ *
+ * Published messages are removed. Dead-lettered messages stay until they
+ * are requeued.
+ */
+export interface IOutboxStore {
+  /**
+   * Add messages for events raised in a transaction.
+   *
+   * @param unitOfWork - The transaction being committed. Stores in the
+   * same database write through it, so the messages are saved only if the
+   * transaction commits. Stores that cannot take part in the transaction
+   * stage the messages instead, and do not claim them until `release()`.
+   */
+  add(messages: OutboxMessage[], unitOfWork?: IUnitOfWork): Promise<void>;
+
+  /**
+   * Make staged messages claimable once their transaction committed.
+   */
+  release(ids: string[]): Promise<void>;
+
+  /**
+   * Remove messages whose transaction failed to commit. Only needed by
+   * stores that cannot take part in the transaction.
+   */
+  discard(ids: string[]): Promise<void>;
+
+  /**
+   * Claim up to `limit` pending messages that are due, in the order they
+   * were added. Claimed messages count an attempt and are not claimed
+   * again before `leaseUntil`, so a relay that stops while publishing
+   * leaves them to be retried.
+   */
+  claim(
+    limit: number,
+    now: number,
+    leaseUntil: number,
+  ): Promise<OutboxMessage[]>;
+
+  /**
+   * Remove a message after its event was published.
+   */
+  markPublished(id: string): Promise<void>;
+
+  /**
+   * Record a failed attempt. The message is retried at `retryAt`, or
+   * dead-lettered when no retry time is given.
+   */
+  markFailed(id: string, error: string, retryAt?: number): Promise<void>;
+
+  get(id: string): Promise<OutboxMessage | undefined>;
+
+  /**
+   * Messages that were dead-lettered, in the order they were added.
+   */
+  deadLetters(): Promise<OutboxMessage[]>;
+
+  /**
+   * Make a dead-lettered message pending again, with no attempts.
+   */
+  requeue(id: string): Promise<void>;
+}
+
+/**
+ * Create a pending outbox message for a domain event.
+ */
+export function toOutboxMessage(
+  event: IDomainEvent,
+  now: Date = new Date(),
+): OutboxMessage {
+  const { eventName, metadata, payload, version } = event;
+  return {
+    id: metadata.eventId,
+    eventName,
+    event: toJson({ eventName, metadata, payload, version }),
+    status: 'pending',
+    attempts: 0,
+    availableAt: now.getTime(),
+    createdAt: now.toISOString(),
+  };
+}
+
+/**
+ * InMemoryOutboxStore - Outbox kept in process memory.
+ *
+ * It does not survive a restart, so it only suits tests and single
+ * processes that can afford to lose unpublished events. Messages added
+ * with a unit of work are staged until released.
+ */
+export class InMemoryOutboxStore implements IOutboxStore {
+  protected readonly messages = new Map<string, OutboxMessage>();
+
+  async add(
+    messages: OutboxMessage[],
+    unitOfWork?: IUnitOfWork,
+  ): Promise<void> {
+    for (const message of messages) {
+      if (this.messages.has(message.id)) {
+        throw new Error(`Outbox message '${message.id}' already exists`);
+      }
+    }
+    for (const message of messages) {
+      this.messages.set(message.id, {
+        ...message,
+        status: unitOfWork ? 'staged' : message.status,
+      });
+    }
+  }
+
+  async release(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      const message = this.messages.get(id);
+      if (message?.status === 'staged') {
+        message.status = 'pending';
+      }
+    }
+  }
+
+  async discard(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.messages.delete(id);
+    }
+  }
+
+  async claim(
+    limit: number,
+    now: number,
+    leaseUntil: number,
+  ): Promise<OutboxMessage[]> {
+    const claimed: OutboxMessage[] = [];
+    for (const message of this.messages.values()) {
+      if (claimed.length >= limit) {
+        break;
+      }
+      if (message.status === 'pending' && message.availableAt <= now) {
+        message.attempts++;
+        message.availableAt = leaseUntil;
+        claimed.push({ ...message });
+      }
+    }
+    return claimed;
+  }
+
+  async markPublished(id: string): Promise<void> {
+    this.messages.delete(id);
+  }
+
+  async markFailed(id: string, error: string, retryAt?: number): Promise<void> {
+    const message = this.require(id);
+    message.lastError = error;
+    if (retryAt === undefined) {
+      message.status = 'dead';
+    } else {
+      message.availableAt = retryAt;
+    }
+  }
+
+  async get(id: string): Promise<OutboxMessage | undefined> {
+    const message = this.messages.get(id);
+    return message && { ...message };
+  }
+
+  async deadLetters(): Promise<OutboxMessage[]> {
+    return [...this.messages.values()]
+      .filter((message) => message.status === 'dead')
+      .map((message) => ({ ...message }));
+  }
+
+  async requeue(id: string): Promise<void> {
+    const message = this.require(id);
+    message.status = 'pending';
+    message.attempts = 0;
+    message.availableAt = Date.now();
+  }
+
+  private require(id: string): OutboxMessage {
+    const message = this.messages.get(id);
+    if (!message) {
+      throw new Error(`Outbox message '${id}' does not exist`);
+    }
+    return message;
+  }
+}
+
+/**
+ * FileOutboxStore - Outbox persisted to a JSON file.
+ *
+ * The whole outbox is rewritten after every change, through a temporary
+ * file and a rename. It cannot join a database transaction: messages are
+ * staged before the commit, then released or discarded, so a crash in
+ * between leaves staged messages that are never published. The file is
+ * meant for one process at a time.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new FileOutboxStore('./data/outbox.json');
+ *
+ * host.addBackgroundService(new OutboxRelay(outbox, eventBus));
+ * ```
+ */
+export class FileOutboxStore extends InMemoryOutboxStore {
+  private readonly file: FileStorage;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new FileStorage(filePath);
+  }
+
+  async add(
+    messages: OutboxMessage[],
+    unitOfWork?: IUnitOfWork,
+  ): Promise<void> {
+    await this.load();
+    await super.add(messages, unitOfWork);
+    await this.persist();
+  }
+
+  async release(ids: string[]): Promise<void> {
+    await this.load();
+    await super.release(ids);
+    await this.persist();
+  }
+
+  async discard(ids: string[]): Promise<void> {
+    await this.load();
+    await super.discard(ids);
+    await this.persist();
+  }
+
+  async claim(
+    limit: number,
+    now: number,
+    leaseUntil: number,
+  ): Promise<OutboxMessage[]> {
+    await this.load();
+    const claimed = await super.claim(limit, now, leaseUntil);
+    if (claimed.length > 0) {
+      await this.persist();
+    }
+    return claimed;
+  }
+
+  async markPublished(id: string): Promise<void> {
+    await this.load();
+    await super.markPublished(id);
+    await this.persist();
+  }
+
+  async markFailed(id: string, error: string, retryAt?: number): Promise<void> {
+    await this.load();
+    await super.markFailed(id, error, retryAt);
+    await this.persist();
+  }
+
+  async get(id: string): Promise<OutboxMessage | undefined> {
+    await this.load();
+    return super.get(id);
+  }
+
+  async deadLetters(): Promise<OutboxMessage[]> {
+    await this.load();
+    return super.deadLetters();
+  }
+
+  async requeue(id: string): Promise<void> {
+    await this.load();
+    await super.requeue(id);
+    await this.persist();
+  }
+
+  // ==================== Persistence ====================
+
+  private load(): Promise<void> {
+    return this.file.load((content) => {
+      // Messages are written in the order they were added
+      for (const message of JSON.parse(content) as OutboxMessage[]) {
+        this.messages.set(message.id, message);
+      }
+    });
+  }
+
+  private persist(): Promise<void> {
+    return this.file.replace(JSON.stringify([...this.messages.values()]));
+  }
+}
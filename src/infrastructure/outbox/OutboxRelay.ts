@@ -0,0 +1,174 @@
+/**
+ * @struktos/core - Outbox Relay
+ *
+ * Background service that publishes outbox messages through an IEventBus.
+ *
+ * @module infrastructure/outbox/OutboxRelay
+ */
+
+import { BackgroundServiceBase } from '../../application/host/host';
+import type { IEventBus } from '../../domain/events/IDomainEvent';
+import type { IOutboxStore, OutboxMessage } from './Outbox';
+
+/**
+ * Options for OutboxRelay.
+ */
+export interface OutboxRelayOptions {
+  /** Service name (default: 'OutboxRelay') */
+  name?: string;
+
+  /** Maximum messages claimed at a time (default: 50) */
+  batchSize?: number;
+
+  /** Delay in milliseconds before checking an empty outbox again (default: 1000) */
+  pollInterval?: number;
+
+  /** Publish attempts before a message is dead-lettered (default: 5) */
+  maxAttempts?: number;
+
+  /**
+   * Delay in milliseconds before the first retry, doubled for each
+   * further attempt (default: 1000)
+   */
+  retryDelay?: number;
+
+  /** Upper bound for the retry delay in milliseconds (default: 60000) */
+  maxRetryDelay?: number;
+
+  /**
+   * Time in milliseconds a claimed message is hidden from other claims.
+   * Should be longer than publishing takes (default: 30000)
+   */
+  leaseTime?: number;
+
+  /** Called when a message is dead-lettered */
+  onDeadLetter?: (message: OutboxMessage, error: Error) => void;
+}
+
+/**
+ * OutboxRelay - Publishes outbox messages with at-least-once delivery.
+ *
+ * A message is removed from the outbox only after `publish()` resolved,
+ * so an event can be delivered more than once: handlers should be
+ * idempotent, for example by checking `metadata.eventId`. Failed
+ * messages are retried with exponential backoff and dead-lettered after
+ * `maxAttempts`. Messages are published in the order they were added,
+ * except that a message waiting for a retry does not hold back the ones
+ * after it.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new InMemoryOutboxStore();
+ *
+ * host.addBackgroundService(
+ *   new OutboxRelay(outbox, eventBus, {
+ *     maxAttempts: 10,
+ *     onDeadLetter: (message, error) =>
+ *       logger.error(`Gave up on ${message.eventName}`, error),
+ *   }),
+ * );
+ * ```
+ */
+export class OutboxRelay extends BackgroundServiceBase {
+  readonly name: string;
+  private readonly batchSize: number;
+  private readonly pollInterval: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelay: number;
+  private readonly maxRetryDelay: number;
+  private readonly leaseTime: number;
+  private current: Promise<number> = Promise.resolve(0);
+
+  constructor(
+    private readonly outbox: IOutboxStore,
+    private readonly eventBus: IEventBus,
+    private readonly options: OutboxRelayOptions = {},
+  ) {
+    super();
+    this.name = options.name ?? 'OutboxRelay';
+    this.batchSize = Math.max(1, options.batchSize ?? 50);
+    this.pollInterval = options.pollInterval ?? 1000;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 60000;
+    this.leaseTime = options.leaseTime ?? 30000;
+  }
+
+  /**
+   * Claim and publish one batch of due messages.
+   *
+   * @returns Number of messages claimed
+   */
+  relayPending(): Promise<number> {
+    this.current = this.relayBatch();
+    return this.current;
+  }
+
+  async stop(): Promise<void> {
+    await super.stop();
+    await this.current.catch(() => undefined);
+  }
+
+  protected async executeAsync(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      let claimed = 0;
+      try {
+        claimed = await this.relayPending();
+      } catch (error) {
+        console.error(`[${this.name}] Failed to relay outbox messages:`, error);
+      }
+
+      // A full batch suggests more messages are due
+      if (claimed < this.batchSize) {
+        try {
+          await this.delay(this.pollInterval, signal);
+        } catch {
+          break;
+        }
+      }
+    }
+  }
+
+  private async relayBatch(): Promise<number> {
+    const now = Date.now();
+    const messages = await this.outbox.claim(
+      this.batchSize,
+      now,
+      now + this.leaseTime,
+    );
+
+    for (const message of messages) {
+      await this.relay(message);
+    }
+    return messages.length;
+  }
+
+  private async relay(message: OutboxMessage): Promise<void> {
+    try {
+      await this.eventBus.publish(message.event);
+    } catch (cause) {
+      const error = cause instanceof Error ? cause : new Error(String(cause));
+      if (message.attempts >= this.maxAttempts) {
+        await this.outbox.markFailed(message.id, error.message);
+        this.options.onDeadLetter?.(
+          { ...message, status: 'dead', lastError: error.message },
+          error,
+        );
+        return;
+      }
+
+      const delay = Math.min(
+        this.retryDelay * 2 ** (message.attempts - 1),
+        this.maxRetryDelay,
+      );
+      await this.outbox.markFailed(
+        message.id,
+        error.message,
+        Date.now() + delay,
+      );
+      return;
+    }
+
+    await this.outbox.markPublished(message.id);
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * @struktos/core - Outbox Unit of Work
+ *
+ * Decorates an IUnitOfWork so that committing it also writes the domain
+ * events of the aggregates it tracks to an outbox.
+ *
+ * @module infrastructure/outbox/OutboxUnitOfWork
+ */
+
+import type {
+  IContext,
+  StruktosContextData,
+} from '../../domain/context/IContext';
+import type { IEventRaisingEntity } from '../../domain/events/IDomainEvent';
+import { TransactionState } from '../../domain/repository/IUnitOfWork';
+import type {
+  IUnitOfWork,
+  RepositoryToken,
+  TransactionOptions,
+  TransactionResult,
+} from '../../domain/repository/IUnitOfWork';
+import { toOutboxMessage } from './Outbox';
+import type { IOutboxStore, OutboxMessage } from './Outbox';
+
+/**
+ * Options for OutboxUnitOfWork.
+ */
+export interface OutboxUnitOfWorkOptions {
+  /**
+   * Called when the messages of a committed transaction could not be
+   * released. They stay staged; release them with `IOutboxStore.release()`
+   * once the store is reachable. Defaults to logging the error.
+   */
+  onError?: (error: Error, messages: OutboxMessage[]) => void;
+}
+
+/**
+ * OutboxUnitOfWork - Saves the events of tracked aggregates with the
+ * transaction.
+ *
+ * On `commit()`, the `domainEvents` of every tracked aggregate are added
+ * to the outbox through the wrapped unit of work, then the transaction is
+ * committed, the messages are released to the relay and the aggregates'
+ * events are cleared. Until then, stores that cannot join the transaction
+ * keep the messages staged, so no relay publishes them early. If the
+ * commit fails, the messages are discarded and the events stay on the
+ * aggregates. On `rollback()`, the events are dropped. If releasing the
+ * messages fails after the commit, the error goes to `options.onError`
+ * and the commit still succeeds.
+ *
+ * Events raised after a savepoint are not removed by
+ * `rollbackToSavepoint()`.
+ *
+ * @example
+ * ```typescript
+ * const uow = new OutboxUnitOfWork(unitOfWorkFactory.create(), outbox);
+ *
+ * await uow.executeInTransaction(async () => {
+ *   const order = Order.place(customerId, items);
+ *   await uow.getRepository(OrderRepository).save(order);
+ *   uow.track(order);
+ * });
+ * // OrderPlaced is in the outbox; an OutboxRelay publishes it
+ * ```
+ */
+export class OutboxUnitOfWork<
+  TContext extends StruktosContextData = StruktosContextData,
+> implements IUnitOfWork<TContext> {
+  private readonly tracked = new Set<IEventRaisingEntity>();
+
+  constructor(
+    private readonly inner: IUnitOfWork<TContext>,
+    private readonly outbox: IOutboxStore,
+    private readonly options: OutboxUnitOfWorkOptions = {},
+  ) {}
+
+  get state(): TransactionState {
+    return this.inner.state;
+  }
+
+  get context(): IContext<TContext> | undefined {
+    return this.inner.context;
+  }
+
+  get id(): string {
+    return this.inner.id;
+  }
+
+  /**
+   * Save the events of these aggregates to the outbox on commit.
+   */
+  track(...aggregates: IEventRaisingEntity[]): void {
+    for (const aggregate of aggregates) {
+      this.tracked.add(aggregate);
+    }
+  }
+
+  async start(options?: TransactionOptions): Promise<void> {
+    this.tracked.clear();
+    await this.inner.start(options);
+  }
+
+  async commit(): Promise<TransactionResult> {
+    const aggregates = [...this.tracked];
+    const now = new Date();
+    const messages = aggregates.flatMap((aggregate) =>
+      aggregate.domainEvents.map((event) => toOutboxMessage(event, now)),
+    );
+
+    if (messages.length > 0) {
+      await this.outbox.add(messages, this.inner);
+    }
+
+    let result: TransactionResult;
+    try {
+      result = await this.inner.commit();
+    } catch (error) {
+      await this.discard(messages);
+      throw error;
+    }
+    if (!result.success) {
+      await this.discard(messages);
+      return result;
+    }
+
+    await this.release(messages);
+    for (const aggregate of aggregates) {
+      aggregate.clearEvents();
+    }
+    this.tracked.clear();
+    return result;
+  }
+
+  async rollback(): Promise<TransactionResult> {
+    this.dropEvents();
+    return this.inner.rollback();
+  }
+
+  getRepository<TRepository>(token: RepositoryToken<TRepository>): TRepository {
+    return this.inner.getRepository(token);
+  }
+
+  hasRepository(token: RepositoryToken<unknown>): boolean {
+    return this.inner.hasRepository(token);
+  }
+
+  async executeInTransaction<TResult>(
+    callback: (unitOfWork: IUnitOfWork<TContext>) => Promise<TResult>,
+    options?: TransactionOptions,
+  ): Promise<TResult> {
+    await this.start(options);
+    try {
+      const result = await callback(this);
+      const commit = await this.commit();
+      if (!commit.success) {
+        throw commit.error ?? new Error('Transaction failed to commit');
+      }
+      return result;
+    } catch (error) {
+      if (this.state === TransactionState.Active) {
+        await this.rollback();
+      } else {
+        this.dropEvents();
+      }
+      throw error;
+    }
+  }
+
+  createSavepoint(name: string): Promise<void> {
+    return this.inner.createSavepoint(name);
+  }
+
+  rollbackToSavepoint(name: string): Promise<void> {
+    return this.inner.rollbackToSavepoint(name);
+  }
+
+  releaseSavepoint(name: string): Promise<void> {
+    return this.inner.releaseSavepoint(name);
+  }
+
+  setContext(context: IContext<TContext>): void {
+    this.inner.setContext(context);
+  }
+
+  async dispose(): Promise<void> {
+    this.tracked.clear();
+    await this.inner.dispose();
+  }
+
+  // ==================== Helpers ====================
+
+  private dropEvents(): void {
+    for (const aggregate of this.tracked) {
+      aggregate.clearEvents();
+    }
+    this.tracked.clear();
+  }
+
+  /**
+   * Release the messages of a committed transaction. The commit stands
+   * either way, so a failure is reported instead of thrown.
+   */
+  private async release(messages: OutboxMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+    try {
+      await this.outbox.release(messages.map((message) => message.id));
+    } catch (cause) {
+      const error = cause instanceof Error ? cause : new Error(String(cause));
+      if (this.options.onError) {
+        this.options.onError(error, messages);
+      } else {
+        console.error(
+          `[${this.constructor.name}] Failed to release ${messages.length} outbox message(s) of transaction '${this.id}':`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async discard(messages: OutboxMessage[]): Promise<void> {
+    if (messages.length > 0) {
+      await this.outbox.discard(messages.map((message) => message.id));
+    }
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * @struktos/core - Outbox Module
+ *
+ * Transactional outbox for domain events
+ */
+
+export {
+  InMemoryOutboxStore,
+  FileOutboxStore,
+  toOutboxMessage,
+} from './Outbox';
+export { OutboxUnitOfWork } from './OutboxUnitOfWork';
+export { OutboxRelay } from './OutboxRelay';
+
+export type {
+  IOutboxStore,
+  OutboxMessage,
+  OutboxMessageStatus,
+} from './Outbox';
+export type { OutboxUnitOfWorkOptions } from './OutboxUnitOfWork';
+export type { OutboxRelayOptions } from './OutboxRelay';
@@ -0,0 +1,100 @@
+/**
+ * @struktos/core - File Storage
+ *
+ * File access shared by the file-backed stores: reading the file once on
+ * first use, serialized writes, and atomic replacement through a temporary
+ * file.
+ *
+ * @module infrastructure/persistence/FileStorage
+ * @internal
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * FileStorage - The file behind a file-backed store.
+ *
+ * Writes run one at a time, in call order, and a failed write does not
+ * stop the ones queued after it. The file is meant for one process at a
+ * time.
+ *
+ * @internal
+ */
+export class FileStorage {
+  private loaded?: Promise<void>;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Read the file on the first call and pass its content to `restore`.
+   * Later calls wait for the same read. A missing file restores nothing.
+   */
+  load(restore: (content: string) => void | Promise<void>): Promise<void> {
+    this.loaded ??= this.read().then(async (content) => {
+      if (content !== undefined) {
+        await restore(content);
+      }
+    });
+    return this.loaded;
+  }
+
+  /**
+   * Run a task after every write queued before it.
+   */
+  serialize<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.writes.then(task, task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Replace the whole file, through a temporary file and a rename so a
+   * crash never leaves it half written.
+   */
+  replace(content: string): Promise<void> {
+    return this.serialize(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, content, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+  }
+
+  /**
+   * Append to the file. Call it from a `serialize()` task to keep appends
+   * in order.
+   */
+  async append(content: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, content, 'utf8');
+  }
+
+  /**
+   * Cut the file to `length` bytes.
+   */
+  truncate(length: number): Promise<void> {
+    return fs.truncate(this.filePath, length);
+  }
+
+  private async read(): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Copy a value as plain JSON, as a file-backed store would read it back.
+ *
+ * @internal
+ */
+export function toJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
@@ -26,6 +26,7 @@ export {
   StruktosMiddlewareBase,
   LoggingMiddleware,
   TimingMiddleware,
+  IdempotencyKeyMiddleware,
   ErrorHandlingMiddleware,
   CorsMiddleware,
 } from './middleware';
@@ -6,6 +6,7 @@
  */
 
 import { RequestContext, StruktosContextData } from '../../domain/context';
+import type { IDIServiceProvider } from '../../application/di/IDependencyInjection';
 import { StruktosRequest, StruktosResponse } from './types';
 
 /**
@@ -31,12 +32,23 @@ export interface MiddlewareContext<
   /** Items bag for passing data between middlewares */
   items: Map<string, any>;
 
-  /** Request services (DI container access) */
-  services?: IServiceProvider;
+  /**
+   * Request services (DI container access)
+   *
+   * When the application has a root service provider, StruktosApp sets this
+   * to a scope created for the request. Scoped services are shared within
+   * the request and disposed when the pipeline finishes. The scope is also
+   * stored in the request context as `services`, so handlers dispatched
+   * during the request are resolved from it.
+   */
+  services?: IDIServiceProvider;
 }
 
 /**
  * Service provider interface for dependency injection
+ *
+ * @deprecated `MiddlewareContext.services` is an `IDIServiceProvider`;
+ * use its `getService()` instead.
  */
 export interface IServiceProvider {
   /**
@@ -224,6 +236,30 @@ export class TimingMiddleware extends StruktosMiddlewareBase {
   }
 }
 
+/**
+ * Idempotency key middleware - copies the Idempotency-Key request header
+ * into the request context, where the CommandBus uses it as the
+ * idempotency key for commands executed by the request
+ */
+export class IdempotencyKeyMiddleware extends StruktosMiddlewareBase {
+  constructor(private readonly headerName: string = 'Idempotency-Key') {
+    super();
+  }
+
+  async invoke(ctx: MiddlewareContext, next: NextFunction): Promise<void> {
+    const name = this.headerName.toLowerCase();
+    const header = Object.entries(ctx.request.headers).find(
+      ([key]) => key.toLowerCase() === name,
+    )?.[1];
+    const key = Array.isArray(header) ? header[0] : header;
+
+    if (key) {
+      ctx.context.set('idempotencyKey', key);
+    }
+    await next();
+  }
+}
+
 /**
  * Error handling middleware - catches errors and formats response
  */
@@ -0,0 +1,123 @@
+/**
+ * @struktos/core - Read Replica Router
+ *
+ * Connection router for a primary database and a pool of read replicas,
+ * with read-your-writes stickiness per request.
+ *
+ * @example
+ * ```typescript
+ * const router = new ReadReplicaRouter({
+ *   primary: primaryPool,
+ *   replicas: [replicaPool1, replicaPool2],
+ *   stickinessWindow: 5000,
+ * });
+ *
+ * const commandBus = new CommandBus({
+ *   behaviors: [
+ *     new UnitOfWorkBehavior(() => uowFactory.create(), {
+ *       connectionRouter: router,
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+
+import type { IContext } from '../../domain/context/IContext';
+import { RequestContext } from '../../domain/context/RequestContext';
+import {
+  ConnectionRole,
+  ConnectionRouting,
+  IConnectionRouter,
+} from '../../domain/repository/IConnectionRouter';
+import { CacheManager } from '../cache/CacheManager';
+
+/**
+ * Configuration for a ReadReplicaRouter.
+ */
+export interface ReadReplicaRouterOptions<TConnection> {
+  /** Connection to the primary database */
+  primary: TConnection;
+
+  /** Connections to the read replicas, used in turn */
+  replicas?: TConnection[];
+
+  /**
+   * How long reads stay on the primary after a request writes, in
+   * milliseconds. Should exceed the usual replication lag.
+   * @defaultValue 5000
+   */
+  stickinessWindow?: number;
+
+  /**
+   * Key identifying requests that share stickiness.
+   *
+   * Defaults to the user ID, else the request ID or trace ID, so a user's
+   * later requests also read their writes.
+   */
+  stickinessKey?: (context: IContext) => string | undefined;
+
+  /**
+   * Number of stickiness keys kept.
+   * @defaultValue 10000
+   */
+  capacity?: number;
+}
+
+function defaultStickinessKey(context: IContext): string | undefined {
+  return (context.get('userId') ??
+    context.get('requestId') ??
+    context.get('traceId')) as string | undefined;
+}
+
+/**
+ * ReadReplicaRouter - Routes reads to replicas and writes to the primary.
+ *
+ * @template TConnection - Connection, pool or client type of the adapter
+ */
+export class ReadReplicaRouter<
+  TConnection,
+> implements IConnectionRouter<TConnection> {
+  private readonly replicas: TConnection[];
+  private readonly recentWrites: CacheManager<string, true>;
+  private next = 0;
+
+  constructor(private readonly options: ReadReplicaRouterOptions<TConnection>) {
+    this.replicas = [...(options.replicas ?? [])];
+    this.recentWrites = new CacheManager(options.capacity ?? 10000);
+  }
+
+  getConnection(role?: ConnectionRole): TConnection {
+    if (this.resolveRole(role) === 'primary') {
+      return this.options.primary;
+    }
+    const replica = this.replicas[this.next % this.replicas.length]!;
+    this.next = (this.next + 1) % this.replicas.length;
+    return replica;
+  }
+
+  resolveRole(role?: ConnectionRole): ConnectionRole {
+    const preferred = role ?? ConnectionRouting.current() ?? 'primary';
+    if (preferred === 'primary' || this.replicas.length === 0) {
+      return 'primary';
+    }
+
+    const key = this.getStickinessKey(RequestContext.current());
+    return key !== undefined && this.recentWrites.has(key)
+      ? 'primary'
+      : 'replica';
+  }
+
+  recordWrite(context: IContext | undefined = RequestContext.current()): void {
+    const key = this.getStickinessKey(context);
+    if (key !== undefined) {
+      this.recentWrites.set(key, true, this.options.stickinessWindow ?? 5000);
+    }
+  }
+
+  private getStickinessKey(context: IContext | undefined): string | undefined {
+    if (!context) {
+      return undefined;
+    }
+    return (this.options.stickinessKey ?? defaultStickinessKey)(context);
+  }
+}
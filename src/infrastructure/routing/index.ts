@@ -0,0 +1,9 @@
+/**
+ * @struktos/core - Routing Module
+ *
+ * Database connection routing for read replicas
+ */
+
+export { ReadReplicaRouter } from './ReadReplicaRouter';
+
+export type { ReadReplicaRouterOptions } from './ReadReplicaRouter';
@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Unit tests for correlation and causation propagation
+ *
+ * Tests that commands, queries and aggregate events dispatched while
+ * handling a message inherit its correlation ID and reference it as their
+ * cause, and that InMemoryMessageLog rebuilds the causal tree of a request.
+ */
+
+import {
+  AggregateRoot,
+  buildCausalTree,
+  CausationContext,
+  CommandBase,
+  CommandBus,
+  EventMetadata,
+  IDomainEvent,
+  InMemoryMessageLog,
+  MessageLogBehavior,
+  MessageRecord,
+  QueryBase,
+  QueryBus,
+  RequestContext,
+  toMessageRecord,
+} from '../../../src';
+
+// ============================================================================
+// Test Messages & Helpers
+// ============================================================================
+
+class PlaceOrderCommand extends CommandBase<string> {
+  constructor(public readonly orderId: string) {
+    super();
+  }
+}
+
+class ReserveStockCommand extends CommandBase<boolean> {
+  constructor(public readonly orderId: string) {
+    super();
+  }
+}
+
+class GetPriceQuery extends QueryBase<number> {
+  constructor(public readonly orderId: string) {
+    super();
+  }
+}
+
+class OrderPlacedEvent implements IDomainEvent<{ orderId: string }> {
+  public readonly eventName = 'OrderPlaced';
+  public readonly metadata: EventMetadata;
+
+  constructor(public readonly payload: { orderId: string }) {
+    this.metadata = {
+      eventId: `evt-${payload.orderId}`,
+      occurredAt: new Date().toISOString(),
+    };
+  }
+}
+
+class Order extends AggregateRoot {
+  constructor(public readonly id: string) {
+    super();
+    this.raiseEvent(new OrderPlacedEvent({ orderId: id }));
+  }
+}
+
+function record(messageId: string, causationId?: string): MessageRecord {
+  return {
+    messageId,
+    messageType: messageId,
+    kind: 'command',
+    correlationId: 'corr',
+    causationId,
+    timestamp: new Date(0),
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Causation propagation', () => {
+  let log: InMemoryMessageLog;
+  let commandBus: CommandBus;
+  let queryBus: QueryBus;
+  let messages: {
+    placeOrder?: PlaceOrderCommand;
+    reserveStock?: ReserveStockCommand;
+    getPrice?: GetPriceQuery;
+    order?: Order;
+  };
+
+  beforeEach(() => {
+    log = new InMemoryMessageLog();
+    commandBus = new CommandBus({ behaviors: [new MessageLogBehavior(log)] });
+    queryBus = new QueryBus({ behaviors: [new MessageLogBehavior(log)] });
+    messages = {};
+
+    commandBus.register(PlaceOrderCommand, {
+      execute: async (command) => {
+        messages.placeOrder = command;
+        messages.getPrice = new GetPriceQuery(command.orderId);
+        await queryBus.execute(messages.getPrice);
+        messages.reserveStock = new ReserveStockCommand(command.orderId);
+        await commandBus.execute(messages.reserveStock);
+        messages.order = new Order(command.orderId);
+        await log.record(toMessageRecord(messages.order.domainEvents[0])!);
+        return command.orderId;
+      },
+    });
+    commandBus.register(ReserveStockCommand, { execute: async () => true });
+    queryBus.register(GetPriceQuery, { execute: async () => 42 });
+  });
+
+  it('should link nested messages to the request and their cause', async () => {
+    await RequestContext.run({ traceId: 'trace-1' }, () =>
+      commandBus.execute(new PlaceOrderCommand('o-1')),
+    );
+
+    const { placeOrder, reserveStock, getPrice, order } = messages;
+    const commandId = placeOrder!.metadata.commandId;
+    const event = order!.domainEvents[0]!;
+
+    expect(placeOrder!.metadata.correlationId).toBe('trace-1');
+    expect(placeOrder!.metadata.causationId).toBeUndefined();
+    expect(reserveStock!.metadata).toMatchObject({
+      correlationId: 'trace-1',
+      causationId: commandId,
+    });
+    expect(getPrice!.metadata).toMatchObject({
+      correlationId: 'trace-1',
+      causationId: commandId,
+    });
+    expect(event.metadata).toMatchObject({
+      correlationId: 'trace-1',
+      causationId: commandId,
+    });
+  });
+
+  it('should keep an explicit correlation ID', async () => {
+    const command = new PlaceOrderCommand('o-2');
+    command.metadata.correlationId = 'explicit';
+
+    await RequestContext.run({ traceId: 'trace-2' }, () =>
+      commandBus.execute(command),
+    );
+
+    expect(messages.reserveStock!.metadata.correlationId).toBe('explicit');
+  });
+
+  it('should use the message ID of a root outside any context', async () => {
+    const command = new PlaceOrderCommand('o-3');
+
+    await commandBus.execute(command);
+
+    expect(command.metadata.correlationId).toBe(command.metadata.commandId);
+    expect(messages.getPrice!.metadata.correlationId).toBe(
+      command.metadata.commandId,
+    );
+    expect(CausationContext.current()).toBeUndefined();
+  });
+
+  it('should rebuild the causal tree of a request', async () => {
+    await RequestContext.run({ traceId: 'trace-4' }, () =>
+      commandBus.execute(new PlaceOrderCommand('o-4')),
+    );
+
+    const tree = await log.getCausalTree('trace-4');
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0]!.message).toMatchObject({
+      kind: 'command',
+      messageType: 'PlaceOrderCommand',
+    });
+    expect(
+      tree[0]!.children.map((node) => [
+        node.message.kind,
+        node.message.messageType,
+      ]),
+    ).toEqual([
+      ['query', 'GetPriceQuery'],
+      ['command', 'ReserveStockCommand'],
+      ['event', 'OrderPlaced'],
+    ]);
+  });
+
+  it('should treat messages with an unknown cause as roots', () => {
+    const tree = buildCausalTree([
+      record('a', 'missing'),
+      record('b', 'a'),
+      record('c', 'b'),
+      record('d'),
+    ]);
+
+    expect(tree.map((node) => node.message.messageId)).toEqual(['a', 'd']);
+    expect(tree[0]!.children[0]!.children[0]!.message.messageId).toBe('c');
+  });
+});
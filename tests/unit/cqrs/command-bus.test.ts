@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Unit tests for the in-memory CommandBus
+ *
+ * Tests handler routing, CommandResult population, timeout/retry policies,
+ * and pipeline behavior ordering.
+ */
+
+import {
+  CommandBase,
+  CommandBus,
+  CommandHandlerNotFoundError,
+  CommandTimeoutError,
+  ICommand,
+  ICommandHandler,
+  IPipelineBehavior,
+  RequestContext,
+} from '../../../src';
+
+// ============================================================================
+// Test Commands & Handlers
+// ============================================================================
+
+class CreateUserCommand extends CommandBase<string> {
+  constructor(public readonly email: string) {
+    super();
+  }
+}
+
+class CreateUserHandler implements ICommandHandler<CreateUserCommand, string> {
+  public calls = 0;
+
+  async execute(command: CreateUserCommand): Promise<string> {
+    this.calls++;
+    return `user:${command.email}`;
+  }
+}
+
+class FlakyHandler implements ICommandHandler<CreateUserCommand, string> {
+  public calls = 0;
+
+  constructor(private readonly failures: number) {}
+
+  async execute(): Promise<string> {
+    this.calls++;
+    if (this.calls <= this.failures) {
+      throw new Error(`transient failure ${this.calls}`);
+    }
+    return 'ok';
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('CommandBus', () => {
+  let bus: CommandBus;
+
+  beforeEach(() => {
+    bus = new CommandBus({ retryDelay: 1 });
+  });
+
+  // ==========================================================================
+  // ROUTING
+  // ==========================================================================
+
+  describe('Handler Routing', () => {
+    it('should route a CommandBase command registered by class', async () => {
+      bus.register(CreateUserCommand, new CreateUserHandler());
+
+      await expect(
+        bus.execute(new CreateUserCommand('john@example.com')),
+      ).resolves.toBe('user:john@example.com');
+    });
+
+    it('should route a plain object command by __type', async () => {
+      bus.register('PingCommand', {
+        execute: async () => 'pong',
+      });
+
+      const command = { __type: 'PingCommand' } as ICommand<string>;
+      await expect(bus.execute(command)).resolves.toBe('pong');
+    });
+
+    it('should report registered handlers', () => {
+      bus.register('CreateUserCommand', new CreateUserHandler());
+
+      expect(bus.hasHandler('CreateUserCommand')).toBe(true);
+      expect(bus.hasHandler('DeleteUserCommand')).toBe(false);
+    });
+
+    it('should reject duplicate registrations', () => {
+      bus.register('CreateUserCommand', new CreateUserHandler());
+
+      expect(() =>
+        bus.register('CreateUserCommand', new CreateUserHandler()),
+      ).toThrow(/already registered/);
+    });
+
+    it('should throw CommandHandlerNotFoundError for unknown commands', async () => {
+      await expect(
+        bus.execute(new CreateUserCommand('john@example.com')),
+      ).rejects.toBeInstanceOf(CommandHandlerNotFoundError);
+    });
+  });
+
+  // ==========================================================================
+  // COMMAND RESULT
+  // ==========================================================================
+
+  describe('executeWithResult', () => {
+    it('should populate a successful CommandResult', async () => {
+      bus.register('CreateUserCommand', new CreateUserHandler());
+      const command = new CreateUserCommand('a@b.c');
+
+      const result = await RequestContext.run({ traceId: 'trace-123' }, () =>
+        bus.executeWithResult(command),
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.value).toBe('user:a@b.c');
+      expect(result.commandId).toBe(command.metadata.commandId);
+      expect(result.commandType).toBe('CreateUserCommand');
+      expect(result.traceId).toBe('trace-123');
+      expect(result.duration).toBeGreaterThanOrEqual(0);
+      expect(result.completedAt.getTime()).toBeGreaterThanOrEqual(
+        result.startedAt.getTime(),
+      );
+    });
+
+    it('should serialize errors instead of throwing', async () => {
+      const result = await bus.executeWithResult(new CreateUserCommand('x'));
+
+      expect(result.success).toBe(false);
+      expect(result.value).toBeUndefined();
+      expect(result.error?.name).toBe('CommandHandlerNotFoundError');
+      expect(result.error?.message).toContain('CreateUserCommand');
+    });
+  });
+
+  // ==========================================================================
+  // TIMEOUT & RETRY
+  // ==========================================================================
+
+  describe('Timeout and Retry', () => {
+    it('should fail with CommandTimeoutError when the handler is too slow', async () => {
+      bus.register('CreateUserCommand', {
+        execute: () =>
+          new Promise<string>((r) => setTimeout(() => r('late'), 50)),
+      });
+
+      await expect(
+        bus.execute(new CreateUserCommand('x'), { timeout: 5 }),
+      ).rejects.toBeInstanceOf(CommandTimeoutError);
+    });
+
+    it('should not retry a timed-out handler that may still be running', async () => {
+      let calls = 0;
+      bus.register('CreateUserCommand', {
+        execute: () => {
+          calls++;
+          return new Promise<string>((r) => setTimeout(() => r('late'), 30));
+        },
+      });
+
+      await expect(
+        bus.execute(new CreateUserCommand('x'), { timeout: 5, retries: 2 }),
+      ).rejects.toBeInstanceOf(CommandTimeoutError);
+      await new Promise((r) => setTimeout(r, 40));
+      expect(calls).toBe(1);
+    });
+
+    it('should retry transient failures up to the configured count', async () => {
+      const handler = new FlakyHandler(2);
+      bus.register('CreateUserCommand', handler);
+
+      await expect(
+        bus.execute(new CreateUserCommand('x'), { retries: 2 }),
+      ).resolves.toBe('ok');
+      expect(handler.calls).toBe(3);
+    });
+
+    it('should give up once retries are exhausted', async () => {
+      const handler = new FlakyHandler(5);
+      bus.register('CreateUserCommand', handler);
+
+      await expect(
+        bus.execute(new CreateUserCommand('x'), { retries: 1 }),
+      ).rejects.toThrow('transient failure 2');
+      expect(handler.calls).toBe(2);
+    });
+  });
+
+  // ==========================================================================
+  // PIPELINE BEHAVIORS
+  // ==========================================================================
+
+  describe('Pipeline Behaviors', () => {
+    it('should run behaviors in registration order around the handler', async () => {
+      const order: string[] = [];
+      const behavior = (name: string): IPipelineBehavior => ({
+        async handle(_request, next) {
+          order.push(`${name}:before`);
+          const result = await next();
+          order.push(`${name}:after`);
+          return result;
+        },
+      });
+
+      bus = new CommandBus({ behaviors: [behavior('outer')] });
+      bus.addBehavior(behavior('inner'));
+      bus.register('CreateUserCommand', {
+        execute: async () => {
+          order.push('handler');
+          return 'done';
+        },
+      });
+
+      await bus.execute(new CreateUserCommand('x'));
+
+      expect(order).toEqual([
+        'outer:before',
+        'inner:before',
+        'handler',
+        'inner:after',
+        'outer:after',
+      ]);
+    });
+
+    it('should pass a HandlerContext built from the RequestContext', async () => {
+      let seenUserId: string | undefined;
+      bus.addBehavior({
+        async handle(_request, next, context) {
+          seenUserId = context?.userId;
+          return next();
+        },
+      });
+      bus.register('CreateUserCommand', new CreateUserHandler());
+
+      await RequestContext.run({ userId: 'user-42' }, () =>
+        bus.execute(new CreateUserCommand('x')),
+      );
+
+      expect(seenUserId).toBe('user-42');
+    });
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * @fileoverview Unit tests for async command dispatch
+ *
+ * Tests queueing with `{ async: true }`, priority ordering and concurrency
+ * in CommandQueueWorker, polling through executeWithResult(), and the
+ * in-memory and file-backed queue stores.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  CommandBase,
+  CommandBus,
+  CommandQueueWorker,
+  FileCommandQueueStore,
+  ICommand,
+  InMemoryCommandQueueStore,
+  QueuedCommand,
+  RequestContext,
+} from '../../../src';
+
+// ============================================================================
+// Test Commands & Helpers
+// ============================================================================
+
+class SendEmailCommand extends CommandBase<string> {
+  constructor(public readonly to: string) {
+    super();
+  }
+}
+
+class ArchiveCommand implements ICommand<string> {
+  declare readonly __resultType?: string;
+
+  constructor(public readonly folder: string) {}
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => Promise<boolean> | boolean) {
+  const deadline = Date.now() + 2000;
+  while (!(await condition()) && Date.now() < deadline) {
+    await sleep(5);
+  }
+}
+
+function createEntry(commandId: string, priority: number): QueuedCommand {
+  return {
+    commandId,
+    commandType: 'SendEmailCommand',
+    command: new SendEmailCommand(commandId),
+    priority,
+    enqueuedAt: Date.now(),
+    status: 'pending',
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Async command dispatch', () => {
+  let queue: InMemoryCommandQueueStore;
+  let bus: CommandBus;
+  let worker: CommandQueueWorker | undefined;
+  let sent: string[];
+
+  beforeEach(() => {
+    queue = new InMemoryCommandQueueStore();
+    bus = new CommandBus({ queue, resultPollInterval: 5 });
+    sent = [];
+    bus.register(SendEmailCommand, {
+      execute: async (command) => {
+        if (command.to === 'invalid') {
+          throw new Error('Invalid recipient');
+        }
+        sent.push(command.to);
+        return `sent:${command.to}`;
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await worker?.stop();
+    worker = undefined;
+  });
+
+  function startWorker(concurrency = 1): CommandQueueWorker {
+    worker = new CommandQueueWorker(bus, queue, {
+      concurrency,
+      pollInterval: 5,
+    });
+    void worker.start();
+    return worker;
+  }
+
+  // ==========================================================================
+  // COMMAND BUS
+  // ==========================================================================
+
+  describe('CommandBus', () => {
+    it('should queue async commands and return the command ID', async () => {
+      const command = new SendEmailCommand('a@example.com');
+
+      const commandId = await bus.execute(command, { async: true });
+
+      expect(commandId).toBe(command.metadata.commandId);
+      expect(sent).toEqual([]);
+      await expect(queue.size()).resolves.toBe(1);
+      await expect(bus.getCommandResult(commandId)).resolves.toBeUndefined();
+    });
+
+    it('should require a queue for async execution', async () => {
+      const plainBus = new CommandBus();
+      plainBus.register(SendEmailCommand, { execute: async () => 'ok' });
+
+      await expect(
+        plainBus.execute(new SendEmailCommand('a'), { async: true }),
+      ).rejects.toThrow(/requires a command queue/);
+    });
+
+    it('should reject commands without a handler before queueing', async () => {
+      await expect(
+        bus.execute({ __type: 'Unknown' } as never, { async: true }),
+      ).rejects.toThrow("No handler registered for command 'Unknown'");
+      await expect(queue.size()).resolves.toBe(0);
+    });
+
+    it('should poll for the result in executeWithResult()', async () => {
+      startWorker();
+
+      const result = await bus.executeWithResult(new SendEmailCommand('b'), {
+        async: true,
+      });
+
+      expect(result).toMatchObject({ success: true, value: 'sent:b' });
+    });
+
+    it('should time out while waiting for a queued command', async () => {
+      const result = await bus.executeWithResult(new SendEmailCommand('c'), {
+        async: true,
+        timeout: 20,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('CommandTimeoutError');
+    });
+  });
+
+  // ==========================================================================
+  // WORKER
+  // ==========================================================================
+
+  describe('CommandQueueWorker', () => {
+    it('should run higher priorities first, in order within a priority', async () => {
+      await bus.execute(new SendEmailCommand('low'), { async: true });
+      await bus.execute(new SendEmailCommand('high-1'), {
+        async: true,
+        priority: 10,
+      });
+      await bus.execute(new SendEmailCommand('normal'), {
+        async: true,
+        priority: 5,
+      });
+      const lastId = await bus.execute(new SendEmailCommand('high-2'), {
+        async: true,
+        priority: 10,
+      });
+
+      startWorker();
+      await waitFor(() => sent.length === 4);
+
+      expect(sent).toEqual(['high-1', 'high-2', 'normal', 'low']);
+      await expect(bus.getCommandResult(lastId)).resolves.toMatchObject({
+        commandId: lastId,
+        success: true,
+        value: 'sent:high-2',
+      });
+    });
+
+    it('should store failures as unsuccessful results', async () => {
+      const commandId = await bus.execute(new SendEmailCommand('invalid'), {
+        async: true,
+      });
+
+      startWorker();
+      await waitFor(async () => !!(await bus.getCommandResult(commandId)));
+
+      await expect(bus.getCommandResult(commandId)).resolves.toMatchObject({
+        success: false,
+        error: { message: 'Invalid recipient' },
+      });
+    });
+
+    it('should restore the request context captured at enqueue time', async () => {
+      let userId: unknown;
+      bus.register('AuditCommand', {
+        execute: async () => {
+          userId = RequestContext.current()?.get('userId');
+        },
+      });
+
+      await RequestContext.run({ userId: 'user-7' }, () =>
+        bus.execute({ __type: 'AuditCommand' } as ICommand, { async: true }),
+      );
+      startWorker();
+      await waitFor(() => userId !== undefined);
+
+      expect(userId).toBe('user-7');
+    });
+
+    it('should limit the number of commands running at once', async () => {
+      let running = 0;
+      let peak = 0;
+      let done = 0;
+      bus.register('SlowCommand', {
+        execute: async () => {
+          peak = Math.max(peak, ++running);
+          await sleep(15);
+          running--;
+          done++;
+        },
+      });
+      for (let i = 0; i < 5; i++) {
+        await bus.execute({ __type: 'SlowCommand' } as ICommand, {
+          async: true,
+        });
+      }
+
+      startWorker(2);
+      await waitFor(() => done === 5);
+
+      expect(peak).toBe(2);
+      await expect(queue.size()).resolves.toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // FILE STORE
+  // ==========================================================================
+
+  describe('FileCommandQueueStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'struktos-queue-'));
+      filePath = path.join(directory, 'queue', 'commands.json');
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist pending commands and results across restarts', async () => {
+      const completedAt = new Date();
+      const store = new FileCommandQueueStore(filePath);
+      await store.enqueue(createEntry('low', 0));
+      await store.enqueue(createEntry('high', 5));
+      await store.enqueue(createEntry('done', 1));
+
+      const done = await store.dequeue();
+      expect(done?.commandId).toBe('high');
+      await store.complete('high', {
+        commandId: 'high',
+        commandType: 'SendEmailCommand',
+        success: true,
+        value: 'ok',
+        duration: 1,
+        startedAt: completedAt,
+        completedAt,
+      });
+      // Interrupted while running
+      await store.dequeue();
+
+      const restarted = new FileCommandQueueStore(filePath);
+
+      await expect(restarted.size()).resolves.toBe(2);
+      expect((await restarted.dequeue())?.commandId).toBe('done');
+      expect((await restarted.dequeue())?.commandId).toBe('low');
+      const result = (await restarted.get('high'))?.result;
+      expect(result?.value).toBe('ok');
+      expect(result?.completedAt).toEqual(completedAt);
+    });
+
+    it('should purge completed commands once their result expires', async () => {
+      const store = new FileCommandQueueStore(filePath, { resultTtl: 20 });
+      await store.enqueue(createEntry('done', 0));
+      await store.dequeue();
+      await store.complete('done', {
+        commandId: 'done',
+        commandType: 'SendEmailCommand',
+        success: false,
+        error: { name: 'Error', message: 'Invalid recipient' },
+        duration: 1,
+        startedAt: new Date(),
+        completedAt: new Date(),
+      });
+      await expect(store.get('done')).resolves.toBeDefined();
+
+      await sleep(30);
+      await expect(store.get('done')).resolves.toBeUndefined();
+      await store.enqueue(createEntry('next', 0));
+
+      const saved = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      expect(saved.map((e: QueuedCommand) => e.commandId)).toEqual(['next']);
+    });
+
+    it('should back a command bus and worker', async () => {
+      queue = new FileCommandQueueStore(filePath);
+      bus = new CommandBus({ queue, resultPollInterval: 5 });
+      bus.register(SendEmailCommand, {
+        execute: async (command) => `sent:${command.to}`,
+      });
+      startWorker();
+
+      const result = await bus.executeWithResult(new SendEmailCommand('d'), {
+        async: true,
+      });
+
+      expect(result).toMatchObject({ success: true, value: 'sent:d' });
+      await worker?.stop();
+      const saved = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      expect(saved).toEqual([
+        expect.objectContaining({ status: 'completed', priority: 0 }),
+      ]);
+    });
+
+    it('should dispatch stored commands by their command type', async () => {
+      queue = new FileCommandQueueStore(filePath);
+      bus = new CommandBus({ queue, resultPollInterval: 5 });
+      bus.register(ArchiveCommand, {
+        execute: async (command) => `archived:${command.folder}`,
+      });
+      startWorker();
+
+      const result = await bus.executeWithResult(new ArchiveCommand('inbox'), {
+        async: true,
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        value: 'archived:inbox',
+      });
+    });
+  });
+});
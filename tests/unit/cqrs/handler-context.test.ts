@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Unit tests for HandlerContext.fromRequestContext()
+ *
+ * Tests copying request data into the handler context, cancellation linked
+ * in both directions, release after the handler finishes, and automatic
+ * construction by the buses.
+ */
+
+import {
+  CommandBase,
+  CommandBus,
+  HandlerContext,
+  QueryBase,
+  QueryBus,
+  RequestContext,
+} from '../../../src';
+
+// ============================================================================
+// Test Messages
+// ============================================================================
+
+class ImportCommand extends CommandBase<string> {
+  constructor() {
+    super();
+  }
+}
+
+class ReportQuery extends QueryBase<string> {
+  constructor() {
+    super({ cacheable: false });
+  }
+}
+
+const requestData = {
+  traceId: 'trace-1',
+  requestId: 'req-1',
+  userId: 'user-1',
+  roles: ['admin'],
+  claims: [{ type: 'tenant', value: 't1' }],
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('HandlerContext', () => {
+  // ==========================================================================
+  // FACTORY
+  // ==========================================================================
+
+  describe('fromRequestContext()', () => {
+    it('should copy identity and tracing data from the current context', () => {
+      const context = RequestContext.run(requestData, () =>
+        HandlerContext.fromRequestContext(undefined, { data: { source: 'x' } }),
+      );
+
+      expect(context).toMatchObject({
+        ...requestData,
+        data: { source: 'x' },
+      });
+      expect(context.requestContext).toBeInstanceOf(RequestContext);
+      expect(context.isCancelled()).toBe(false);
+    });
+
+    it('should work without a request context', () => {
+      const context = HandlerContext.fromRequestContext();
+      const callback = jest.fn();
+      context.onCancel(callback);
+
+      context.cancel?.();
+
+      expect(context.requestContext).toBeUndefined();
+      expect(context.signal?.aborted).toBe(true);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel the handler when the request is cancelled', () => {
+      RequestContext.run(requestData, () => {
+        const request = RequestContext.current()!;
+        const context = HandlerContext.fromRequestContext();
+        const callback = jest.fn();
+        context.onCancel(callback);
+
+        request.cancel();
+
+        expect(context.isCancelled()).toBe(true);
+        expect(context.signal?.aborted).toBe(true);
+        expect(callback).toHaveBeenCalledTimes(1);
+
+        // Registered after cancellation: invoked immediately
+        const late = jest.fn();
+        context.onCancel(late);
+        expect(late).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should cancel the request when the handler cancels', () => {
+      RequestContext.run(requestData, () => {
+        const request = RequestContext.current()!;
+        const requestCallback = jest.fn();
+        request.onCancel(requestCallback);
+
+        HandlerContext.fromRequestContext().cancel?.();
+
+        expect(request.isCancelled()).toBe(true);
+        expect(requestCallback).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should unlink the contexts on release', () => {
+      RequestContext.run(requestData, () => {
+        const request = RequestContext.current()!;
+        const context = HandlerContext.fromRequestContext();
+        const callback = jest.fn();
+        context.onCancel(callback);
+
+        HandlerContext.release(context);
+        request.cancel();
+
+        expect(context.isCancelled()).toBe(false);
+        expect(callback).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should remove its request listener on release', () => {
+      RequestContext.run(requestData, () => {
+        const request = RequestContext.current()!;
+        const onCancel = jest.spyOn(request, 'onCancel');
+        const offCancel = jest.spyOn(request, 'offCancel');
+
+        const context = HandlerContext.fromRequestContext(request);
+        expect(offCancel).not.toHaveBeenCalled();
+        HandlerContext.release(context);
+        expect(offCancel).toHaveBeenCalledWith(onCancel.mock.calls[0]![0]);
+
+        // Removed request listeners are not called
+        const callback = jest.fn();
+        request.onCancel(callback);
+        request.offCancel(callback);
+        request.cancel();
+        expect(callback).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  // ==========================================================================
+  // BUS INTEGRATION
+  // ==========================================================================
+
+  describe('Bus integration', () => {
+    it('should fire handler onCancel callbacks when the request is cancelled', async () => {
+      const bus = new CommandBus({ timeout: 0 });
+      const cancelled = jest.fn();
+      bus.register(ImportCommand, {
+        execute: async (_command, context) => {
+          context?.onCancel(cancelled);
+          RequestContext.current()!.cancel();
+          return context?.isCancelled() ? 'aborted' : 'done';
+        },
+      });
+
+      const result = await RequestContext.run(requestData, () =>
+        bus.execute(new ImportCommand()),
+      );
+
+      expect(result).toBe('aborted');
+      expect(cancelled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the handler context once the handler finishes', async () => {
+      const bus = new QueryBus();
+      let handlerContext: HandlerContext | undefined;
+      bus.register(ReportQuery, {
+        execute: async (_query, context) => {
+          handlerContext = context;
+          return 'report';
+        },
+      });
+
+      await RequestContext.run(requestData, async () => {
+        await bus.execute(new ReportQuery());
+        RequestContext.current()!.cancel();
+      });
+
+      expect(handlerContext?.userId).toBe('user-1');
+      expect(handlerContext?.isCancelled()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Unit tests for decorator-driven handler discovery
+ *
+ * Tests @CommandHandler / @QueryHandler metadata, registration with the DI
+ * container and buses through HandlerScanner, and duplicate detection.
+ */
+
+import 'reflect-metadata';
+
+import {
+  COMMAND_BUS_TOKEN,
+  COMMAND_HANDLERS_TOKEN,
+  CommandBase,
+  CommandHandler,
+  DuplicateHandlerError,
+  getHandlerMetadata,
+  HandlerScanner,
+  ICommandBus,
+  ICommandHandler,
+  Injectable,
+  IPipelineBehavior,
+  IQueryBus,
+  IQueryHandler,
+  PIPELINE_BEHAVIORS_TOKEN,
+  QUERY_BUS_TOKEN,
+  QueryBase,
+  QueryHandler,
+  RequestContext,
+  ServiceCollection,
+  ServiceScope,
+} from '../../../src';
+
+// ============================================================================
+// Test Messages & Handlers
+// ============================================================================
+
+@Injectable({ scope: ServiceScope.Singleton })
+class OrderStore {
+  readonly orders = new Map<string, number>();
+}
+
+class CreateOrderCommand extends CommandBase<string> {
+  constructor(public readonly total: number) {
+    super();
+  }
+}
+
+class GetOrderTotalQuery extends QueryBase<number | undefined> {
+  constructor(public readonly orderId: string) {
+    super({ cacheable: false });
+  }
+}
+
+@CommandHandler(CreateOrderCommand)
+@Injectable({ scope: ServiceScope.Transient })
+class CreateOrderHandler implements ICommandHandler<
+  CreateOrderCommand,
+  string
+> {
+  constructor(private readonly store: OrderStore) {}
+
+  async execute(command: CreateOrderCommand): Promise<string> {
+    const id = `order-${this.store.orders.size + 1}`;
+    this.store.orders.set(id, command.total);
+    return id;
+  }
+}
+
+@QueryHandler(GetOrderTotalQuery)
+@Injectable({ scope: ServiceScope.Transient })
+class GetOrderTotalHandler implements IQueryHandler<
+  GetOrderTotalQuery,
+  number | undefined
+> {
+  constructor(private readonly store: OrderStore) {}
+
+  async execute(query: GetOrderTotalQuery): Promise<number | undefined> {
+    return this.store.orders.get(query.orderId);
+  }
+}
+
+let nextUnitOfWorkId = 1;
+
+@Injectable({ scope: ServiceScope.Scoped })
+class ScopedUnitOfWork {
+  readonly id = nextUnitOfWorkId++;
+  disposed = false;
+
+  dispose(): void {
+    this.disposed = true;
+  }
+}
+
+class RecordUnitOfWorkCommand extends CommandBase<ScopedUnitOfWork> {
+  constructor() {
+    super();
+  }
+}
+
+@CommandHandler(RecordUnitOfWorkCommand)
+@Injectable({ scope: ServiceScope.Transient })
+class RecordUnitOfWorkHandler implements ICommandHandler<
+  RecordUnitOfWorkCommand,
+  ScopedUnitOfWork
+> {
+  constructor(private readonly unitOfWork: ScopedUnitOfWork) {}
+
+  async execute(): Promise<ScopedUnitOfWork> {
+    return this.unitOfWork;
+  }
+}
+
+class GetOrderLabelQuery extends QueryBase<string> {
+  constructor(public readonly orderId: string) {
+    super({ cacheable: false });
+  }
+}
+
+@QueryHandler(GetOrderLabelQuery)
+@Injectable({ scope: ServiceScope.Singleton })
+class GetOrderLabelHandler implements IQueryHandler<
+  GetOrderLabelQuery,
+  string
+> {
+  async execute(query: GetOrderLabelQuery): Promise<string> {
+    return `single:${query.orderId}`;
+  }
+
+  async executeBatch(queries: GetOrderLabelQuery[]): Promise<string[]> {
+    return queries.map((q) => `batch(${queries.length}):${q.orderId}`);
+  }
+}
+
+@QueryHandler('LegacyGetOrderQuery')
+class LegacyGetOrderHandler {
+  async execute(): Promise<string> {
+    return 'legacy';
+  }
+}
+
+@CommandHandler(CreateOrderCommand)
+class LegacyCreateOrderHandler {
+  async execute(): Promise<string> {
+    return 'legacy';
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('HandlerScanner', () => {
+  it('should record handler metadata with the decorators', () => {
+    expect(getHandlerMetadata(CreateOrderHandler)).toEqual({
+      handlerFor: CreateOrderCommand,
+      type: 'command',
+      handlerClass: CreateOrderHandler,
+    });
+    expect(getHandlerMetadata(GetOrderTotalHandler)?.type).toBe('query');
+    expect(getHandlerMetadata(OrderStore)).toBeUndefined();
+  });
+
+  it('should register handlers with the container and the buses', async () => {
+    const services = new ServiceCollection().addSingleton(OrderStore);
+    const scanner = new HandlerScanner([
+      CreateOrderHandler,
+      GetOrderTotalHandler,
+    ]);
+
+    scanner.configureServices(services);
+    const provider = services.buildServiceProvider();
+    scanner.registerHandlers(provider);
+
+    const commandBus = provider.getService<ICommandBus>(COMMAND_BUS_TOKEN);
+    const queryBus = provider.getService<IQueryBus>(QUERY_BUS_TOKEN);
+    const id = await commandBus.execute(new CreateOrderCommand(30));
+
+    await expect(queryBus.execute(new GetOrderTotalQuery(id))).resolves.toBe(
+      30,
+    );
+    expect(provider.getServices(COMMAND_HANDLERS_TOKEN)).toEqual([
+      expect.any(CreateOrderHandler),
+    ]);
+  });
+
+  it('should resolve handlers from the request scope', async () => {
+    const services = new ServiceCollection().addScoped(ScopedUnitOfWork);
+    const scanner = new HandlerScanner([RecordUnitOfWorkHandler]);
+    scanner.configureServices(services);
+    const provider = services.buildServiceProvider({ validateScopes: true });
+    scanner.registerHandlers(provider);
+    const bus = provider.getService<ICommandBus>(COMMAND_BUS_TOKEN);
+
+    const inRequest = () => {
+      const scope = provider.createScope();
+      return RequestContext.run(
+        { services: scope.getServiceProvider() },
+        async () => [
+          await bus.execute(new RecordUnitOfWorkCommand()),
+          await bus.execute(new RecordUnitOfWorkCommand()),
+        ],
+      );
+    };
+    const [first, second] = await inRequest();
+    const [other] = await inRequest();
+
+    expect(first).toBe(second);
+    expect(other).not.toBe(first);
+    expect(first!.disposed).toBe(false);
+
+    // Outside a request, each message gets its own scope
+    const unscoped = await bus.execute(new RecordUnitOfWorkCommand());
+    expect(unscoped).not.toBe(other);
+    expect(unscoped.disposed).toBe(true);
+  });
+
+  it('should build buses with registered behaviors and batch handlers', async () => {
+    const handled: string[] = [];
+    const behavior: IPipelineBehavior = {
+      handle: (request, next) => {
+        handled.push((request as object).constructor.name);
+        return next();
+      },
+    };
+    const services = new ServiceCollection()
+      .addSingleton(OrderStore)
+      .addInstance(PIPELINE_BEHAVIORS_TOKEN, behavior);
+    const scanner = new HandlerScanner([
+      CreateOrderHandler,
+      GetOrderLabelHandler,
+    ]);
+    scanner.configureServices(services);
+    const provider = services.buildServiceProvider();
+    scanner.registerHandlers(provider);
+
+    await provider
+      .getService<ICommandBus>(COMMAND_BUS_TOKEN)
+      .execute(new CreateOrderCommand(10));
+    await expect(
+      provider
+        .getService<IQueryBus>(QUERY_BUS_TOKEN)
+        .executeMany([
+          new GetOrderLabelQuery('a'),
+          new GetOrderLabelQuery('b'),
+        ]),
+    ).resolves.toEqual(['batch(2):a', 'batch(2):b']);
+    expect(handled).toEqual([
+      'CreateOrderCommand',
+      'GetOrderLabelQuery',
+      'GetOrderLabelQuery',
+    ]);
+  });
+
+  it('should register handlers with their @Injectable() lifetime', () => {
+    const services = new ServiceCollection();
+    new HandlerScanner([
+      CreateOrderHandler,
+      GetOrderLabelHandler,
+      LegacyGetOrderHandler,
+    ]).configureServices(services);
+
+    const lifetimes = services
+      .getDescriptors()
+      .filter((d) => typeof d.serviceType === 'function')
+      .map((d) => [(d.serviceType as { name: string }).name, d.scope]);
+    expect(lifetimes).toEqual([
+      ['CreateOrderHandler', ServiceScope.Transient],
+      ['GetOrderLabelHandler', ServiceScope.Singleton],
+      ['LegacyGetOrderHandler', ServiceScope.Transient],
+    ]);
+  });
+
+  it('should keep buses that are already registered', () => {
+    const bus = { register: jest.fn() } as unknown as ICommandBus;
+    const services = new ServiceCollection()
+      .addSingleton(OrderStore)
+      .addInstance(COMMAND_BUS_TOKEN, bus);
+    const scanner = new HandlerScanner([CreateOrderHandler]);
+
+    scanner.configureServices(services);
+    scanner.registerHandlers(services.buildServiceProvider());
+
+    expect(bus.register).toHaveBeenCalledWith(
+      'CreateOrderCommand',
+      expect.objectContaining({ execute: expect.any(Function) }),
+    );
+  });
+
+  it('should treat duplicate handlers as a startup error', () => {
+    try {
+      new HandlerScanner([CreateOrderHandler, LegacyCreateOrderHandler]);
+      fail('Should have thrown DuplicateHandlerError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(DuplicateHandlerError);
+      expect((error as DuplicateHandlerError).handlers).toEqual([
+        'CreateOrderHandler',
+        'LegacyCreateOrderHandler',
+      ]);
+    }
+
+    // Every decorated class is scanned by default
+    expect(() => new HandlerScanner()).toThrow(DuplicateHandlerError);
+  });
+
+  it('should reject classes without handler decorators', () => {
+    expect(() => new HandlerScanner([OrderStore as never])).toThrow(
+      /'OrderStore' is not decorated/,
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Unit tests for idempotent command execution
+ *
+ * Tests result replay by explicit key, Idempotency-Key header (per command
+ * payload) and command ID, waiting on concurrent duplicates, retrying after
+ * failures, and key expiry in InMemoryIdempotencyStore.
+ */
+
+import {
+  CommandBase,
+  CommandBus,
+  IdempotencyKeyMiddleware,
+  InMemoryIdempotencyStore,
+  MiddlewareContext,
+  RequestContext,
+} from '../../../src';
+
+// ============================================================================
+// Test Commands & Helpers
+// ============================================================================
+
+class ChargeCardCommand extends CommandBase<string> {
+  constructor(public readonly amount: number) {
+    super();
+  }
+}
+
+class CheckoutCommand extends CommandBase<string[]> {
+  constructor(public readonly amounts: number[]) {
+    super();
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Idempotent command execution', () => {
+  let bus: CommandBus;
+  let charges: number;
+  let failNext: boolean;
+
+  beforeEach(() => {
+    bus = new CommandBus({
+      idempotencyStore: new InMemoryIdempotencyStore(),
+      resultPollInterval: 5,
+    });
+    charges = 0;
+    failNext = false;
+    bus.register(ChargeCardCommand, {
+      execute: async (command) => {
+        await sleep(10);
+        if (failNext) {
+          failNext = false;
+          throw new Error('Card declined');
+        }
+        charges++;
+        return `charge-${charges}:${command.amount}`;
+      },
+    });
+  });
+
+  it('should return the stored result for a repeated key', async () => {
+    const options = { idempotencyKey: 'order-1' };
+
+    const first = await bus.executeWithResult(
+      new ChargeCardCommand(10),
+      options,
+    );
+    const second = await bus.executeWithResult(
+      new ChargeCardCommand(10),
+      options,
+    );
+    const value = await bus.execute(new ChargeCardCommand(10), options);
+
+    expect(charges).toBe(1);
+    expect(second).toBe(first);
+    expect(value).toBe('charge-1:10');
+  });
+
+  it('should key commands by command ID without an explicit key', async () => {
+    const command = new ChargeCardCommand(20);
+
+    await bus.execute(command);
+    await bus.execute(command);
+    await bus.execute(new ChargeCardCommand(20));
+
+    expect(charges).toBe(2);
+  });
+
+  it('should make concurrent duplicates wait for the first execution', async () => {
+    const results = await Promise.all([
+      bus.execute(new ChargeCardCommand(30), { idempotencyKey: 'k' }),
+      bus.execute(new ChargeCardCommand(30), { idempotencyKey: 'k' }),
+      bus.execute(new ChargeCardCommand(30), { idempotencyKey: 'k' }),
+    ]);
+
+    expect(charges).toBe(1);
+    expect(results).toEqual(['charge-1:30', 'charge-1:30', 'charge-1:30']);
+  });
+
+  it('should execute again after a failure', async () => {
+    failNext = true;
+
+    const failed = await bus.executeWithResult(new ChargeCardCommand(40), {
+      idempotencyKey: 'retry',
+    });
+    const retried = await bus.executeWithResult(new ChargeCardCommand(40), {
+      idempotencyKey: 'retry',
+    });
+
+    expect(failed.error?.message).toBe('Card declined');
+    expect(retried).toMatchObject({ success: true, value: 'charge-1:40' });
+  });
+
+  it('should scope keys by user', async () => {
+    const charge = (userId: string) =>
+      RequestContext.run({ userId }, () =>
+        bus.execute(new ChargeCardCommand(50), { idempotencyKey: 'shared' }),
+      );
+
+    await charge('alice');
+    await charge('bob');
+    await charge('alice');
+
+    expect(charges).toBe(2);
+  });
+
+  it('should use the Idempotency-Key header through the middleware', async () => {
+    const middleware = new IdempotencyKeyMiddleware();
+    const handleRequest = () =>
+      RequestContext.run({}, async () => {
+        let result: string | undefined;
+        const ctx = {
+          context: RequestContext.current()!,
+          request: { headers: { 'idempotency-key': 'request-1' } },
+        } as unknown as MiddlewareContext;
+
+        await middleware.invoke(ctx, async () => {
+          result = await bus.execute(new ChargeCardCommand(60));
+        });
+        return result;
+      });
+
+    await expect(handleRequest()).resolves.toBe('charge-1:60');
+    await expect(handleRequest()).resolves.toBe('charge-1:60');
+    expect(charges).toBe(1);
+  });
+
+  it('should keep different commands of one request apart', async () => {
+    const results = await RequestContext.run(
+      { idempotencyKey: 'request-3' },
+      async () => [
+        await bus.execute(new ChargeCardCommand(1)),
+        await bus.execute(new ChargeCardCommand(2)),
+        await bus.execute(new ChargeCardCommand(1)),
+      ],
+    );
+
+    expect(results).toEqual(['charge-1:1', 'charge-2:2', 'charge-1:1']);
+    expect(charges).toBe(2);
+  });
+
+  it('should apply the request key to top-level commands only', async () => {
+    let checkouts = 0;
+    bus.register(CheckoutCommand, {
+      execute: async (command) => {
+        checkouts++;
+        const charged: string[] = [];
+        for (const amount of command.amounts) {
+          charged.push(await bus.execute(new ChargeCardCommand(amount)));
+        }
+        return charged;
+      },
+    });
+    const checkout = () =>
+      RequestContext.run({ idempotencyKey: 'request-2' }, () =>
+        bus.execute(new CheckoutCommand([5, 6])),
+      );
+
+    await expect(checkout()).resolves.toEqual(['charge-1:5', 'charge-2:6']);
+    await expect(checkout()).resolves.toEqual(['charge-1:5', 'charge-2:6']);
+    expect(checkouts).toBe(1);
+    expect(charges).toBe(2);
+  });
+
+  it('should execute again once the key has expired', async () => {
+    bus = new CommandBus({
+      idempotencyStore: new InMemoryIdempotencyStore(),
+      idempotencyTtl: 20,
+    });
+    bus.register(ChargeCardCommand, {
+      execute: async () => `charge-${++charges}`,
+    });
+
+    await bus.execute(new ChargeCardCommand(70), { idempotencyKey: 'ttl' });
+    await sleep(40);
+    await bus.execute(new ChargeCardCommand(70), { idempotencyKey: 'ttl' });
+
+    expect(charges).toBe(2);
+  });
+});
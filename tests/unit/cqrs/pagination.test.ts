@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Unit tests for pagination helpers
+ *
+ * Tests offset page results, cursor encoding, keyset pages in both
+ * directions with tied sort values, and the paginated query base classes.
+ */
+
+import {
+  BadRequestException,
+  createCursorPage,
+  createPaginatedResult,
+  CursorPaginatedQueryBase,
+  CursorPaginationParams,
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorException,
+  KeysetSortKey,
+  normalizePagination,
+  PaginatedQueryBase,
+  PaginationParams,
+  paginateItems,
+  QueryBus,
+} from '../../../src';
+
+// ============================================================================
+// Test Data & Queries
+// ============================================================================
+
+interface Order {
+  id: string;
+  createdAt: Date;
+}
+
+// Orders 1-3 and 4-6 share a creation time
+const orders: Order[] = [1, 2, 3, 4, 5, 6, 7].map((n) => ({
+  id: `o-${n}`,
+  createdAt: new Date(Date.UTC(2024, 0, n <= 3 ? 1 : n <= 6 ? 2 : 3)),
+}));
+
+const newestFirst: KeysetSortKey<Order>[] = [
+  { field: 'createdAt', order: 'desc' },
+  { field: 'id', order: 'desc' },
+];
+
+class ListUsersQuery extends PaginatedQueryBase<string> {
+  constructor(pagination: Partial<PaginationParams> = {}) {
+    super(pagination, { maxPageSize: 50 });
+  }
+}
+
+class ListOrdersQuery extends CursorPaginatedQueryBase<Order> {
+  readonly sortKeys = newestFirst;
+
+  constructor(pagination: Partial<CursorPaginationParams> = {}) {
+    super(pagination);
+  }
+}
+
+const ids = (items: Order[]) => items.map((order) => order.id);
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Pagination helpers', () => {
+  // ==========================================================================
+  // OFFSET PAGINATION
+  // ==========================================================================
+
+  describe('offset pagination', () => {
+    it('should compute page counts and navigation flags', () => {
+      const params = { page: 2, pageSize: 20 };
+
+      expect(createPaginatedResult(['a'], 41, params)).toEqual({
+        items: ['a'],
+        total: 41,
+        page: 2,
+        pageSize: 20,
+        totalPages: 3,
+        hasNextPage: true,
+        hasPreviousPage: true,
+      });
+      expect(createPaginatedResult([], 0, { page: 1, pageSize: 20 })).toEqual(
+        expect.objectContaining({ totalPages: 0, hasNextPage: false }),
+      );
+    });
+
+    it('should normalize out-of-range parameters', () => {
+      expect(normalizePagination()).toEqual({ page: 1, pageSize: 20 });
+      expect(normalizePagination({ page: -3, pageSize: 1000 })).toEqual({
+        page: 1,
+        pageSize: 100,
+      });
+      expect(normalizePagination({ page: 2.7, pageSize: 0 })).toEqual({
+        page: 2,
+        pageSize: 1,
+      });
+    });
+
+    it('should paginate items in memory', () => {
+      const result = paginateItems(['a', 'b', 'c', 'd', 'e'], {
+        page: 3,
+        pageSize: 2,
+      });
+
+      expect(result.items).toEqual(['e']);
+      expect(result).toMatchObject({ totalPages: 3, hasNextPage: false });
+    });
+
+    it('should expose the offset and include pages in the cache key', () => {
+      const query = new ListUsersQuery({ page: 3, pageSize: 80 });
+
+      expect(query.pagination).toEqual({ page: 3, pageSize: 50 });
+      expect(query.offset).toBe(100);
+      expect(query.toResult([], 120).totalPages).toBe(3);
+      expect(query.getCacheKey()).not.toBe(
+        new ListUsersQuery({ page: 2, pageSize: 50 }).getCacheKey(),
+      );
+    });
+  });
+
+  // ==========================================================================
+  // CURSOR PAGINATION
+  // ==========================================================================
+
+  describe('cursor pagination', () => {
+    it('should round-trip cursors, including dates', () => {
+      const cursor = encodeCursor(orders[0]!, newestFirst);
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(cursor, newestFirst)).toEqual([
+        orders[0]!.createdAt,
+        'o-1',
+      ]);
+    });
+
+    it('should reject malformed cursors and cursors for another sort', () => {
+      const cursor = encodeCursor(orders[0]!, newestFirst);
+
+      expect(() => decodeCursor('not a cursor', newestFirst)).toThrow(
+        InvalidCursorException,
+      );
+      expect(() => decodeCursor(cursor, [{ field: 'id' }])).toThrow(
+        /does not match the sort order/,
+      );
+      expect(new InvalidCursorException()).toBeInstanceOf(BadRequestException);
+    });
+
+    it('should page forward and back through tied sort values', () => {
+      const first = new ListOrdersQuery({ limit: 3 }).paginate(orders);
+      const second = new ListOrdersQuery({
+        limit: 3,
+        after: first.nextCursor,
+      }).paginate(orders);
+      const third = new ListOrdersQuery({
+        limit: 3,
+        after: second.nextCursor,
+      }).paginate(orders);
+      const back = new ListOrdersQuery({
+        limit: 3,
+        before: second.prevCursor,
+      }).paginate(orders);
+
+      expect(ids(first.items)).toEqual(['o-7', 'o-6', 'o-5']);
+      expect(first).toMatchObject({
+        hasNextPage: true,
+        hasPreviousPage: false,
+      });
+      expect(ids(second.items)).toEqual(['o-4', 'o-3', 'o-2']);
+      expect(ids(third.items)).toEqual(['o-1']);
+      expect(third).toMatchObject({
+        hasNextPage: false,
+        hasPreviousPage: true,
+      });
+      expect(ids(back.items)).toEqual(['o-7', 'o-6', 'o-5']);
+      expect(back.hasPreviousPage).toBe(false);
+    });
+
+    it('should build pages from rows fetched by the handler', () => {
+      const params = {
+        limit: 2,
+        before: encodeCursor(orders[4]!, newestFirst),
+      };
+      // Rows before o-5 in sort order, nearest first
+      const rows = [orders[5]!, orders[6]!];
+
+      const page = createCursorPage(rows, params, newestFirst);
+
+      expect(ids(page.items)).toEqual(['o-7', 'o-6']);
+      expect(page).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    });
+
+    it('should decode the position and reject conflicting cursors', async () => {
+      const cursor = encodeCursor(orders[2]!, newestFirst);
+      const bus = new QueryBus();
+      bus.register(ListOrdersQuery, {
+        execute: async (query) => query.toResult([]),
+      });
+
+      expect(new ListOrdersQuery({ after: cursor }).position).toEqual({
+        direction: 'after',
+        values: [orders[2]!.createdAt, 'o-3'],
+      });
+      expect(
+        () => new ListOrdersQuery({ after: cursor, before: cursor }),
+      ).toThrow(InvalidCursorException);
+      await expect(
+        bus.execute(new ListOrdersQuery({ limit: 5 })),
+      ).resolves.toMatchObject({ items: [], limit: 5, hasNextPage: false });
+    });
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * @fileoverview Unit tests for the built-in pipeline behaviors
+ *
+ * Tests behavior ordering on the buses, per-type configuration, and the
+ * validation, logging, unit-of-work and authorization behaviors.
+ */
+
+import {
+  AuthorizationBehavior,
+  CommandBase,
+  CommandBus,
+  ForbiddenException,
+  IHandlerLogger,
+  IPipelineBehavior,
+  IUnitOfWork,
+  LoggingBehavior,
+  QueryBase,
+  QueryBus,
+  RequestContext,
+  UnauthorizedException,
+  UnitOfWorkBehavior,
+  ValidationBehavior,
+  ValidationException,
+} from '../../../src';
+
+// ============================================================================
+// Test Commands & Helpers
+// ============================================================================
+
+class CreateUserCommand extends CommandBase<string> {
+  constructor(
+    public readonly email: string,
+    public readonly name: string,
+  ) {
+    super();
+  }
+}
+
+class DeleteUserCommand extends CommandBase<boolean> {
+  constructor(public readonly userId: string) {
+    super();
+  }
+}
+
+class GetUserQuery extends QueryBase<string> {
+  constructor() {
+    super({ cacheable: false });
+  }
+}
+
+class GetSalaryQuery extends QueryBase<number> {
+  constructor(public readonly employeeId: string) {
+    super();
+  }
+}
+
+function createBus(...behaviors: IPipelineBehavior[]): CommandBus {
+  const bus = new CommandBus({ behaviors });
+  bus.register(CreateUserCommand, { execute: async () => 'user-1' });
+  bus.register(DeleteUserCommand, { execute: async () => true });
+  return bus;
+}
+
+function createLogger(): IHandlerLogger & { lines: string[] } {
+  const lines: string[] = [];
+  return {
+    lines,
+    debug: (message) => lines.push(`debug: ${message}`),
+    info: (message) => lines.push(`info: ${message}`),
+    error: (message) => lines.push(`error: ${message}`),
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Pipeline Behaviors', () => {
+  // ==========================================================================
+  // ORDERING
+  // ==========================================================================
+
+  describe('Ordering', () => {
+    it('should run behaviors by order, regardless of registration order', async () => {
+      const calls: string[] = [];
+      const trace = (name: string, order?: number): IPipelineBehavior => ({
+        order,
+        handle: async (_request, next) => {
+          calls.push(name);
+          return next();
+        },
+      });
+
+      const bus = createBus(trace('inner', 10), trace('unordered'));
+      bus.addBehavior(trace('outer', -10));
+      await bus.execute(new CreateUserCommand('a@b.c', 'A'));
+
+      expect(calls).toEqual(['outer', 'unordered', 'inner']);
+    });
+
+    it('should order the built-in behaviors logging → auth → validation → uow', () => {
+      const unitOfWork = {} as IUnitOfWork;
+      const behaviors = [
+        new UnitOfWorkBehavior(unitOfWork),
+        new ValidationBehavior(),
+        new AuthorizationBehavior(),
+        new LoggingBehavior(createLogger()),
+      ];
+
+      expect(
+        [...behaviors]
+          .sort((a, b) => a.order - b.order)
+          .map((b) => b.constructor.name),
+      ).toEqual([
+        'LoggingBehavior',
+        'AuthorizationBehavior',
+        'ValidationBehavior',
+        'UnitOfWorkBehavior',
+      ]);
+    });
+
+    it('should skip behaviors for excluded or non-included types', async () => {
+      const logger = createLogger();
+      const bus = createBus(
+        new LoggingBehavior(logger, { include: [DeleteUserCommand] }),
+      );
+
+      await bus.execute(new CreateUserCommand('a@b.c', 'A'));
+      await bus.execute(new DeleteUserCommand('u1'));
+
+      expect(logger.lines).toEqual([
+        'debug: Handling DeleteUserCommand',
+        'info: DeleteUserCommand handled',
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // VALIDATION
+  // ==========================================================================
+
+  describe('ValidationBehavior', () => {
+    it('should merge validator errors into a ValidationException', async () => {
+      const validation = new ValidationBehavior()
+        .register(CreateUserCommand, (command) =>
+          command.email.includes('@') ? undefined : { email: ['Invalid'] },
+        )
+        .register(CreateUserCommand, async (command) =>
+          command.name ? undefined : { name: ['Required'] },
+        );
+      const bus = createBus(validation);
+
+      const error = await bus
+        .execute(new CreateUserCommand('nope', ''))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationException);
+      expect((error as ValidationException).errors).toEqual({
+        email: ['Invalid'],
+        name: ['Required'],
+      });
+      await expect(
+        bus.execute(new CreateUserCommand('a@b.c', 'A')),
+      ).resolves.toBe('user-1');
+    });
+
+    it('should turn validator exceptions into validation failures', async () => {
+      const bus = createBus(
+        new ValidationBehavior().register(DeleteUserCommand, () => {
+          throw new Error('userId is malformed');
+        }),
+      );
+
+      await expect(bus.execute(new DeleteUserCommand('x'))).rejects.toEqual(
+        expect.objectContaining({
+          name: 'ValidationException',
+          errors: { request: ['userId is malformed'] },
+        }),
+      );
+    });
+  });
+
+  // ==========================================================================
+  // LOGGING
+  // ==========================================================================
+
+  describe('LoggingBehavior', () => {
+    it('should log failures and rethrow', async () => {
+      const logger = createLogger();
+      const bus = new CommandBus({ behaviors: [new LoggingBehavior(logger)] });
+      bus.register(DeleteUserCommand, {
+        execute: async (): Promise<boolean> => {
+          throw new Error('boom');
+        },
+      });
+
+      await expect(bus.execute(new DeleteUserCommand('u1'))).rejects.toThrow(
+        'boom',
+      );
+      expect(logger.lines).toEqual([
+        'debug: Handling DeleteUserCommand',
+        'error: DeleteUserCommand failed',
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // UNIT OF WORK
+  // ==========================================================================
+
+  describe('UnitOfWorkBehavior', () => {
+    let transactions: unknown[];
+    let unitOfWork: IUnitOfWork;
+
+    beforeEach(() => {
+      transactions = [];
+      unitOfWork = {
+        executeInTransaction: async (
+          callback: () => Promise<unknown>,
+          options?: unknown,
+        ) => {
+          transactions.push(options ?? 'default');
+          return callback();
+        },
+      } as unknown as IUnitOfWork;
+    });
+
+    it('should wrap command handlers in a transaction', async () => {
+      const bus = createBus(
+        new UnitOfWorkBehavior(() => unitOfWork, {
+          transactionOptions: (command) =>
+            command instanceof DeleteUserCommand ? { timeout: 5 } : undefined,
+        }),
+      );
+
+      await expect(
+        bus.execute(new CreateUserCommand('a@b.c', 'A')),
+      ).resolves.toBe('user-1');
+      await bus.execute(new DeleteUserCommand('u1'));
+
+      expect(transactions).toEqual(['default', { timeout: 5 }]);
+    });
+
+    it('should let queries pass through', async () => {
+      const bus = new QueryBus({
+        behaviors: [new UnitOfWorkBehavior(unitOfWork)],
+      });
+      bus.register(GetUserQuery, { execute: async () => 'Ada' });
+
+      await expect(bus.execute(new GetUserQuery())).resolves.toBe('Ada');
+      expect(transactions).toEqual([]);
+    });
+  });
+
+  // ==========================================================================
+  // AUTHORIZATION
+  // ==========================================================================
+
+  describe('AuthorizationBehavior', () => {
+    const bus = createBus(
+      new AuthorizationBehavior().require(DeleteUserCommand, {
+        roles: ['admin', 'support'],
+        claims: [{ type: 'tenant', value: 't1' }],
+      }),
+    );
+    const asUser = <T>(data: Record<string, unknown>, fn: () => Promise<T>) =>
+      RequestContext.run(data, fn);
+
+    it('should require an authenticated user', async () => {
+      await expect(bus.execute(new DeleteUserCommand('u1'))).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should require one of the roles and every claim', async () => {
+      const command = new DeleteUserCommand('u1');
+
+      await expect(
+        asUser({ userId: 'u', roles: ['user'] }, () => bus.execute(command)),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        asUser({ userId: 'u', roles: ['support'] }, () => bus.execute(command)),
+      ).rejects.toThrow('requires the claims: tenant');
+      await expect(
+        asUser(
+          {
+            userId: 'u',
+            roles: ['support'],
+            claims: [{ type: 'tenant', value: 't1' }],
+          },
+          () => bus.execute(command),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('should leave types without a requirement alone', async () => {
+      await expect(
+        bus.execute(new CreateUserCommand('a@b.c', 'A')),
+      ).resolves.toBe('user-1');
+    });
+
+    it('should authorize queries served from cache or a shared call', async () => {
+      const queryBus = new QueryBus({
+        behaviors: [
+          new AuthorizationBehavior().require(GetSalaryQuery, {
+            roles: ['hr'],
+          }),
+        ],
+      });
+      let release!: () => void;
+      const handled = new Promise<void>((resolve) => (release = resolve));
+      queryBus.register(GetSalaryQuery, {
+        execute: async () => {
+          await handled;
+          return 100000;
+        },
+      });
+      const asHr = () =>
+        asUser({ userId: 'hr', roles: ['hr'] }, () =>
+          queryBus.execute(new GetSalaryQuery('e1')),
+        );
+      const asOther = () =>
+        asUser({ userId: 'other', roles: [] }, () =>
+          queryBus.execute(new GetSalaryQuery('e1')),
+        );
+
+      // While the first call is in flight
+      const first = asHr();
+      await expect(asOther()).rejects.toThrow(ForbiddenException);
+      release();
+      await expect(first).resolves.toBe(100000);
+
+      // Once the result is cached
+      await expect(asOther()).rejects.toThrow(ForbiddenException);
+      await expect(asHr()).resolves.toBe(100000);
+    });
+  });
+});
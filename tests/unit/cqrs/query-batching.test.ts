@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Unit tests for batch query execution
+ *
+ * Tests executeMany(), single-flight coalescing of identical queries,
+ * batching through handlers' executeBatch(), and BatchLoader.
+ */
+
+import { BatchLoader, QueryBase, QueryBus, RequestContext } from '../../../src';
+
+// ============================================================================
+// Test Queries & Helpers
+// ============================================================================
+
+class GetUserNameQuery extends QueryBase<string> {
+  constructor(public readonly userId: string) {
+    super();
+  }
+
+  getCacheKey(): string {
+    return `user-name:${this.userId}`;
+  }
+}
+
+class GetUserByIdQuery extends QueryBase<string> {
+  constructor(public readonly userId: string) {
+    super();
+  }
+}
+
+class CountOrdersQuery extends QueryBase<number> {
+  constructor() {
+    super();
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Batch query execution', () => {
+  let bus: QueryBus;
+  let calls: string[];
+  let failNext: boolean;
+
+  beforeEach(() => {
+    bus = new QueryBus();
+    calls = [];
+    failNext = false;
+    bus.register(GetUserNameQuery, {
+      execute: async (query) => {
+        calls.push(query.userId);
+        await sleep(10);
+        if (failNext) {
+          failNext = false;
+          throw new Error('Lookup failed');
+        }
+        return `name-${query.userId}`;
+      },
+    });
+    bus.register(CountOrdersQuery, { execute: async () => 3 });
+  });
+
+  // ==========================================================================
+  // EXECUTE MANY & COALESCING
+  // ==========================================================================
+
+  describe('executeMany and coalescing', () => {
+    it('should return typed results in query order', async () => {
+      const [name, count]: [string, number] = await bus.executeMany([
+        new GetUserNameQuery('u1'),
+        new CountOrdersQuery(),
+      ]);
+
+      expect(name).toBe('name-u1');
+      expect(count).toBe(3);
+    });
+
+    it('should run the handler once for identical concurrent queries', async () => {
+      const results = await bus.executeMany([
+        new GetUserNameQuery('u1'),
+        new GetUserNameQuery('u1'),
+        new GetUserNameQuery('u2'),
+        new GetUserNameQuery('u1'),
+      ]);
+
+      expect(results).toEqual(['name-u1', 'name-u1', 'name-u2', 'name-u1']);
+      expect(calls).toEqual(['u1', 'u2']);
+    });
+
+    it('should not coalesce queries that differ only in parameters', async () => {
+      bus.register(GetUserByIdQuery, {
+        execute: async (query) => {
+          calls.push(query.userId);
+          await sleep(5);
+          return `user:${query.userId}`;
+        },
+      });
+
+      await expect(
+        bus.executeMany([
+          new GetUserByIdQuery('x'),
+          new GetUserByIdQuery('y'),
+          new GetUserByIdQuery('x'),
+        ]),
+      ).resolves.toEqual(['user:x', 'user:y', 'user:x']);
+      expect(calls).toEqual(['x', 'y']);
+    });
+
+    it('should share failures and retry afterwards', async () => {
+      failNext = true;
+
+      const attempts = await Promise.allSettled([
+        bus.execute(new GetUserNameQuery('u1')),
+        bus.execute(new GetUserNameQuery('u1')),
+      ]);
+
+      expect(attempts.map((attempt) => attempt.status)).toEqual([
+        'rejected',
+        'rejected',
+      ]);
+      await expect(bus.execute(new GetUserNameQuery('u1'))).resolves.toBe(
+        'name-u1',
+      );
+      expect(calls).toEqual(['u1', 'u1']);
+    });
+
+    it('should not coalesce when skipping the cache or disabled', async () => {
+      await Promise.all([
+        bus.execute(new GetUserNameQuery('u1'), { skipCache: true }),
+        bus.execute(new GetUserNameQuery('u1'), { skipCache: true }),
+      ]);
+      expect(calls).toEqual(['u1', 'u1']);
+
+      const uncoalesced = new QueryBus({ coalesce: false, cacheTTL: 0 });
+      let executions = 0;
+      uncoalesced.register(GetUserNameQuery, {
+        execute: async () => {
+          executions++;
+          await sleep(5);
+          return 'name';
+        },
+      });
+      await uncoalesced.executeMany([
+        new GetUserNameQuery('u1'),
+        new GetUserNameQuery('u1'),
+      ]);
+      expect(executions).toBe(2);
+    });
+  });
+
+  // ==========================================================================
+  // BATCHING HANDLERS
+  // ==========================================================================
+
+  describe('executeBatch handlers', () => {
+    let batches: string[][];
+
+    beforeEach(() => {
+      bus = new QueryBus();
+      batches = [];
+      bus.register<GetUserNameQuery, string>(GetUserNameQuery, {
+        execute: async () => {
+          throw new Error('Not expected');
+        },
+        executeBatch: async (queries) => {
+          batches.push(queries.map((query) => query.userId));
+          return queries.map((query) =>
+            query.userId === 'missing'
+              ? new Error('User not found')
+              : `name-${query.userId}`,
+          );
+        },
+      });
+    });
+
+    it('should load the queries of one tick in a single call', async () => {
+      const results = await bus.executeMany([
+        new GetUserNameQuery('u1'),
+        new GetUserNameQuery('u2'),
+        new GetUserNameQuery('u3'),
+      ]);
+
+      expect(results).toEqual(['name-u1', 'name-u2', 'name-u3']);
+      expect(batches).toEqual([['u1', 'u2', 'u3']]);
+    });
+
+    it('should fail only the queries with an error result', async () => {
+      const [found, missing] = await Promise.allSettled([
+        bus.execute(new GetUserNameQuery('u1')),
+        bus.execute(new GetUserNameQuery('missing')),
+      ]);
+
+      expect(found).toEqual({ status: 'fulfilled', value: 'name-u1' });
+      expect(missing).toMatchObject({
+        status: 'rejected',
+        reason: { message: 'User not found' },
+      });
+    });
+
+    it('should keep the queries of different requests apart', async () => {
+      const inRequest = (requestId: string, userId: string) =>
+        RequestContext.run({ requestId }, () =>
+          bus.execute(new GetUserNameQuery(userId)),
+        );
+
+      await Promise.all([
+        inRequest('r1', 'u1'),
+        inRequest('r2', 'u2'),
+        inRequest('r1', 'u3'),
+      ]);
+
+      expect(batches).toEqual([['u1', 'u3'], ['u2']]);
+    });
+  });
+
+  // ==========================================================================
+  // BATCH LOADER
+  // ==========================================================================
+
+  describe('BatchLoader', () => {
+    it('should deduplicate keys and split large batches', async () => {
+      const received: number[][] = [];
+      const loader = new BatchLoader<number, number>(
+        async (keys) => {
+          received.push([...keys]);
+          return keys.map((key) => key * 10);
+        },
+        { maxBatchSize: 2 },
+      );
+
+      const values = await Promise.all([
+        loader.load(1),
+        loader.load(2),
+        loader.load(1),
+        loader.load(3),
+      ]);
+      await loader.load(2);
+
+      expect(values).toEqual([10, 20, 10, 30]);
+      expect(received).toEqual([[1, 2], [3]]);
+    });
+
+    it('should compare object keys by identity unless cacheKeyFn is given', async () => {
+      const batchFn = async (keys: readonly { id: string }[]) =>
+        keys.map((key) => key.id);
+      const first = { id: 'a' };
+
+      const byIdentity = new BatchLoader(batchFn);
+      await expect(
+        byIdentity.loadMany([first, first, { id: 'b' }]),
+      ).resolves.toEqual(['a', 'a', 'b']);
+
+      const byId = new BatchLoader(batchFn, { cacheKeyFn: (key) => key.id });
+      await expect(byId.loadMany([first, { id: 'a' }])).resolves.toEqual([
+        'a',
+        'a',
+      ]);
+    });
+
+    it('should reject a maxBatchSize below 1', () => {
+      expect(
+        () => new BatchLoader(async () => [], { maxBatchSize: 0 }),
+      ).toThrow('maxBatchSize must be at least 1, got 0');
+    });
+
+    it('should reject every key when the batch function misbehaves', async () => {
+      const loader = new BatchLoader<string, string>(async () => ['only-one']);
+
+      await expect(loader.loadMany(['a', 'b'])).rejects.toThrow(
+        'Batch function returned 1 values for 2 keys',
+      );
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Unit tests for the in-memory QueryBus
+ *
+ * Tests handler routing, CacheManager-backed result caching, cache
+ * bypass/refresh options, invalidation, and QueryResult metrics.
+ */
+
+import {
+  CacheManager,
+  IQuery,
+  IQueryHandler,
+  QueryBase,
+  QueryBus,
+  QueryHandlerNotFoundError,
+  QueryTimeoutError,
+} from '../../../src';
+
+// ============================================================================
+// Test Queries & Handlers
+// ============================================================================
+
+class GetUserQuery extends QueryBase<{ id: string; name: string }> {
+  constructor(public readonly userId: string) {
+    super();
+  }
+
+  getCacheKey(): string {
+    return `user:${this.userId}`;
+  }
+}
+
+class GetUserByIdQuery extends QueryBase<string> {
+  constructor(public readonly userId: string) {
+    super();
+  }
+}
+
+class GetUserQueryByEmail extends QueryBase<string> {
+  constructor(public readonly email: string) {
+    super();
+  }
+}
+
+class ListUsersQuery extends QueryBase<string[]> {
+  constructor() {
+    super({ cacheable: false });
+  }
+}
+
+class GetUserHandler implements IQueryHandler<
+  GetUserQuery,
+  { id: string; name: string }
+> {
+  public calls = 0;
+
+  async execute(query: GetUserQuery): Promise<{ id: string; name: string }> {
+    this.calls++;
+    return { id: query.userId, name: `User ${this.calls}` };
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('QueryBus', () => {
+  let bus: QueryBus;
+  let handler: GetUserHandler;
+
+  beforeEach(() => {
+    bus = new QueryBus();
+    handler = new GetUserHandler();
+    bus.register(GetUserQuery, handler);
+  });
+
+  // ==========================================================================
+  // ROUTING
+  // ==========================================================================
+
+  describe('Handler Routing', () => {
+    it('should route a QueryBase query registered by class', async () => {
+      await expect(bus.execute(new GetUserQuery('u1'))).resolves.toEqual({
+        id: 'u1',
+        name: 'User 1',
+      });
+      expect(bus.hasHandler(GetUserQuery)).toBe(true);
+    });
+
+    it('should reject duplicate registrations', () => {
+      expect(() => bus.register(GetUserQuery, new GetUserHandler())).toThrow(
+        /already registered/,
+      );
+    });
+
+    it('should throw QueryHandlerNotFoundError for unknown queries', async () => {
+      await expect(bus.execute(new ListUsersQuery())).rejects.toBeInstanceOf(
+        QueryHandlerNotFoundError,
+      );
+    });
+
+    it('should fail with QueryTimeoutError when the handler is too slow', async () => {
+      bus.register('SlowQuery', {
+        execute: () => new Promise((r) => setTimeout(() => r('late'), 50)),
+      });
+
+      const query = { __type: 'SlowQuery' } as IQuery<string>;
+      await expect(bus.execute(query, { timeout: 5 })).rejects.toBeInstanceOf(
+        QueryTimeoutError,
+      );
+    });
+  });
+
+  // ==========================================================================
+  // CACHING
+  // ==========================================================================
+
+  describe('Result Caching', () => {
+    it('should serve repeated queries from cache using getCacheKey()', async () => {
+      const first = await bus.execute(new GetUserQuery('u1'));
+      const second = await bus.execute(new GetUserQuery('u1'));
+      await bus.execute(new GetUserQuery('u2'));
+
+      expect(second).toEqual(first);
+      expect(handler.calls).toBe(2);
+    });
+
+    it('should key results by query fields without a getCacheKey() override', async () => {
+      let calls = 0;
+      bus.register(GetUserByIdQuery, {
+        execute: async (query: GetUserByIdQuery) =>
+          `${query.userId}:${++calls}`,
+      });
+
+      await expect(bus.execute(new GetUserByIdQuery('a'))).resolves.toBe('a:1');
+      await expect(bus.execute(new GetUserByIdQuery('b'))).resolves.toBe('b:2');
+      await expect(bus.execute(new GetUserByIdQuery('a'))).resolves.toBe('a:1');
+      expect(new GetUserByIdQuery('a').getCacheKey()).toBe(
+        'GetUserByIdQuery:{"userId":"a"}',
+      );
+    });
+
+    it('should not cache queries marked as non-cacheable', async () => {
+      let calls = 0;
+      bus.register(ListUsersQuery, {
+        execute: async () => [`call-${++calls}`],
+      });
+
+      await bus.execute(new ListUsersQuery());
+      await bus.execute(new ListUsersQuery());
+
+      expect(calls).toBe(2);
+    });
+
+    it('should store results in the provided CacheManager with the TTL', async () => {
+      const cache = new CacheManager<string, unknown>(10);
+      bus = new QueryBus({ cache });
+      bus.register(GetUserQuery, handler);
+
+      await bus.execute(new GetUserQuery('u1'), { cacheTTL: 0.01 });
+      expect(cache.has('user:u1')).toBe(true);
+
+      await new Promise((r) => setTimeout(r, 20));
+      expect(cache.has('user:u1')).toBe(false);
+    });
+
+    it('should bypass the cache with skipCache and refresh it by default', async () => {
+      await bus.execute(new GetUserQuery('u1'));
+      const fresh = await bus.execute(new GetUserQuery('u1'), {
+        skipCache: true,
+      });
+      const cached = await bus.execute(new GetUserQuery('u1'));
+
+      expect(fresh.name).toBe('User 2');
+      expect(cached.name).toBe('User 2');
+      expect(handler.calls).toBe(2);
+    });
+
+    it('should leave the cache untouched when refreshCache is false', async () => {
+      await bus.execute(new GetUserQuery('u1'));
+      await bus.execute(new GetUserQuery('u1'), {
+        skipCache: true,
+        refreshCache: false,
+      });
+      const cached = await bus.execute(new GetUserQuery('u1'));
+
+      expect(cached.name).toBe('User 1');
+    });
+
+    it('should honor an explicit cacheKey option', async () => {
+      let calls = 0;
+      bus.register('PingQuery', { execute: async () => ++calls });
+      const query = { __type: 'PingQuery' } as IQuery<number>;
+
+      await bus.execute(query, { cacheKey: 'ping' });
+      await bus.execute(query, { cacheKey: 'ping' });
+
+      expect(calls).toBe(1);
+    });
+  });
+
+  // ==========================================================================
+  // INVALIDATION
+  // ==========================================================================
+
+  describe('invalidateCache', () => {
+    it('should drop every result cached for a query type', async () => {
+      await bus.execute(new GetUserQuery('u1'));
+      await bus.execute(new GetUserQuery('u2'));
+
+      await bus.invalidateCache(GetUserQuery);
+      await bus.execute(new GetUserQuery('u1'));
+      await bus.execute(new GetUserQuery('u2'));
+
+      expect(handler.calls).toBe(4);
+    });
+
+    it('should leave types whose name starts with the type name', async () => {
+      let lookups = 0;
+      bus.register(GetUserQueryByEmail, {
+        execute: async (query: GetUserQueryByEmail) =>
+          `${query.email}:${++lookups}`,
+      });
+      await bus.execute(new GetUserQueryByEmail('a@b.c'));
+
+      await bus.invalidateCache('GetUserQuery');
+
+      await expect(bus.execute(new GetUserQueryByEmail('a@b.c'))).resolves.toBe(
+        'a@b.c:1',
+      );
+    });
+
+    it('should forget keys the cache has evicted', async () => {
+      bus = new QueryBus({ cache: new CacheManager(2) });
+      bus.register(GetUserQuery, handler);
+      for (let i = 0; i < 20; i++) {
+        await bus.execute(new GetUserQuery(`u${i}`));
+      }
+
+      // Internal, but the only place the leak would show
+      const { keysByType } = bus as unknown as {
+        keysByType: Map<string, Set<string>>;
+      };
+      expect(keysByType.get('GetUserQuery')!.size).toBeLessThanOrEqual(4);
+    });
+
+    it('should drop keys matching a prefix pattern', async () => {
+      await bus.execute(new GetUserQuery('u1'));
+
+      await bus.invalidateCache('user:*');
+      await bus.execute(new GetUserQuery('u1'));
+
+      expect(handler.calls).toBe(2);
+    });
+  });
+
+  // ==========================================================================
+  // QUERY RESULT
+  // ==========================================================================
+
+  describe('executeWithMetrics', () => {
+    it('should report cache hits', async () => {
+      const miss = await bus.executeWithMetrics(new GetUserQuery('u1'));
+      const hit = await bus.executeWithMetrics(new GetUserQuery('u1'));
+
+      expect(miss.success).toBe(true);
+      expect(miss.fromCache).toBe(false);
+      expect(hit.fromCache).toBe(true);
+      expect(hit.cacheKey).toBe('user:u1');
+      expect(hit.queryType).toBe('GetUserQuery');
+    });
+
+    it('should serialize errors instead of throwing', async () => {
+      const result = await bus.executeWithMetrics(new ListUsersQuery());
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('QueryHandlerNotFoundError');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Unit tests for read-replica routing
+ *
+ * Tests that ReadReplicaRouter sends query handlers to replicas and command
+ * handlers to the primary, honors `useReadReplica`, and keeps a request's
+ * reads on the primary for the stickiness window after a commit.
+ */
+
+import {
+  CommandBase,
+  CommandBus,
+  ConnectionRouting,
+  IUnitOfWork,
+  QueryBase,
+  QueryBus,
+  ReadReplicaRouter,
+  RequestContext,
+  UnitOfWorkBehavior,
+} from '../../../src';
+
+// ============================================================================
+// Test Messages & Helpers
+// ============================================================================
+
+class GetBalanceQuery extends QueryBase<string> {
+  constructor() {
+    super({ cacheable: false });
+  }
+}
+
+class DepositCommand extends CommandBase<string> {
+  constructor(public readonly readBack: boolean = false) {
+    super();
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const unitOfWork = {
+  executeInTransaction: (callback: () => Promise<unknown>) => callback(),
+} as unknown as IUnitOfWork;
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Read-replica routing', () => {
+  let router: ReadReplicaRouter<string>;
+  let queryBus: QueryBus;
+  let commandBus: CommandBus;
+
+  beforeEach(() => {
+    router = new ReadReplicaRouter({
+      primary: 'primary',
+      replicas: ['replica-1', 'replica-2'],
+      stickinessWindow: 30,
+    });
+    queryBus = new QueryBus();
+    commandBus = new CommandBus({
+      behaviors: [
+        new UnitOfWorkBehavior(unitOfWork, { connectionRouter: router }),
+      ],
+    });
+
+    queryBus.register(GetBalanceQuery, {
+      execute: async () => router.getConnection(),
+    });
+    commandBus.register(DepositCommand, {
+      execute: async (command) =>
+        command.readBack
+          ? queryBus.execute(new GetBalanceQuery())
+          : router.getConnection(),
+    });
+  });
+
+  const asUser = <T>(userId: string, callback: () => Promise<T>) =>
+    RequestContext.run({ userId }, callback);
+
+  it('should route queries to replicas in turn and commands to the primary', async () => {
+    const reads = [
+      await queryBus.execute(new GetBalanceQuery()),
+      await queryBus.execute(new GetBalanceQuery()),
+      await queryBus.execute(new GetBalanceQuery()),
+    ];
+
+    expect(reads).toEqual(['replica-1', 'replica-2', 'replica-1']);
+    await expect(commandBus.execute(new DepositCommand())).resolves.toBe(
+      'primary',
+    );
+  });
+
+  it('should use the primary when useReadReplica is false', async () => {
+    await expect(
+      queryBus.execute(new GetBalanceQuery(), { useReadReplica: false }),
+    ).resolves.toBe('primary');
+  });
+
+  it('should keep queries inside a command handler on the primary', async () => {
+    await expect(commandBus.execute(new DepositCommand(true))).resolves.toBe(
+      'primary',
+    );
+  });
+
+  it('should read your writes for the stickiness window after a commit', async () => {
+    await asUser('alice', () => commandBus.execute(new DepositCommand()));
+
+    await expect(
+      asUser('alice', () => queryBus.execute(new GetBalanceQuery())),
+    ).resolves.toBe('primary');
+    await expect(
+      asUser('bob', () => queryBus.execute(new GetBalanceQuery())),
+    ).resolves.toMatch(/^replica/);
+
+    await sleep(50);
+    await expect(
+      asUser('alice', () => queryBus.execute(new GetBalanceQuery())),
+    ).resolves.toMatch(/^replica/);
+  });
+
+  it('should fall back to the primary without replicas', () => {
+    const single = new ReadReplicaRouter({ primary: 'primary' });
+
+    expect(single.resolveRole('replica')).toBe('primary');
+    expect(ConnectionRouting.run('replica', () => single.getConnection())).toBe(
+      'primary',
+    );
+    expect(router.resolveRole()).toBe('primary');
+  });
+});
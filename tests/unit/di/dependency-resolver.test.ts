@@ -20,6 +20,7 @@ import {
   IDIServiceProvider,
   IServiceScope,
   DependencyResolutionError,
+  DependencyGraph,
 } from '../../../src';
 
 // ============================================================================
@@ -82,6 +83,31 @@ class MockServiceCollection implements IServiceCollection {
   buildServiceProvider(): IDIServiceProvider {
     return new MockServiceProvider(this.descriptors);
   }
+
+  // Factory, instance and token registrations are not exercised here
+  addSingletonFactory(): this {
+    throw new Error('Not supported by MockServiceCollection');
+  }
+
+  addScopedFactory(): this {
+    throw new Error('Not supported by MockServiceCollection');
+  }
+
+  addTransientFactory(): this {
+    throw new Error('Not supported by MockServiceCollection');
+  }
+
+  addInstance(): this {
+    throw new Error('Not supported by MockServiceCollection');
+  }
+
+  getDescriptors(): ServiceDescriptor[] {
+    return [...this.descriptors.values()];
+  }
+
+  remove(serviceType: any): boolean {
+    return this.descriptors.delete(serviceType);
+  }
 }
 
 /**
@@ -120,6 +146,30 @@ class MockServiceProvider implements IDIServiceProvider {
     return this.resolve(serviceType, []);
   }
 
+  getServices<T>(serviceType: new (...args: any[]) => T): T[] {
+    return this.descriptors.has(serviceType)
+      ? [this.getService(serviceType)]
+      : [];
+  }
+
+  getServicesByTag<T>(): T[] {
+    return [];
+  }
+
+  async getServiceAsync<T>(serviceType: new (...args: any[]) => T): Promise<T> {
+    return this.getService(serviceType);
+  }
+
+  async initialize(): Promise<void> {}
+
+  getDependencyGraph(): DependencyGraph {
+    return { nodes: [], unregistered: [] };
+  }
+
+  exportDependencyGraph(): string {
+    throw new Error('Not supported by MockServiceProvider');
+  }
+
   createScope(): IServiceScope {
     return new MockServiceScope(this, this.descriptors);
   }
@@ -0,0 +1,642 @@
+/**
+ * @fileoverview Unit tests for ServiceCollection / ServiceProvider
+ *
+ * Tests constructor injection through reflect-metadata and @Inject(),
+ * lifetime caching, scope disposal, circular dependency reporting,
+ * build-time scope validation, and dependency graph export.
+ */
+
+import 'reflect-metadata';
+
+import {
+  COMMAND_BUS_TOKEN,
+  CommandBus,
+  DependencyResolutionError,
+  ICommandBus,
+  Inject,
+  Injectable,
+  IPipelineBehavior,
+  PIPELINE_BEHAVIORS_TOKEN,
+  IAdapter,
+  ServiceCollection,
+  ServiceScope,
+  StruktosHost,
+  UNIT_OF_WORK_TOKEN,
+} from '../../../src';
+
+// ============================================================================
+// Test Services
+// ============================================================================
+
+@Injectable({ scope: ServiceScope.Singleton })
+class LoggerService {}
+
+@Injectable({ scope: ServiceScope.Scoped })
+class DatabaseContext {
+  public disposed = false;
+
+  constructor(public readonly logger: LoggerService) {}
+
+  dispose(): void {
+    this.disposed = true;
+  }
+}
+
+@Injectable({ scope: ServiceScope.Transient })
+class CreateUserHandler {
+  constructor(
+    public readonly db: DatabaseContext,
+    public readonly logger: LoggerService,
+  ) {}
+}
+
+class Clock {
+  now(): number {
+    return Date.now();
+  }
+}
+
+class FixedClock extends Clock {
+  now(): number {
+    return 42;
+  }
+}
+
+@Injectable({ scope: ServiceScope.Transient })
+class ClockConsumer {
+  constructor(@Inject(Clock) public readonly clock: Clock) {}
+}
+
+@Injectable({ scope: ServiceScope.Singleton })
+class ServiceA {
+  constructor(public readonly b: unknown) {}
+}
+
+@Injectable({ scope: ServiceScope.Singleton })
+class ServiceB {
+  constructor(@Inject(ServiceA) public readonly a: unknown) {}
+}
+
+@Injectable({ scope: ServiceScope.Singleton })
+class Parent {
+  public child!: Child;
+}
+
+@Injectable({ scope: ServiceScope.Singleton })
+class Child {
+  constructor(public readonly parent: Parent) {}
+}
+
+@Injectable({ scope: ServiceScope.Singleton })
+class CacheService {
+  constructor(public readonly db: DatabaseContext) {}
+}
+
+@Injectable({ scope: ServiceScope.Singleton })
+class ReportService {
+  constructor(public readonly handler: CreateUserHandler) {}
+}
+
+// Applied by hand because ServiceB and Child are declared later
+Inject(ServiceB)(ServiceA, undefined, 0);
+Inject(Child)(Parent.prototype, 'child');
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('ServiceCollection / ServiceProvider', () => {
+  let services: ServiceCollection;
+
+  beforeEach(() => {
+    services = new ServiceCollection()
+      .addSingleton(LoggerService)
+      .addScoped(DatabaseContext)
+      .addTransient(CreateUserHandler);
+  });
+
+  // ==========================================================================
+  // CONSTRUCTOR INJECTION
+  // ==========================================================================
+
+  describe('Constructor Injection', () => {
+    it('should resolve dependencies from design:paramtypes', () => {
+      const scope = services.buildServiceProvider().createScope();
+      const handler = scope.getServiceProvider().getService(CreateUserHandler);
+
+      expect(handler.db).toBeInstanceOf(DatabaseContext);
+      expect(handler.logger).toBe(handler.db.logger);
+    });
+
+    it('should honor @Inject() and implementation mappings', () => {
+      services.addSingleton(Clock, FixedClock).addTransient(ClockConsumer);
+      const provider = services.buildServiceProvider();
+
+      expect(provider.getService(ClockConsumer).clock.now()).toBe(42);
+    });
+
+    it('should inject @Inject() properties after construction', () => {
+      services.addSingleton(Parent).addSingleton(Child);
+      const parent = services.buildServiceProvider().getService(Parent);
+
+      expect(parent.child.parent).toBe(parent);
+    });
+
+    it('should use the last registration for a service type', () => {
+      class OtherClock extends Clock {
+        now(): number {
+          return 7;
+        }
+      }
+      services.addSingleton(Clock, FixedClock).addSingleton(Clock, OtherClock);
+
+      expect(services.buildServiceProvider().getService(Clock).now()).toBe(7);
+    });
+  });
+
+  // ==========================================================================
+  // LIFETIMES
+  // ==========================================================================
+
+  describe('Lifetimes', () => {
+    it('should share singletons across scopes', () => {
+      const provider = services.buildServiceProvider();
+      const s1 = provider.createScope().getServiceProvider();
+      const s2 = provider.createScope().getServiceProvider();
+
+      expect(s1.getService(LoggerService)).toBe(s2.getService(LoggerService));
+      expect(s1.getService(LoggerService)).toBe(
+        provider.getService(LoggerService),
+      );
+    });
+
+    it('should cache scoped services per scope', () => {
+      const provider = services.buildServiceProvider();
+      const s1 = provider.createScope().getServiceProvider();
+      const s2 = provider.createScope().getServiceProvider();
+
+      expect(s1.getService(DatabaseContext)).toBe(
+        s1.getService(DatabaseContext),
+      );
+      expect(s1.getService(DatabaseContext)).not.toBe(
+        s2.getService(DatabaseContext),
+      );
+    });
+
+    it('should create a new transient instance on every resolution', () => {
+      const scoped = services
+        .buildServiceProvider()
+        .createScope()
+        .getServiceProvider();
+
+      const h1 = scoped.getService(CreateUserHandler);
+      const h2 = scoped.getService(CreateUserHandler);
+
+      expect(h1).not.toBe(h2);
+      expect(h1.db).toBe(h2.db);
+    });
+  });
+
+  // ==========================================================================
+  // DISPOSAL
+  // ==========================================================================
+
+  describe('Scope Disposal', () => {
+    it('should dispose scoped instances when the scope is disposed', () => {
+      const scope = services.buildServiceProvider().createScope();
+      const db = scope.getServiceProvider().getService(DatabaseContext);
+
+      scope.dispose();
+
+      expect(db.disposed).toBe(true);
+      expect(() =>
+        scope.getServiceProvider().getService(LoggerService),
+      ).toThrow(DependencyResolutionError);
+    });
+
+    it('should swallow dispose errors', () => {
+      @Injectable({ scope: ServiceScope.Scoped })
+      class Faulty {
+        dispose(): void {
+          throw new Error('boom');
+        }
+      }
+      services.addScoped(Faulty);
+      const scope = services.buildServiceProvider().createScope();
+      scope.getServiceProvider().getService(Faulty);
+      const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(() => scope.dispose()).not.toThrow();
+      expect(spy).toHaveBeenCalled();
+      spy.mockRestore();
+    });
+  });
+
+  // ==========================================================================
+  // ERRORS
+  // ==========================================================================
+
+  describe('Resolution Errors', () => {
+    it('should report circular dependencies with a dependency graph', () => {
+      services.addSingleton(ServiceA).addSingleton(ServiceB);
+      const provider = services.buildServiceProvider();
+
+      try {
+        provider.getService(ServiceA);
+        fail('Should have thrown DependencyResolutionError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(DependencyResolutionError);
+        const resolutionError = error as DependencyResolutionError;
+        expect(resolutionError.message).toContain(
+          'ServiceA → ServiceB → ServiceA',
+        );
+        expect(resolutionError.dependencyGraph).toBe(
+          ['ServiceA', '└─ ServiceB', '   └─ ServiceA (CIRCULAR!)'].join('\n'),
+        );
+      }
+    });
+
+    it('should report unregistered dependencies', () => {
+      const provider = new ServiceCollection()
+        .addTransient(CreateUserHandler)
+        .buildServiceProvider();
+
+      expect(() => provider.getService(CreateUserHandler)).toThrow(
+        /'DatabaseContext' is not registered \(required by 'CreateUserHandler'\)/,
+      );
+    });
+  });
+
+  // ==========================================================================
+  // FACTORY, INSTANCE AND TOKEN REGISTRATIONS
+  // ==========================================================================
+
+  describe('Factory, Instance and Token Registrations', () => {
+    const passThrough = (): IPipelineBehavior => ({
+      handle: (_request, next) => next(),
+    });
+
+    it('should resolve symbol tokens registered with factories', () => {
+      services
+        .addSingletonFactory(PIPELINE_BEHAVIORS_TOKEN, passThrough)
+        .addSingletonFactory(PIPELINE_BEHAVIORS_TOKEN, passThrough)
+        .addSingletonFactory<ICommandBus>(
+          COMMAND_BUS_TOKEN,
+          (provider) =>
+            new CommandBus({
+              behaviors: provider.getServices(PIPELINE_BEHAVIORS_TOKEN),
+            }),
+        );
+      const provider = services.buildServiceProvider();
+
+      const bus = provider.getService<ICommandBus>(COMMAND_BUS_TOKEN);
+      expect(bus).toBeInstanceOf(CommandBus);
+      expect(bus).toBe(provider.getService(COMMAND_BUS_TOKEN));
+      expect(provider.getServices(PIPELINE_BEHAVIORS_TOKEN)).toHaveLength(2);
+    });
+
+    it('should give scoped factories the scope provider', () => {
+      services.addScopedFactory(UNIT_OF_WORK_TOKEN, (provider) => ({
+        db: provider.getService(DatabaseContext),
+      }));
+      const scoped = services
+        .buildServiceProvider()
+        .createScope()
+        .getServiceProvider();
+
+      const uow = scoped.getService<{ db: DatabaseContext }>(
+        UNIT_OF_WORK_TOKEN,
+      );
+      expect(uow.db).toBe(scoped.getService(DatabaseContext));
+    });
+
+    it('should inject tokens into constructors with @Inject()', () => {
+      @Injectable({ scope: ServiceScope.Transient })
+      class ApiClient {
+        constructor(@Inject('apiBaseUrl') public readonly baseUrl: string) {}
+      }
+      services
+        .addInstance('apiBaseUrl', 'https://api.test')
+        .addTransient(ApiClient);
+
+      const client = services.buildServiceProvider().getService(ApiClient);
+      expect(client.baseUrl).toBe('https://api.test');
+    });
+
+    it('should reject missing instances at registration', () => {
+      const registered = services.getDescriptors().length;
+
+      expect(() => services.addInstance('apiBaseUrl', undefined)).toThrow(
+        "Instance registered for 'apiBaseUrl' is undefined",
+      );
+      expect(() => services.addInstance(Clock, null as never)).toThrow(
+        "Instance registered for 'Clock' is null",
+      );
+      expect(services.getDescriptors()).toHaveLength(registered);
+    });
+
+    it('should resolve named registrations and tagged services', () => {
+      services
+        .addInstance(Clock, new FixedClock(), { name: 'fixed', tags: ['t'] })
+        .addSingleton(Clock, Clock, { name: 'system', tags: ['t'] });
+      const provider = services.buildServiceProvider();
+
+      expect(provider.getService(Clock, 'fixed').now()).toBe(42);
+      expect(provider.getService(Clock)).not.toBeInstanceOf(FixedClock);
+      expect(provider.getServicesByTag<Clock>('t')).toHaveLength(2);
+      expect(provider.getServicesByTag('missing')).toEqual([]);
+    });
+
+    it('should honor tryAdd, replace and remove', () => {
+      services
+        .addSingleton(Clock, FixedClock)
+        .addSingleton(Clock, Clock, { tryAdd: true });
+      expect(
+        services.getDescriptors().filter((d) => d.serviceType === Clock),
+      ).toHaveLength(1);
+
+      services.addInstance(Clock, new Clock(), { replace: true });
+      expect(
+        services.getDescriptors().find((d) => d.serviceType === Clock)
+          ?.instance,
+      ).toBeInstanceOf(Clock);
+
+      expect(services.remove(Clock)).toBe(true);
+      expect(services.remove(Clock)).toBe(false);
+    });
+
+    it('should detect cycles through factories', () => {
+      services
+        .addSingletonFactory('a', (p) => p.getService('b'))
+        .addSingletonFactory('b', (p) => p.getService('a'));
+
+      expect(() => services.buildServiceProvider().getService('a')).toThrow(
+        /Circular dependency detected: a → b → a/,
+      );
+    });
+
+    it('should reject token registrations without an implementation', () => {
+      expect(() => services.addSingleton(UNIT_OF_WORK_TOKEN)).toThrow(
+        /needs an implementation type/,
+      );
+    });
+  });
+
+  // ==========================================================================
+  // ASYNC FACTORIES
+  // ==========================================================================
+
+  describe('Async Factories', () => {
+    class Pool {
+      constructor(public readonly url: string) {}
+    }
+
+    @Injectable({ scope: ServiceScope.Transient })
+    class Repository {
+      constructor(public readonly pool: Pool) {}
+    }
+
+    const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+    it('should resolve async factories with getServiceAsync', async () => {
+      let created = 0;
+      services
+        .addInstance('dbUrl', 'postgres://test')
+        .addSingletonFactory(Pool, async (provider) => {
+          created++;
+          await delay(1);
+          return new Pool(await provider.getServiceAsync<string>('dbUrl'));
+        })
+        .addTransient(Repository);
+      const provider = services.buildServiceProvider();
+
+      const [r1, r2] = await Promise.all([
+        provider.getServiceAsync(Repository),
+        provider.getServiceAsync(Repository),
+      ]);
+
+      expect(r1.pool.url).toBe('postgres://test');
+      expect(r1.pool).toBe(r2.pool);
+      expect(created).toBe(1);
+    });
+
+    it('should refuse synchronous resolution before initialize()', () => {
+      services.addSingletonFactory(Pool, async () => new Pool('x'));
+      const provider = services.buildServiceProvider();
+
+      expect(() => provider.getService(Pool)).toThrow(/getServiceAsync/);
+    });
+
+    it('should build async singletons in dependency order on initialize()', async () => {
+      const order: string[] = [];
+      services
+        .addSingletonFactory('cache', async (provider) => {
+          await provider.getServiceAsync(Pool);
+          order.push('cache');
+          return {};
+        })
+        .addSingletonFactory(Pool, async () => {
+          await delay(1);
+          order.push('pool');
+          return new Pool('x');
+        })
+        .addTransient(Repository);
+      const provider = services.buildServiceProvider();
+
+      await provider.initialize();
+
+      expect(order).toEqual(['pool', 'cache']);
+      expect(provider.getService(Repository).pool.url).toBe('x');
+    });
+
+    it('should detect cycles between async factories', async () => {
+      services
+        .addSingletonFactory('a', (p) => p.getServiceAsync('b'))
+        .addSingletonFactory('b', (p) => p.getServiceAsync('a'));
+
+      await expect(
+        services.buildServiceProvider().getServiceAsync('a'),
+      ).rejects.toThrow(/Circular dependency detected: a → b → a/);
+    });
+
+    it('should initialize the provider before StruktosHost starts adapters', async () => {
+      const order: string[] = [];
+      services.addSingletonFactory(Pool, async () => {
+        await delay(1);
+        order.push('pool');
+        return new Pool('x');
+      });
+      const adapter = {
+        name: 'test',
+        start: async () => {
+          order.push('adapter');
+          return { url: 'test://', protocol: 'http', port: 0, host: '' };
+        },
+      } as unknown as IAdapter;
+      const logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+      const host = new StruktosHost({
+        gracefulShutdown: false,
+        logger,
+        serviceProvider: services.buildServiceProvider(),
+      });
+      await host.addAdapter(adapter).start();
+
+      expect(order).toEqual(['pool', 'adapter']);
+    });
+  });
+
+  // ==========================================================================
+  // SCOPE VALIDATION
+  // ==========================================================================
+
+  describe('Scope Validation', () => {
+    it('should reject a singleton depending on a scoped service at build', () => {
+      services.addSingleton(CacheService);
+
+      try {
+        services.buildServiceProvider({ validateScopes: true });
+        fail('Should have thrown DependencyResolutionError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(DependencyResolutionError);
+        const resolutionError = error as DependencyResolutionError;
+        expect(resolutionError.message).toContain(
+          "Singleton service 'CacheService' cannot depend on Scoped service " +
+            "'DatabaseContext'",
+        );
+        expect(resolutionError.dependencyGraph).toBe(
+          [
+            'CacheService (Singleton)',
+            '└─ DatabaseContext (Scoped) ← SCOPE MISMATCH',
+          ].join('\n'),
+        );
+      }
+    });
+
+    it('should detect captive dependencies through transient services', () => {
+      services.addSingleton(ReportService);
+
+      expect(() =>
+        services.buildServiceProvider({ validateScopes: true }),
+      ).toThrow(/'ReportService' cannot depend on Scoped service/);
+    });
+
+    it('should not validate scopes unless asked to', () => {
+      services.addSingleton(CacheService);
+
+      expect(() => services.buildServiceProvider()).not.toThrow();
+    });
+
+    it('should report missing registrations and cycles with validateOnBuild', () => {
+      const missing = new ServiceCollection().addTransient(CreateUserHandler);
+      expect(() =>
+        missing.buildServiceProvider({ validateOnBuild: true }),
+      ).toThrow(/'DatabaseContext' is not registered/);
+
+      services.addSingleton(ServiceA).addSingleton(ServiceB);
+      expect(() =>
+        services.buildServiceProvider({ validateOnBuild: true }),
+      ).toThrow(/ServiceA → ServiceB → ServiceA/);
+    });
+
+    it('should accept cycles broken by property injection', () => {
+      services.addSingleton(Parent).addSingleton(Child);
+
+      expect(() =>
+        services.buildServiceProvider({
+          validateOnBuild: true,
+          validateScopes: true,
+        }),
+      ).not.toThrow();
+    });
+
+    it('should reject scoped services resolved from the root provider', () => {
+      services.addScopedFactory(UNIT_OF_WORK_TOKEN, () => ({}));
+      services.addSingletonFactory('cache', (provider) =>
+        provider.getService(UNIT_OF_WORK_TOKEN),
+      );
+      const provider = services.buildServiceProvider({ validateScopes: true });
+
+      expect(() => provider.getService(DatabaseContext)).toThrow(
+        /cannot be resolved from the root provider/,
+      );
+      expect(() => provider.getService('cache')).toThrow(/Scope mismatch/);
+      expect(
+        provider.createScope().getServiceProvider().getService(DatabaseContext),
+      ).toBeInstanceOf(DatabaseContext);
+    });
+  });
+
+  // ==========================================================================
+  // DEPENDENCY GRAPH
+  // ==========================================================================
+
+  describe('Dependency Graph', () => {
+    beforeEach(() => {
+      services
+        .addSingletonFactory(COMMAND_BUS_TOKEN, () => new CommandBus(), {
+          tags: ['cqrs'],
+        })
+        .addSingleton(Clock, FixedClock)
+        .addSingleton(Clock);
+    });
+
+    it('should describe registrations, dependencies and dependents', () => {
+      const graph = services.buildServiceProvider().getDependencyGraph();
+      const node = (id: string) => graph.nodes.find((n) => n.id === id)!;
+
+      expect(node('CreateUserHandler')).toMatchObject({
+        lifetime: ServiceScope.Transient,
+        kind: 'class',
+        dependencies: ['DatabaseContext', 'LoggerService'],
+        dependents: [],
+      });
+      expect(node('LoggerService').dependents).toEqual([
+        'DatabaseContext',
+        'CreateUserHandler',
+      ]);
+      expect(node('Symbol(ICommandBus)')).toMatchObject({
+        kind: 'factory',
+        tags: ['cqrs'],
+      });
+      expect(node('Clock')).toMatchObject({
+        implementation: 'FixedClock',
+        duplicate: true,
+      });
+      expect(node('Clock#2').duplicate).toBe(true);
+      expect(graph.unregistered).toEqual([]);
+    });
+
+    it('should list unregistered dependencies', () => {
+      const graph = new ServiceCollection()
+        .addTransient(CreateUserHandler)
+        .buildServiceProvider()
+        .getDependencyGraph();
+
+      expect(graph.unregistered).toEqual(['DatabaseContext', 'LoggerService']);
+      expect(graph.nodes[0]!.dependencies).toEqual(graph.unregistered);
+    });
+
+    it('should export JSON, DOT and Mermaid', () => {
+      const provider = services.buildServiceProvider();
+
+      expect(JSON.parse(provider.exportDependencyGraph())).toEqual(
+        provider.getDependencyGraph(),
+      );
+
+      const dot = provider.exportDependencyGraph('dot');
+      expect(dot).toMatch(/^digraph Services \{/);
+      expect(dot).toContain(
+        '"CreateUserHandler" [label="CreateUserHandler\\ntransient · class", shape=box];',
+      );
+      expect(dot).toContain('"CreateUserHandler" -> "DatabaseContext";');
+      expect(dot).toContain('shape=ellipse');
+
+      const mermaid = provider.exportDependencyGraph('mermaid');
+      expect(mermaid).toMatch(/^graph LR/);
+      expect(mermaid).toContain('n0["LoggerService<br/>singleton · class"]');
+      expect(mermaid).toContain('n2 --> n1');
+      expect(mermaid).toContain('class n4 duplicate');
+    });
+  });
+});
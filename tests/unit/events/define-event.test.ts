@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Unit tests for defineEvent()
+ *
+ * Tests typed event creators, metadata stamped from RequestContext, the
+ * type guard, and raising creator events from an AggregateRoot.
+ */
+
+import {
+  AggregateRoot,
+  CommandBase,
+  CommandBus,
+  defineEvent,
+  IDomainEvent,
+  RequestContext,
+} from '../../../src';
+
+// ============================================================================
+// Test Events & Aggregates
+// ============================================================================
+
+interface OrderPlacedPayload {
+  orderId: string;
+  total: number;
+}
+
+const OrderPlaced = defineEvent<OrderPlacedPayload>('order.placed');
+const OrderCancelled = defineEvent<{ orderId: string }>('order.cancelled');
+
+class Order extends AggregateRoot {
+  constructor(readonly id: string) {
+    super();
+  }
+
+  place(total: number): void {
+    this.raiseEvent(OrderPlaced, { orderId: this.id, total });
+  }
+
+  cancel(): void {
+    this.raiseEvent(OrderCancelled({ orderId: this.id }));
+  }
+}
+
+class PlaceOrderCommand extends CommandBase<boolean> {
+  constructor() {
+    super();
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('defineEvent', () => {
+  it('should build events with generated metadata', () => {
+    const event = OrderPlaced({ orderId: 'o-1', total: 42 });
+    const other = OrderPlaced({ orderId: 'o-2', total: 7 });
+
+    expect(OrderPlaced.eventName).toBe('order.placed');
+    expect(event.eventName).toBe('order.placed');
+    expect(event.payload).toEqual({ orderId: 'o-1', total: 42 });
+    expect(event.metadata.eventId).toEqual(expect.any(String));
+    expect(event.metadata.eventId).not.toBe(other.metadata.eventId);
+    expect(Date.parse(event.metadata.occurredAt)).not.toBeNaN();
+    expect(event.metadata.actorId).toBeUndefined();
+    expect(event.metadata.context).toBeUndefined();
+  });
+
+  it('should stamp correlation, actor and context from RequestContext', () => {
+    const event = RequestContext.run(
+      {
+        traceId: 'trace-1',
+        userId: 'user-1',
+        requestId: 'req-1',
+        tenantId: 'tenant-1',
+      },
+      () => OrderPlaced({ orderId: 'o-1', total: 42 }, { actorId: 'system' }),
+    );
+
+    expect(event.metadata).toMatchObject({
+      correlationId: 'trace-1',
+      actorId: 'system',
+      context: { requestId: 'req-1', tenantId: 'tenant-1' },
+    });
+  });
+
+  it('should narrow events with the type guard', () => {
+    const events: IDomainEvent[] = [
+      OrderPlaced({ orderId: 'o-1', total: 42 }),
+      OrderCancelled({ orderId: 'o-1' }),
+    ];
+
+    const totals = events.filter(OrderPlaced.is).map((e) => e.payload.total);
+
+    expect(totals).toEqual([42]);
+    expect(OrderCancelled.is(events[0]!)).toBe(false);
+  });
+
+  it('should let aggregates raise events from creators', async () => {
+    const commandBus = new CommandBus();
+    const order = new Order('o-1');
+    let command: PlaceOrderCommand | undefined;
+    commandBus.register(PlaceOrderCommand, {
+      execute: async () => {
+        order.place(42);
+        order.cancel();
+        return true;
+      },
+    });
+
+    await RequestContext.run({ traceId: 'trace-2', userId: 'u-2' }, () => {
+      command = new PlaceOrderCommand();
+      return commandBus.execute(command);
+    });
+
+    expect(order.domainEvents.map((e) => e.eventName)).toEqual([
+      'order.placed',
+      'order.cancelled',
+    ]);
+    expect(order.domainEvents[0]!.metadata).toMatchObject({
+      correlationId: 'trace-2',
+      causationId: command!.metadata!.commandId,
+      actorId: 'u-2',
+    });
+  });
+});
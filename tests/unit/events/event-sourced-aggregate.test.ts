@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Unit tests for EventSourcedAggregateRoot
+ *
+ * Tests applying raised events, replaying history, the committed and
+ * uncommitted split, and optimistic concurrency checks.
+ */
+
+import {
+  ConcurrencyException,
+  ConflictException,
+  defineEvent,
+  EventSourcedAggregateRoot,
+  IDomainEvent,
+} from '../../../src';
+
+// ============================================================================
+// Test Aggregate
+// ============================================================================
+
+const OrderPlaced = defineEvent<{ orderId: string; total: number }>(
+  'order.placed',
+);
+const ItemAdded = defineEvent<{ price: number }>('order.item-added');
+const OrderViewed = defineEvent<Record<string, never>>('order.viewed');
+
+class Order extends EventSourcedAggregateRoot {
+  id = '';
+  total = 0;
+
+  constructor() {
+    super();
+    this.on(OrderPlaced, ({ orderId, total }) => {
+      this.id = orderId;
+      this.total = total;
+    });
+    this.on(ItemAdded, ({ price }) => {
+      if (price < 0) {
+        throw new Error('Price cannot be negative');
+      }
+      this.total += price;
+    });
+  }
+
+  static place(orderId: string): Order {
+    const order = new Order();
+    order.raiseEvent(OrderPlaced, { orderId, total: 0 });
+    return order;
+  }
+
+  addItem(price: number): void {
+    this.raiseEvent(ItemAdded, { price });
+  }
+
+  view(): void {
+    this.raiseEvent(OrderViewed({}));
+  }
+}
+
+function history(): IDomainEvent[] {
+  return [
+    OrderPlaced({ orderId: 'o-1', total: 10 }),
+    ItemAdded({ price: 5 }),
+    ItemAdded({ price: 7 }),
+  ];
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('EventSourcedAggregateRoot', () => {
+  it('should apply raised events and record them as uncommitted', () => {
+    const order = Order.place('o-1');
+    order.addItem(5);
+    order.view();
+
+    expect(order.id).toBe('o-1');
+    expect(order.total).toBe(5);
+    expect(order.version).toBe(3);
+    expect(order.committedVersion).toBe(0);
+    expect(order.uncommittedEvents.map((e) => e.eventName)).toEqual([
+      'order.placed',
+      'order.item-added',
+      'order.viewed',
+    ]);
+  });
+
+  it('should rebuild state from history without uncommitted events', () => {
+    const order = new Order();
+
+    order.loadFromHistory(history());
+
+    expect(order.total).toBe(22);
+    expect(order.version).toBe(3);
+    expect(order.committedVersion).toBe(3);
+    expect(order.uncommittedEvents).toEqual([]);
+    expect(() => {
+      order.addItem(1);
+      order.loadFromHistory(history());
+    }).toThrow('Order has uncommitted events and cannot load history');
+  });
+
+  it('should not record events that fail to apply', () => {
+    const order = Order.place('o-1');
+
+    expect(() => order.addItem(-1)).toThrow('Price cannot be negative');
+    expect(order.version).toBe(1);
+    expect(order.uncommittedEvents).toHaveLength(1);
+  });
+
+  it('should move the committed version when events are committed', () => {
+    const order = new Order();
+    order.loadFromHistory(history());
+    order.addItem(3);
+
+    expect(order.committedVersion).toBe(3);
+    order.markEventsCommitted();
+    expect(order.committedVersion).toBe(4);
+    expect(order.uncommittedEvents).toEqual([]);
+
+    order.addItem(3);
+    order.clearEvents();
+    expect(order.committedVersion).toBe(5);
+  });
+
+  it('should reject unexpected versions', () => {
+    const order = new Order();
+    order.loadFromHistory(history());
+
+    expect(() => order.assertVersion(3)).not.toThrow();
+    let error: unknown;
+    try {
+      order.assertVersion(2);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConcurrencyException);
+    expect(error).toBeInstanceOf(ConflictException);
+    expect(error).toMatchObject({
+      statusCode: 409,
+      expectedVersion: 2,
+      actualVersion: 3,
+      message: "Expected 'Order' at version 2, but it is at version 3",
+    });
+  });
+});
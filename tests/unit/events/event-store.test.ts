@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Unit tests for the event stores
+ *
+ * Tests appending with expected versions, reading streams and the global
+ * log, catch-up subscriptions, upcasting on read, FileEventStore
+ * persistence, and EventSourcedRepository.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConcurrencyException,
+  defineEvent,
+  EventSourcedAggregateRoot,
+  EventSourcedRepository,
+  EventUpcasterRegistry,
+  FileEventStore,
+  IEventStore,
+  InMemoryEventStore,
+  StoredEvent,
+} from '../../../src';
+
+// ============================================================================
+// Test Events & Aggregate
+// ============================================================================
+
+const AccountOpened = defineEvent<{ accountId: string }>('account.opened');
+const Deposited = defineEvent<{ amount: number }>('account.deposited');
+
+class Account extends EventSourcedAggregateRoot {
+  id = '';
+  balance = 0;
+
+  constructor() {
+    super();
+    this.on(AccountOpened, ({ accountId }) => {
+      this.id = accountId;
+    });
+    this.on(Deposited, ({ amount }) => {
+      this.balance += amount;
+    });
+  }
+
+  static open(accountId: string): Account {
+    const account = new Account();
+    account.raiseEvent(AccountOpened, { accountId });
+    return account;
+  }
+
+  deposit(amount: number): void {
+    this.raiseEvent(Deposited, { amount });
+  }
+}
+
+const deposit = (amount: number) => Deposited({ amount });
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Event stores', () => {
+  let store: InMemoryEventStore;
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  // ==========================================================================
+  // APPEND & READ
+  // ==========================================================================
+
+  describe('appending and reading', () => {
+    it('should number events per stream and across streams', async () => {
+      await store.appendToStream('a', 0, [deposit(1), deposit(2)]);
+      const result = await store.appendToStream('b', 0, [deposit(3)]);
+      await store.appendToStream('a', 2, [deposit(4)]);
+
+      expect(result).toEqual({ streamVersion: 1, position: 3 });
+      const streamA = await store.readStream('a');
+      expect(streamA.map((e) => [e.streamVersion, e.position])).toEqual([
+        [1, 1],
+        [2, 2],
+        [3, 4],
+      ]);
+      expect((await store.readStream('a', 2)).map((e) => e.payload)).toEqual([
+        { amount: 4 },
+      ]);
+      expect((await store.readAll(1, 2)).map((e) => e.streamId)).toEqual([
+        'a',
+        'b',
+      ]);
+      await expect(store.readStream('missing')).resolves.toEqual([]);
+      await expect(store.getStreamVersion('a')).resolves.toBe(3);
+    });
+
+    it('should reject appends at an unexpected version', async () => {
+      await store.appendToStream('a', 0, [deposit(1)]);
+
+      const conflict = store.appendToStream('a', 0, [deposit(2)]);
+
+      await expect(conflict).rejects.toBeInstanceOf(ConcurrencyException);
+      await expect(conflict).rejects.toMatchObject({
+        expectedVersion: 0,
+        actualVersion: 1,
+      });
+      await store.appendToStream('a', 'any', [deposit(3)]);
+      await expect(store.getStreamVersion('a')).resolves.toBe(2);
+    });
+
+    it('should upcast events when reading', async () => {
+      const upcasters = new EventUpcasterRegistry().register(
+        'account.deposited',
+        1,
+        (payload: { amount: number }) => ({ cents: payload.amount * 100 }),
+      );
+      store = new InMemoryEventStore({ upcasters });
+      await store.appendToStream('a', 0, [deposit(2)]);
+
+      const [event] = await store.readStream('a');
+
+      expect(event).toMatchObject({
+        version: 2,
+        payload: { cents: 200 },
+        streamVersion: 1,
+      });
+    });
+  });
+
+  // ==========================================================================
+  // SUBSCRIPTIONS
+  // ==========================================================================
+
+  describe('subscriptions', () => {
+    it('should catch up from a position, then deliver new events in order', async () => {
+      await store.appendToStream('a', 0, [deposit(1), deposit(2)]);
+      const received: number[] = [];
+      const unsubscribe = await store.subscribe(
+        async (event: StoredEvent) => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          received.push(event.position);
+        },
+        { fromPosition: 1 },
+      );
+
+      await store.appendToStream('b', 0, [deposit(3)]);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      unsubscribe();
+      await store.appendToStream('b', 1, [deposit(4)]);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect(received).toEqual([2, 3]);
+    });
+
+    it('should report subscriber failures and keep delivering', async () => {
+      const errors: string[] = [];
+      const received: number[] = [];
+      store = new InMemoryEventStore({
+        onError: (error, event) =>
+          errors.push(`${event.position}: ${error.message}`),
+      });
+      await store.subscribe((event) => {
+        if (event.position === 1) {
+          throw new Error('Projection failed');
+        }
+        received.push(event.position);
+      });
+
+      await store.appendToStream('a', 0, [deposit(1), deposit(2)]);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect(errors).toEqual(['1: Projection failed']);
+      expect(received).toEqual([2]);
+    });
+  });
+
+  // ==========================================================================
+  // FILE STORE
+  // ==========================================================================
+
+  describe('FileEventStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'struktos-events-'));
+      filePath = path.join(directory, 'events.jsonl');
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should append one line per event and reload them', async () => {
+      const first = new FileEventStore(filePath);
+      await Promise.all([
+        first.appendToStream('a', 0, [deposit(1), deposit(2)]),
+        first.appendToStream('a', 0, [deposit(3)]).catch((e: unknown) => e),
+        first.appendToStream('b', 'any', [deposit(4)]),
+      ]);
+
+      const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(3);
+
+      const reopened = new FileEventStore(filePath);
+      const all = await reopened.readAll();
+      expect(all.map((e) => [e.streamId, e.position, e.payload])).toEqual([
+        ['a', 1, { amount: 1 }],
+        ['a', 2, { amount: 2 }],
+        ['b', 3, { amount: 4 }],
+      ]);
+      await expect(reopened.appendToStream('a', 1, [])).rejects.toThrow(
+        ConcurrencyException,
+      );
+    });
+
+    it('should cut off a line left incomplete by a crash', async () => {
+      await new FileEventStore(filePath).appendToStream('a', 0, [deposit(1)]);
+      fs.appendFileSync(filePath, '{"eventName":"account.dep');
+
+      const reopened = new FileEventStore(filePath);
+      await reopened.appendToStream('a', 1, [deposit(2)]);
+
+      const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line).streamVersion)).toEqual([
+        1, 2,
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // REPOSITORY
+  // ==========================================================================
+
+  describe('EventSourcedRepository', () => {
+    let eventStore: IEventStore;
+    let accounts: EventSourcedRepository<Account>;
+
+    beforeEach(() => {
+      eventStore = store;
+      accounts = new EventSourcedRepository(eventStore, () => new Account());
+    });
+
+    it('should save uncommitted events and load the aggregate back', async () => {
+      const account = Account.open('acc-1');
+      account.deposit(10);
+      await accounts.save('account-acc-1', account);
+
+      const loaded = await accounts.load('account-acc-1');
+
+      expect(account.uncommittedEvents).toEqual([]);
+      expect(loaded).toMatchObject({ id: 'acc-1', balance: 10, version: 2 });
+      await expect(accounts.load('account-missing')).resolves.toBe(undefined);
+    });
+
+    it('should fail to save over a concurrent change', async () => {
+      await accounts.save('account-acc-1', Account.open('acc-1'));
+      const first = (await accounts.load('account-acc-1'))!;
+      const second = (await accounts.load('account-acc-1'))!;
+
+      first.deposit(5);
+      await accounts.save('account-acc-1', first);
+      second.deposit(7);
+
+      await expect(accounts.save('account-acc-1', second)).rejects.toThrow(
+        "Expected 'account-acc-1' at version 1, but it is at version 2",
+      );
+    });
+  });
+});
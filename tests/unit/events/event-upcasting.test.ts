@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Unit tests for event schema versioning
+ *
+ * Tests the EventUpcasterRegistry chain and its errors, versioned
+ * defineEvent() creators, and upcasting in InMemoryEventBus.
+ */
+
+import {
+  defineEvent,
+  EventUpcasterRegistry,
+  EventUpcastError,
+  IDomainEvent,
+  InMemoryEventBus,
+  toOutboxMessage,
+} from '../../../src';
+
+// ============================================================================
+// Test Events
+// ============================================================================
+
+interface UserRegisteredV3 {
+  email: string;
+  firstName: string;
+  lastName: string;
+  locale: string;
+}
+
+const UserRegistered = defineEvent<UserRegisteredV3>('user.registered', {
+  version: 3,
+});
+
+function createV1Event(name: string): IDomainEvent<{
+  email: string;
+  name: string;
+}> {
+  return {
+    eventName: 'user.registered',
+    metadata: { eventId: 'evt-1', occurredAt: new Date().toISOString() },
+    payload: { email: 'ada@example.com', name },
+  };
+}
+
+function createRegistry(): EventUpcasterRegistry {
+  return new EventUpcasterRegistry()
+    .register<{ email: string; name: string }>(
+      'user.registered',
+      1,
+      (payload) => {
+        const [firstName, lastName = ''] = payload.name.split(' ');
+        return { email: payload.email, firstName, lastName };
+      },
+    )
+    .register('user.registered', 2, (payload) => ({
+      ...payload,
+      locale: 'en',
+    }));
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Event upcasting', () => {
+  let registry: EventUpcasterRegistry;
+
+  beforeEach(() => {
+    registry = createRegistry();
+  });
+
+  // ==========================================================================
+  // REGISTRY
+  // ==========================================================================
+
+  describe('EventUpcasterRegistry', () => {
+    it('should upcast step by step to the latest version', () => {
+      const original = createV1Event('Ada Lovelace');
+
+      const upcast = registry.upcast(original);
+
+      expect(registry.latestVersion('user.registered')).toBe(3);
+      expect(upcast).toMatchObject({
+        version: 3,
+        payload: {
+          email: 'ada@example.com',
+          firstName: 'Ada',
+          lastName: 'Lovelace',
+          locale: 'en',
+        },
+      });
+      expect(upcast.metadata).toBe(original.metadata);
+      expect(original.payload).toEqual({
+        email: 'ada@example.com',
+        name: 'Ada Lovelace',
+      });
+    });
+
+    it('should return current and unknown events unchanged', () => {
+      const current = UserRegistered({
+        email: 'ada@example.com',
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        locale: 'en',
+      });
+      const other: IDomainEvent = {
+        eventName: 'user.deleted',
+        metadata: { eventId: 'evt-2', occurredAt: new Date().toISOString() },
+        payload: {},
+      };
+
+      expect(current.version).toBe(3);
+      expect(registry.upcast(current)).toBe(current);
+      expect(registry.upcast(other)).toBe(other);
+    });
+
+    it('should reject gaps, newer versions and duplicate upcasters', () => {
+      registry.register('user.registered', 4, (payload) => payload);
+      const fromV2 = { ...createV1Event('Ada'), version: 2 };
+
+      expect(() => registry.upcast(fromV2)).toThrow(
+        "Cannot upcast 'user.registered' from version 3: no upcaster is registered",
+      );
+      expect(() => registry.upcast({ ...fromV2, version: 9 })).toThrow(
+        EventUpcastError,
+      );
+      expect(() =>
+        registry.register('user.registered', 1, (payload) => payload),
+      ).toThrow("already registered for 'user.registered' version 1");
+    });
+  });
+
+  // ==========================================================================
+  // EVENT BUS
+  // ==========================================================================
+
+  describe('InMemoryEventBus', () => {
+    it('should deliver the latest payload shape to handlers', async () => {
+      const bus = new InMemoryEventBus({ upcasters: registry });
+      const received: unknown[] = [];
+      bus.registerHandler('user.registered', {
+        handle: async (event: IDomainEvent) => {
+          received.push(event.payload);
+        },
+      });
+
+      // Stored before the schema changed, e.g. in the outbox
+      const stored = toOutboxMessage(createV1Event('Ada Lovelace')).event;
+      await bus.publish(stored);
+      bus.publishSync(createV1Event('Grace Hopper'));
+
+      expect(received).toEqual([
+        {
+          email: 'ada@example.com',
+          firstName: 'Ada',
+          lastName: 'Lovelace',
+          locale: 'en',
+        },
+        {
+          email: 'ada@example.com',
+          firstName: 'Grace',
+          lastName: 'Hopper',
+          locale: 'en',
+        },
+      ]);
+    });
+
+    it('should publish nothing when an event cannot be upcast', async () => {
+      const bus = new InMemoryEventBus({ upcasters: registry });
+      let handled = 0;
+      bus.registerHandler('*', { handle: async () => void handled++ });
+
+      await expect(
+        bus.publishAll([
+          createV1Event('Ada'),
+          { ...createV1Event('Grace'), version: 7 },
+        ]),
+      ).rejects.toThrow(EventUpcastError);
+      expect(handled).toBe(0);
+    });
+  });
+});
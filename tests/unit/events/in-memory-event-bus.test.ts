@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Unit tests for InMemoryEventBus
+ *
+ * Tests exact and wildcard subscriptions, handler isolation with aggregate
+ * errors, ordered publishAll(), publishSync(), RequestContext preservation
+ * and causation links for messages dispatched by handlers.
+ */
+
+import {
+  CommandBase,
+  CommandBus,
+  EventMetadata,
+  EventPublishError,
+  IDomainEvent,
+  IEventHandler,
+  InMemoryEventBus,
+  InMemoryMessageLog,
+  RequestContext,
+} from '../../../src';
+
+// ============================================================================
+// Test Events & Helpers
+// ============================================================================
+
+let nextEventId = 0;
+
+function createEvent(eventName: string): IDomainEvent<{ n: number }> {
+  const metadata: EventMetadata = {
+    eventId: `evt-${++nextEventId}`,
+    occurredAt: new Date().toISOString(),
+  };
+  return { eventName, metadata, payload: { n: nextEventId } };
+}
+
+class RecordingHandler implements IEventHandler<IDomainEvent> {
+  readonly handled: string[] = [];
+
+  async handle(event: IDomainEvent): Promise<void> {
+    this.handled.push(event.eventName);
+  }
+}
+
+class FailingHandler implements IEventHandler<IDomainEvent> {
+  async handle(event: IDomainEvent): Promise<void> {
+    throw new Error(`Cannot handle ${event.eventName}`);
+  }
+}
+
+class NotifyCommand extends CommandBase<boolean> {
+  constructor() {
+    super();
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('InMemoryEventBus', () => {
+  let bus: InMemoryEventBus;
+
+  beforeEach(() => {
+    bus = new InMemoryEventBus();
+  });
+
+  // ==========================================================================
+  // SUBSCRIPTIONS
+  // ==========================================================================
+
+  describe('subscriptions', () => {
+    it('should deliver to every exact, prefix and wildcard subscriber', async () => {
+      const exact = new RecordingHandler();
+      const second = new RecordingHandler();
+      const prefix = new RecordingHandler();
+      const all = new RecordingHandler();
+      bus.registerHandler('OrderPlaced', exact);
+      bus.registerHandler('OrderPlaced', second);
+      bus.registerHandler('Order*', prefix);
+      bus.registerHandler('*', all);
+
+      await bus.publish(createEvent('OrderPlaced'));
+      await bus.publish(createEvent('OrderShipped'));
+      await bus.publish(createEvent('UserCreated'));
+
+      expect(exact.handled).toEqual(['OrderPlaced']);
+      expect(second.handled).toEqual(['OrderPlaced']);
+      expect(prefix.handled).toEqual(['OrderPlaced', 'OrderShipped']);
+      expect(all.handled).toEqual([
+        'OrderPlaced',
+        'OrderShipped',
+        'UserCreated',
+      ]);
+      expect(bus.handlerCount('Order.Placed')).toBe(2);
+    });
+
+    it('should stop delivering after unsubscribing', async () => {
+      const handler = new RecordingHandler();
+      const unsubscribe = bus.registerHandler('OrderPlaced', handler);
+
+      unsubscribe();
+      await bus.publish(createEvent('OrderPlaced'));
+
+      expect(handler.handled).toEqual([]);
+    });
+  });
+
+  // ==========================================================================
+  // ISOLATION
+  // ==========================================================================
+
+  describe('handler isolation', () => {
+    it('should run every handler and report failures together', async () => {
+      const before = new RecordingHandler();
+      const after = new RecordingHandler();
+      bus.registerHandler('OrderPlaced', before);
+      bus.registerHandler('OrderPlaced', new FailingHandler());
+      bus.registerHandler('*', new FailingHandler());
+      bus.registerHandler('OrderPlaced', after);
+
+      const error = await bus
+        .publish(createEvent('OrderPlaced'))
+        .catch((e: unknown) => e);
+
+      expect(before.handled).toEqual(['OrderPlaced']);
+      expect(after.handled).toEqual(['OrderPlaced']);
+      expect(error).toBeInstanceOf(EventPublishError);
+      expect(error).toBeInstanceOf(AggregateError);
+      const publishError = error as EventPublishError;
+      expect(publishError.errors).toHaveLength(2);
+      expect(publishError.failures.map((f) => f.pattern)).toEqual([
+        'OrderPlaced',
+        '*',
+      ]);
+      expect(publishError.failures[0]!.handlerName).toBe('FailingHandler');
+    });
+
+    it('should publish every event in order before reporting failures', async () => {
+      const handled: string[] = [];
+      bus.registerHandler('*', {
+        handle: async (event: IDomainEvent) => {
+          await sleep(event.eventName === 'First' ? 10 : 0);
+          handled.push(event.eventName);
+        },
+      });
+      bus.registerHandler('Second', new FailingHandler());
+
+      await expect(
+        bus.publishAll([
+          createEvent('First'),
+          createEvent('Second'),
+          createEvent('Third'),
+        ]),
+      ).rejects.toThrow('1 event handler(s) failed for Second');
+      expect(handled).toEqual(['First', 'Second', 'Third']);
+    });
+
+    it('should throw synchronous failures from publishSync()', () => {
+      const handled: string[] = [];
+      const asyncFailures: string[] = [];
+      bus = new InMemoryEventBus({
+        onError: (failure) => asyncFailures.push(failure.error.message),
+      });
+      bus.registerHandler('Ping', {
+        handle: (event: IDomainEvent) => {
+          handled.push(event.eventName);
+          return Promise.resolve();
+        },
+      });
+      bus.registerHandler('Ping', {
+        handle: () => {
+          throw new Error('sync failure');
+        },
+      });
+
+      expect(() => bus.publishSync(createEvent('Ping'))).toThrow(
+        EventPublishError,
+      );
+      expect(handled).toEqual(['Ping']);
+      expect(asyncFailures).toEqual([]);
+    });
+
+    it('should report async rejections from publishSync() to onError', async () => {
+      const failures: string[] = [];
+      bus = new InMemoryEventBus({
+        onError: (failure) => failures.push(failure.error.message),
+      });
+      bus.registerHandler('Ping', new FailingHandler());
+
+      bus.publishSync(createEvent('Ping'));
+      await sleep(0);
+
+      expect(failures).toEqual(['Cannot handle Ping']);
+    });
+
+    it('should deliver events the message log failed to record', async () => {
+      const messageLog = new InMemoryMessageLog();
+      jest
+        .spyOn(messageLog, 'record')
+        .mockRejectedValue(new Error('Log unavailable'));
+      const failures: string[] = [];
+      bus = new InMemoryEventBus({
+        messageLog,
+        onError: (failure) =>
+          failures.push(`${failure.handlerName}: ${failure.error.message}`),
+      });
+      const handler = new RecordingHandler();
+      bus.registerHandler('*', handler);
+
+      await bus.publish(createEvent('Ping'));
+      bus.publishSync(createEvent('Pong'));
+      await sleep(0);
+
+      expect(handler.handled).toEqual(['Ping', 'Pong']);
+      expect(failures).toEqual([
+        'InMemoryMessageLog: Log unavailable',
+        'InMemoryMessageLog: Log unavailable',
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // CONTEXT
+  // ==========================================================================
+
+  describe('context', () => {
+    it("should run handlers in the publisher's request context", async () => {
+      const seen: unknown[] = [];
+      bus.registerHandler('*', {
+        handle: async () => {
+          await sleep(1);
+          seen.push(RequestContext.current()?.get('userId'));
+        },
+      });
+
+      await Promise.all([
+        RequestContext.run({ userId: 'alice' }, () =>
+          bus.publish(createEvent('A')),
+        ),
+        RequestContext.run({ userId: 'bob' }, () =>
+          bus.publish(createEvent('B')),
+        ),
+      ]);
+
+      expect(seen.sort()).toEqual(['alice', 'bob']);
+    });
+
+    it('should link commands dispatched by handlers to the event', async () => {
+      const messageLog = new InMemoryMessageLog();
+      const commandBus = new CommandBus();
+      let command: NotifyCommand | undefined;
+      commandBus.register(NotifyCommand, { execute: async () => true });
+      bus = new InMemoryEventBus({ messageLog });
+      bus.registerHandler('OrderPlaced', {
+        handle: async () => {
+          command = new NotifyCommand();
+          await commandBus.execute(command);
+        },
+      });
+      const event = createEvent('OrderPlaced');
+
+      await RequestContext.run({ traceId: 'trace-9' }, () =>
+        bus.publish(event),
+      );
+
+      expect(event.metadata.correlationId).toBe('trace-9');
+      expect(command!.metadata).toMatchObject({
+        correlationId: 'trace-9',
+        causationId: event.metadata.eventId,
+      });
+      await expect(
+        messageLog.findByCorrelationId('trace-9'),
+      ).resolves.toMatchObject([{ kind: 'event', messageType: 'OrderPlaced' }]);
+    });
+  });
+});
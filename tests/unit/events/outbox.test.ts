@@ -0,0 +1,423 @@
+/**
+ * @fileoverview Unit tests for the transactional outbox
+ *
+ * Tests saving aggregate events on commit through OutboxUnitOfWork,
+ * publishing through OutboxRelay with retries and dead-lettering, and
+ * FileOutboxStore persistence and leases.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AggregateRoot,
+  defineEvent,
+  EventSourcedAggregateRoot,
+  FileOutboxStore,
+  IContext,
+  IDomainEvent,
+  InMemoryEventBus,
+  InMemoryOutboxStore,
+  IUnitOfWork,
+  OutboxMessage,
+  OutboxRelay,
+  OutboxUnitOfWork,
+  toOutboxMessage,
+  TransactionResult,
+  TransactionState,
+} from '../../../src';
+
+// ============================================================================
+// Test Aggregates & Helpers
+// ============================================================================
+
+let nextEventId = 0;
+
+function createEvent(eventName: string, payload: object): IDomainEvent {
+  return {
+    eventName,
+    metadata: {
+      eventId: `evt-${++nextEventId}`,
+      occurredAt: new Date().toISOString(),
+    },
+    payload,
+  };
+}
+
+class Order extends AggregateRoot {
+  constructor(readonly id: string) {
+    super();
+  }
+
+  place(): void {
+    this.raiseEvent(createEvent('OrderPlaced', { orderId: this.id }));
+  }
+
+  ship(): void {
+    this.raiseEvent(createEvent('OrderShipped', { orderId: this.id }));
+  }
+}
+
+const Deposited = defineEvent<{ amount: number }>('account.deposited');
+
+class Account extends EventSourcedAggregateRoot {
+  balance = 0;
+
+  constructor() {
+    super();
+    this.on(Deposited, ({ amount }) => {
+      this.balance += amount;
+    });
+  }
+
+  deposit(amount: number): void {
+    this.raiseEvent(Deposited, { amount });
+  }
+}
+
+class FakeUnitOfWork implements IUnitOfWork {
+  state = TransactionState.Inactive;
+  readonly id = 'uow-1';
+  context?: IContext;
+  commitResult: TransactionResult = { success: true, duration: 0 };
+  beforeCommit?: () => Promise<void>;
+
+  async start(): Promise<void> {
+    this.state = TransactionState.Active;
+  }
+
+  async commit(): Promise<TransactionResult> {
+    await this.beforeCommit?.();
+    this.state = this.commitResult.success
+      ? TransactionState.Committed
+      : TransactionState.RolledBack;
+    return this.commitResult;
+  }
+
+  async rollback(): Promise<TransactionResult> {
+    this.state = TransactionState.RolledBack;
+    return { success: true, duration: 0 };
+  }
+
+  getRepository<TRepository>(): TRepository {
+    throw new Error('Not implemented');
+  }
+
+  hasRepository(): boolean {
+    return false;
+  }
+
+  async executeInTransaction<TResult>(
+    callback: (unitOfWork: IUnitOfWork) => Promise<TResult>,
+  ): Promise<TResult> {
+    return callback(this);
+  }
+
+  async createSavepoint(): Promise<void> {}
+
+  async rollbackToSavepoint(): Promise<void> {}
+
+  async releaseSavepoint(): Promise<void> {}
+
+  setContext(context: IContext): void {
+    this.context = context;
+  }
+
+  async dispose(): Promise<void> {}
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>) {
+  for (let i = 0; i < 100 && !(await condition()); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Transactional outbox', () => {
+  let outbox: InMemoryOutboxStore;
+  let inner: FakeUnitOfWork;
+  let uow: OutboxUnitOfWork;
+
+  beforeEach(() => {
+    outbox = new InMemoryOutboxStore();
+    inner = new FakeUnitOfWork();
+    uow = new OutboxUnitOfWork(inner, outbox);
+  });
+
+  // ==========================================================================
+  // UNIT OF WORK
+  // ==========================================================================
+
+  describe('OutboxUnitOfWork', () => {
+    it('should save the events of tracked aggregates on commit', async () => {
+      const first = new Order('o-1');
+      const second = new Order('o-2');
+
+      await uow.executeInTransaction(async () => {
+        first.place();
+        first.ship();
+        second.place();
+        uow.track(first, second);
+      });
+
+      const messages = await outbox.claim(10, Date.now(), Date.now());
+      expect(messages.map((m) => [m.eventName, m.event.payload])).toEqual([
+        ['OrderPlaced', { orderId: 'o-1' }],
+        ['OrderShipped', { orderId: 'o-1' }],
+        ['OrderPlaced', { orderId: 'o-2' }],
+      ]);
+      expect(first.domainEvents).toEqual([]);
+      expect(inner.state).toBe(TransactionState.Committed);
+    });
+
+    it('should mark event-sourced aggregates committed', async () => {
+      const account = new Account();
+
+      await uow.executeInTransaction(async () => {
+        account.deposit(5);
+        account.deposit(7);
+        uow.track(account);
+      });
+
+      expect(account.balance).toBe(12);
+      expect(account.version).toBe(2);
+      expect(account.committedVersion).toBe(2);
+      expect(account.uncommittedEvents).toEqual([]);
+      expect(() => account.assertVersion(2)).not.toThrow();
+    });
+
+    it('should save nothing when the transaction rolls back', async () => {
+      const order = new Order('o-1');
+
+      await expect(
+        uow.executeInTransaction(async () => {
+          order.place();
+          uow.track(order);
+          throw new Error('Out of stock');
+        }),
+      ).rejects.toThrow('Out of stock');
+
+      expect(inner.state).toBe(TransactionState.RolledBack);
+      expect(order.domainEvents).toEqual([]);
+      await expect(outbox.claim(10, Date.now(), Date.now())).resolves.toEqual(
+        [],
+      );
+    });
+
+    it('should discard the messages when the commit fails', async () => {
+      const order = new Order('o-1');
+      inner.commitResult = {
+        success: false,
+        duration: 0,
+        error: new Error('Serialization failure'),
+      };
+      await uow.start();
+      order.place();
+      uow.track(order);
+
+      const result = await uow.commit();
+
+      expect(result.success).toBe(false);
+      expect(order.domainEvents).toHaveLength(1);
+      await expect(
+        outbox.get(order.domainEvents[0]!.metadata.eventId),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should report release failures without failing the commit', async () => {
+      const onError = jest.fn();
+      uow = new OutboxUnitOfWork(inner, outbox, { onError });
+      jest
+        .spyOn(outbox, 'release')
+        .mockRejectedValueOnce(new Error('Outbox unavailable'));
+      const order = new Order('o-1');
+
+      await uow.executeInTransaction(async () => {
+        order.place();
+        uow.track(order);
+      });
+
+      expect(inner.state).toBe(TransactionState.Committed);
+      expect(order.domainEvents).toEqual([]);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Outbox unavailable' }),
+        [expect.objectContaining({ eventName: 'OrderPlaced' })],
+      );
+
+      // The staged messages can be released later
+      const [message] = onError.mock.calls[0]![1] as OutboxMessage[];
+      await expect(outbox.get(message!.id)).resolves.toMatchObject({
+        status: 'staged',
+      });
+      await outbox.release([message!.id]);
+      await expect(
+        outbox.claim(10, Date.now(), Date.now()),
+      ).resolves.toHaveLength(1);
+    });
+
+    it('should not relay messages before the commit completes', async () => {
+      const relay = new OutboxRelay(outbox, new InMemoryEventBus());
+      const order = new Order('o-1');
+      let claimedDuringCommit: number | undefined;
+      inner.beforeCommit = async () => {
+        claimedDuringCommit = await relay.relayPending();
+        throw new Error('Connection lost');
+      };
+
+      await expect(
+        uow.executeInTransaction(async () => {
+          order.place();
+          uow.track(order);
+        }),
+      ).rejects.toThrow('Connection lost');
+
+      expect(claimedDuringCommit).toBe(0);
+      await expect(relay.relayPending()).resolves.toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // RELAY
+  // ==========================================================================
+
+  describe('OutboxRelay', () => {
+    let eventBus: InMemoryEventBus;
+    let published: IDomainEvent[];
+
+    beforeEach(() => {
+      eventBus = new InMemoryEventBus();
+      published = [];
+      eventBus.registerHandler('*', {
+        handle: async (event: IDomainEvent) => {
+          published.push(event);
+        },
+      });
+    });
+
+    it('should publish messages in order and remove them', async () => {
+      const events = [
+        createEvent('OrderPlaced', { orderId: 'o-1' }),
+        createEvent('OrderShipped', { orderId: 'o-1' }),
+      ];
+      await outbox.add(events.map((event) => toOutboxMessage(event)));
+      const relay = new OutboxRelay(outbox, eventBus);
+
+      await expect(relay.relayPending()).resolves.toBe(2);
+
+      expect(published.map((e) => [e.eventName, e.metadata.eventId])).toEqual(
+        events.map((e) => [e.eventName, e.metadata.eventId]),
+      );
+      await expect(outbox.get(events[0]!.metadata.eventId)).resolves.toBe(
+        undefined,
+      );
+    });
+
+    it('should retry with backoff and dead-letter after maxAttempts', async () => {
+      let failures = 0;
+      eventBus.registerHandler('OrderPlaced', {
+        handle: async () => {
+          failures++;
+          throw new Error('Broker unavailable');
+        },
+      });
+      const deadLetters: OutboxMessage[] = [];
+      const relay = new OutboxRelay(outbox, eventBus, {
+        maxAttempts: 3,
+        retryDelay: 20,
+        onDeadLetter: (message) => deadLetters.push(message),
+      });
+      const event = createEvent('OrderPlaced', { orderId: 'o-1' });
+      await outbox.add([toOutboxMessage(event)]);
+
+      await relay.relayPending();
+      const retrying = await outbox.get(event.metadata.eventId);
+      expect(retrying).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        lastError: '1 event handler(s) failed for OrderPlaced',
+      });
+      await expect(relay.relayPending()).resolves.toBe(0);
+
+      await waitFor(async () => {
+        await relay.relayPending();
+        return deadLetters.length > 0;
+      });
+
+      expect(failures).toBe(3);
+      expect(deadLetters).toMatchObject([{ id: event.metadata.eventId }]);
+      await expect(outbox.deadLetters()).resolves.toMatchObject([
+        { status: 'dead', attempts: 3 },
+      ]);
+      await expect(relay.relayPending()).resolves.toBe(0);
+    });
+
+    it('should publish requeued dead letters again', async () => {
+      const event = createEvent('OrderPlaced', { orderId: 'o-1' });
+      await outbox.add([toOutboxMessage(event)]);
+      await outbox.claim(1, Date.now(), Date.now());
+      await outbox.markFailed(event.metadata.eventId, 'Broker unavailable');
+
+      await outbox.requeue(event.metadata.eventId);
+      await new OutboxRelay(outbox, eventBus).relayPending();
+
+      expect(published.map((e) => e.eventName)).toEqual(['OrderPlaced']);
+      await expect(outbox.deadLetters()).resolves.toEqual([]);
+    });
+
+    it('should relay in the background until stopped', async () => {
+      const relay = new OutboxRelay(outbox, eventBus, { pollInterval: 5 });
+      await relay.start();
+
+      await uow.executeInTransaction(async () => {
+        const order = new Order('o-1');
+        order.place();
+        uow.track(order);
+      });
+      await waitFor(() => published.length > 0);
+      await relay.stop();
+
+      expect(published.map((e) => e.eventName)).toEqual(['OrderPlaced']);
+      expect(relay.isRunning()).toBe(false);
+    });
+  });
+
+  // ==========================================================================
+  // FILE STORE
+  // ==========================================================================
+
+  describe('FileOutboxStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'struktos-outbox-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should keep unpublished and leased messages across restarts', async () => {
+      const filePath = path.join(directory, 'outbox.json');
+      const first = createEvent('OrderPlaced', { orderId: 'o-1' });
+      const second = createEvent('OrderShipped', { orderId: 'o-1' });
+      const store = new FileOutboxStore(filePath);
+      await store.add([toOutboxMessage(first), toOutboxMessage(second)]);
+
+      // Claimed by a relay that stopped before publishing
+      const now = Date.now();
+      await store.claim(1, now, now + 1000);
+
+      const reopened = new FileOutboxStore(filePath);
+      const due = await reopened.claim(10, now, now + 5000);
+      expect(due.map((m) => m.id)).toEqual([second.metadata.eventId]);
+
+      const afterLease = await reopened.claim(10, now + 1000, now + 2000);
+      expect(afterLease).toMatchObject([
+        { id: first.metadata.eventId, attempts: 2 },
+      ]);
+    });
+  });
+});
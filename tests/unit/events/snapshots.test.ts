@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Unit tests for aggregate snapshots
+ *
+ * Tests the every-N-events policy, snapshotting on save, loading from a
+ * snapshot plus the stream's tail, and ignoring snapshots of another
+ * schema version.
+ */
+
+import {
+  defineEvent,
+  EventSourcedAggregateRoot,
+  EventSourcedRepository,
+  EveryNEventsSnapshotPolicy,
+  InMemoryEventStore,
+  InMemorySnapshotStore,
+} from '../../../src';
+
+// ============================================================================
+// Test Aggregates
+// ============================================================================
+
+const Counted = defineEvent<{ by: number }>('counter.counted');
+
+class Counter extends EventSourcedAggregateRoot {
+  count = 0;
+  applied = 0;
+
+  constructor() {
+    super();
+    this.on(Counted, ({ by }) => {
+      this.count += by;
+      this.applied++;
+    });
+  }
+
+  increment(by = 1): void {
+    this.raiseEvent(Counted, { by });
+  }
+
+  protected toSnapshot(): unknown {
+    return { count: this.count };
+  }
+
+  protected fromSnapshot(state: { count: number }): void {
+    this.count = state.count;
+  }
+}
+
+/** Counter whose snapshot state changed shape */
+class CounterV2 extends Counter {
+  protected readonly snapshotSchemaVersion = 2;
+}
+
+/** Counter without snapshot support */
+class PlainCounter extends EventSourcedAggregateRoot {
+  constructor() {
+    super();
+    this.on(Counted, () => undefined);
+  }
+
+  increment(): void {
+    this.raiseEvent(Counted, { by: 1 });
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Aggregate snapshots', () => {
+  let eventStore: InMemoryEventStore;
+  let snapshots: InMemorySnapshotStore;
+  let counters: EventSourcedRepository<Counter>;
+
+  beforeEach(() => {
+    eventStore = new InMemoryEventStore();
+    snapshots = new InMemorySnapshotStore();
+    counters = new EventSourcedRepository(eventStore, () => new Counter(), {
+      snapshots,
+      snapshotPolicy: new EveryNEventsSnapshotPolicy(3),
+    });
+  });
+
+  async function saveCounts(counts: number[]): Promise<void> {
+    const counter = new Counter();
+    for (const by of counts) {
+      counter.increment(by);
+      await counters.save('counter-1', counter);
+    }
+  }
+
+  it('should snapshot when a save passes a multiple of N events', () => {
+    const policy = new EveryNEventsSnapshotPolicy(3);
+
+    expect(policy.shouldSnapshot(0, 2)).toBe(false);
+    expect(policy.shouldSnapshot(2, 3)).toBe(true);
+    expect(policy.shouldSnapshot(3, 5)).toBe(false);
+    expect(policy.shouldSnapshot(5, 9)).toBe(true);
+    expect(() => new EveryNEventsSnapshotPolicy(0)).toThrow(
+      'Snapshot interval must be a positive integer',
+    );
+  });
+
+  it('should load from the newest snapshot and replay only the tail', async () => {
+    await saveCounts([1, 2, 3, 4, 5, 6, 7]);
+
+    await expect(snapshots.load('counter-1')).resolves.toMatchObject({
+      streamId: 'counter-1',
+      version: 6,
+      schemaVersion: 1,
+      state: { count: 21 },
+    });
+
+    const counter = (await counters.load('counter-1'))!;
+    expect(counter.count).toBe(28);
+    expect(counter.applied).toBe(1);
+    expect(counter.version).toBe(7);
+    expect(counter.committedVersion).toBe(7);
+
+    // Saving continues the stream from the snapshot's version
+    counter.increment(2);
+    await expect(counters.save('counter-1', counter)).resolves.toEqual({
+      streamVersion: 8,
+      position: 8,
+    });
+  });
+
+  it('should replay the whole stream for another schema version', async () => {
+    await saveCounts([1, 2, 3, 4]);
+    const upgraded = new EventSourcedRepository(
+      eventStore,
+      () => new CounterV2(),
+      { snapshots, snapshotPolicy: new EveryNEventsSnapshotPolicy(3) },
+    );
+
+    const counter = (await upgraded.load('counter-1'))!;
+    expect(counter.count).toBe(10);
+    expect(counter.applied).toBe(4);
+
+    // The next snapshot replaces the outdated one
+    counter.increment(1);
+    counter.increment(1);
+    await upgraded.save('counter-1', counter);
+    await expect(snapshots.load('counter-1')).resolves.toMatchObject({
+      version: 6,
+      schemaVersion: 2,
+    });
+  });
+
+  it('should skip snapshots for aggregates that do not support them', async () => {
+    const plain = new EventSourcedRepository(
+      eventStore,
+      () => new PlainCounter(),
+      { snapshots, snapshotPolicy: new EveryNEventsSnapshotPolicy(1) },
+    );
+    const counter = new PlainCounter();
+    counter.increment();
+    await plain.save('plain-1', counter);
+
+    await expect(snapshots.load('plain-1')).resolves.toBeUndefined();
+    await expect(plain.load('plain-1')).resolves.toMatchObject({
+      version: 1,
+    });
+    await expect(plain.load('plain-missing')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Unit tests for StruktosApp request pipeline integration
+ *
+ * Tests that each request gets its own DI scope through ctx.services and
+ * that the scope is disposed when the pipeline finishes.
+ */
+
+import {
+  compose,
+  IAdapter,
+  IStruktosMiddleware,
+  MiddlewareContext,
+  RequestContext,
+  ServiceCollection,
+  StruktosApp,
+  UNIT_OF_WORK_TOKEN,
+} from '../../../src';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+class FakeUnitOfWork {
+  public disposed = false;
+
+  dispose(): void {
+    this.disposed = true;
+  }
+}
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+/**
+ * Adapter that captures the pipeline and runs requests through it.
+ */
+class FakeAdapter {
+  readonly name = 'fake';
+  readonly protocol = 'http';
+  private pipeline: IStruktosMiddleware | null = null;
+
+  async init(middlewares: IStruktosMiddleware[]): Promise<void> {
+    this.pipeline = compose(...middlewares);
+  }
+
+  async start() {
+    return { url: 'fake://', protocol: 'http' as const, port: 0, host: '' };
+  }
+
+  async stop(): Promise<void> {}
+
+  isRunning(): boolean {
+    return this.pipeline !== null;
+  }
+
+  request(path = '/'): Promise<MiddlewareContext> {
+    return RequestContext.run({}, async () => {
+      const ctx = {
+        context: RequestContext.current()!,
+        request: { id: 'req', method: 'GET', path, headers: {}, query: {} },
+        response: { headers: {} },
+        items: new Map(),
+      } as unknown as MiddlewareContext;
+      await this.pipeline!.invoke(ctx, async () => {});
+      return ctx;
+    });
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('StruktosApp', () => {
+  let adapter: FakeAdapter;
+  let created: FakeUnitOfWork[];
+
+  const createApp = () => {
+    created = [];
+    const provider = new ServiceCollection()
+      .addScopedFactory(UNIT_OF_WORK_TOKEN, () => {
+        const uow = new FakeUnitOfWork();
+        created.push(uow);
+        return uow;
+      })
+      .buildServiceProvider();
+
+    return StruktosApp.create({
+      logger: silentLogger,
+      gracefulShutdown: false,
+      serviceProvider: provider,
+    }).addAdapter(adapter as unknown as IAdapter);
+  };
+
+  beforeEach(() => {
+    adapter = new FakeAdapter();
+  });
+
+  // ==========================================================================
+  // REQUEST SCOPES
+  // ==========================================================================
+
+  describe('Request Scopes', () => {
+    it('should share scoped services within a request only', async () => {
+      const seen: unknown[] = [];
+      const resolve = async (
+        ctx: MiddlewareContext,
+        next: () => Promise<void>,
+      ) => {
+        seen.push(ctx.services!.getService(UNIT_OF_WORK_TOKEN));
+        await next();
+      };
+      await createApp().use(resolve).use(resolve).run();
+
+      await adapter.request();
+      await adapter.request();
+
+      expect(seen[0]).toBe(seen[1]);
+      expect(seen[2]).toBe(seen[3]);
+      expect(seen[0]).not.toBe(seen[2]);
+      expect(created).toHaveLength(2);
+    });
+
+    it('should dispose the scope after the pipeline, even on error', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await createApp()
+        .use(async (ctx) => {
+          ctx.services!.getService(UNIT_OF_WORK_TOKEN);
+          throw new Error('boom');
+        })
+        .run();
+
+      const ctx = await adapter.request();
+
+      expect(ctx.response.status).toBe(500);
+      expect(created).toHaveLength(1);
+      expect(created[0]!.disposed).toBe(true);
+      jest.restoreAllMocks();
+    });
+
+    it('should leave ctx.services unset without a service provider', async () => {
+      let services: unknown = 'unset';
+      await StruktosApp.create({
+        logger: silentLogger,
+        gracefulShutdown: false,
+      })
+        .addAdapter(adapter as unknown as IAdapter)
+        .use(async (ctx) => {
+          services = ctx.services;
+        })
+        .run();
+
+      await adapter.request();
+
+      expect(services).toBeUndefined();
+    });
+  });
+});
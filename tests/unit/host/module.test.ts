@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Unit tests for application modules
+ *
+ * Tests module import ordering, circular import detection, export
+ * visibility, handler registration on the buses (explicit and decorated),
+ * and pipeline configuration through createAppBuilder().addModule().
+ */
+
+import 'reflect-metadata';
+
+import {
+  COMMAND_BUS_TOKEN,
+  CommandBase,
+  createAppBuilder,
+  ICommandBus,
+  IModule,
+  IModulePipelineBuilder,
+  Injectable,
+  IQueryBus,
+  IServiceCollection,
+  ModuleConfigurationError,
+  ModuleLoader,
+  QUERY_BUS_TOKEN,
+  QueryBase,
+  QueryHandler,
+  ServiceCollection,
+  ServiceScope,
+} from '../../../src';
+
+// ============================================================================
+// Test Modules
+// ============================================================================
+
+@Injectable({ scope: ServiceScope.Singleton })
+class TaxCalculator {
+  rate(): number {
+    return 0.2;
+  }
+}
+
+@Injectable({ scope: ServiceScope.Singleton })
+class InvoiceNumbers {
+  next(): string {
+    return 'INV-1';
+  }
+}
+
+class CreateOrderCommand extends CommandBase<number> {
+  constructor(public readonly amount: number) {
+    super();
+  }
+}
+
+class GetTaxRateQuery extends QueryBase<number> {
+  constructor() {
+    super();
+  }
+}
+
+class GetInvoiceNumberQuery extends QueryBase<string> {
+  constructor() {
+    super();
+  }
+}
+
+@Injectable({ scope: ServiceScope.Transient })
+class CreateOrderHandler {
+  constructor(private readonly tax: TaxCalculator) {}
+
+  async execute(command: CreateOrderCommand): Promise<number> {
+    return command.amount * (1 + this.tax.rate());
+  }
+}
+
+@Injectable({ scope: ServiceScope.Transient })
+class GetTaxRateHandler {
+  constructor(private readonly tax: TaxCalculator) {}
+
+  async execute(): Promise<number> {
+    return this.tax.rate();
+  }
+}
+
+@Injectable({ scope: ServiceScope.Transient })
+class GetInvoiceNumberHandler {
+  constructor(private readonly numbers: InvoiceNumbers) {}
+
+  async execute(): Promise<string> {
+    return this.numbers.next();
+  }
+}
+
+class BillingModule implements IModule {
+  exports = [TaxCalculator];
+
+  configureServices(services: IServiceCollection): void {
+    services.addSingleton(TaxCalculator).addSingleton(InvoiceNumbers);
+  }
+}
+
+class OrdersModule implements IModule {
+  imports = [BillingModule];
+  commandHandlers = [{ type: CreateOrderCommand, handler: CreateOrderHandler }];
+}
+
+class ReportingModule implements IModule {
+  imports = [BillingModule];
+  queryHandlers = [{ type: GetTaxRateQuery, handler: GetTaxRateHandler }];
+}
+
+/** Depends on InvoiceNumbers, which BillingModule keeps private */
+class InvoicesModule implements IModule {
+  imports = [BillingModule];
+  queryHandlers = [
+    { type: GetInvoiceNumberQuery, handler: GetInvoiceNumberHandler },
+  ];
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Modules', () => {
+  // ==========================================================================
+  // LOADING
+  // ==========================================================================
+
+  describe('ModuleLoader', () => {
+    it('should load imports first and each module once', () => {
+      const loader = new ModuleLoader([OrdersModule, ReportingModule]);
+
+      expect(loader.moduleNames).toEqual([
+        'BillingModule',
+        'OrdersModule',
+        'ReportingModule',
+      ]);
+    });
+
+    it('should reject circular imports', () => {
+      class A implements IModule {
+        imports = [B];
+      }
+      class B implements IModule {
+        imports = [A];
+      }
+
+      expect(() => new ModuleLoader([A])).toThrow(
+        new ModuleConfigurationError(
+          'Circular module import detected: A → B → A',
+        ),
+      );
+    });
+
+    it('should reject exports the module neither registers nor imports', () => {
+      const loader = new ModuleLoader([
+        { name: 'Broken', exports: [InvoiceNumbers] },
+      ]);
+
+      expect(() => loader.configureServices(new ServiceCollection())).toThrow(
+        /'Broken' exports 'InvoiceNumbers'/,
+      );
+    });
+  });
+
+  // ==========================================================================
+  // APP BUILDER
+  // ==========================================================================
+
+  describe('createAppBuilder().addModule()', () => {
+    it('should register module handlers on the command and query buses', async () => {
+      const app = createAppBuilder()
+        .addModule(OrdersModule)
+        .addModule(ReportingModule)
+        .build();
+      const provider = app.getOptions().serviceProvider!;
+
+      const commandBus = provider.getService<ICommandBus>(COMMAND_BUS_TOKEN);
+      const queryBus = provider.getService<IQueryBus>(QUERY_BUS_TOKEN);
+
+      await expect(
+        commandBus.execute(new CreateOrderCommand(100)),
+      ).resolves.toBe(120);
+      await expect(queryBus.execute(new GetTaxRateQuery())).resolves.toBe(0.2);
+    });
+
+    it('should reject dependencies on services a module does not export', () => {
+      expect(() =>
+        createAppBuilder().addModule(InvoicesModule).build(),
+      ).toThrow(
+        new ModuleConfigurationError(
+          "Service 'GetInvoiceNumberHandler' in module 'InvoicesModule' " +
+            "depends on 'InvoiceNumbers', which is private to module " +
+            "'BillingModule'. Export it from 'BillingModule' and import " +
+            "'BillingModule' into 'InvoicesModule'.",
+        ),
+      );
+    });
+
+    it('should fail on duplicate handlers across modules', () => {
+      class ReturnsModule implements IModule {
+        imports = [BillingModule];
+        commandHandlers = [
+          { type: CreateOrderCommand, handler: CreateOrderHandler },
+        ];
+      }
+
+      expect(() =>
+        createAppBuilder()
+          .addModule(OrdersModule)
+          .addModule(ReturnsModule)
+          .build(),
+      ).toThrow(/already registered for command 'CreateOrderCommand'/);
+    });
+
+    it('should register handlers discovered from decorators', async () => {
+      @QueryHandler(GetInvoiceNumberQuery)
+      @Injectable({ scope: ServiceScope.Transient })
+      class DecoratedInvoiceNumberHandler {
+        async execute(): Promise<string> {
+          return 'INV-2';
+        }
+      }
+      const app = createAppBuilder()
+        .addModule({ handlers: [DecoratedInvoiceNumberHandler] })
+        .build();
+
+      const queryBus = app
+        .getOptions()
+        .serviceProvider!.getService<IQueryBus>(QUERY_BUS_TOKEN);
+      await expect(queryBus.execute(new GetInvoiceNumberQuery())).resolves.toBe(
+        'INV-2',
+      );
+    });
+
+    it('should apply module pipelines after builder middleware', () => {
+      const order: string[] = [];
+      class AuditModule implements IModule {
+        configurePipeline(app: IModulePipelineBuilder): void {
+          order.push('audit');
+          app.use(async (_ctx, next) => next());
+        }
+      }
+
+      const app = createAppBuilder()
+        .use(async (_ctx, next) => next())
+        .configureServices(() => order.push('services'))
+        .addModule(AuditModule)
+        .build();
+
+      expect(app.middlewareCount).toBe(2);
+      expect(order).toEqual(['services', 'audit']);
+    });
+  });
+});